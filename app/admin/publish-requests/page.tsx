@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { PageHeader } from "@/components/shared/page-header";
+import { LoadingPage } from "@/components/shared/loading";
+import { EmptyState } from "@/components/shared/empty-state";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ClipboardCheck, Check, X, Loader2 } from "lucide-react";
+
+type RequestStatus = "pending" | "approved" | "rejected";
+
+interface PublishRequest {
+  id: string;
+  site_id: string;
+  notes: string | null;
+  status: RequestStatus;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  snapshot_at: string | null;
+  sites: { id: string; name: string; slug: string } | null;
+  clients: { id: string; name: string; email: string } | null;
+}
+
+const statusVariants: Record<RequestStatus, "warning" | "success" | "destructive"> = {
+  pending: "warning",
+  approved: "success",
+  rejected: "destructive",
+};
+
+export default function PublishRequestsPage() {
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<RequestStatus>("pending");
+  const [requests, setRequests] = useState<PublishRequest[]>([]);
+
+  // Review dialog states
+  const [reviewing, setReviewing] = useState<{
+    request: PublishRequest;
+    action: "approve" | "reject";
+  } | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [status]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/publish-requests?status=${status}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setRequests(data.data || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch publish requests:", error);
+    }
+
+    setLoading(false);
+  };
+
+  const openReview = (request: PublishRequest, action: "approve" | "reject") => {
+    setComment("");
+    setReviewing({ request, action });
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+    const { request, action } = reviewing;
+
+    if (action === "reject" && !comment.trim()) {
+      toast.error("Add a comment so the client knows what to change");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/admin/publish-requests/${request.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ comment: comment || undefined }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${action} request`);
+      }
+
+      toast.success(action === "approve" ? "Request approved and site published" : "Request rejected");
+      setReviewing(null);
+      fetchRequests();
+    } catch (error: any) {
+      toast.error(error.message || `Failed to ${action} request`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <PageHeader title="Approvals" description="Review publish requests from clients" />
+
+      <Tabs value={status} onValueChange={(value) => setStatus(value as RequestStatus)}>
+        <TabsList className="bg-slate-900 border border-slate-800 mb-6">
+          <TabsTrigger value="pending">Pending</TabsTrigger>
+          <TabsTrigger value="approved">Approved</TabsTrigger>
+          <TabsTrigger value="rejected">Rejected</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <LoadingPage />
+      ) : requests.length > 0 ? (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+          {requests.map((request) => (
+            <div key={request.id} className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-3">
+                  <Link
+                    href={`/admin/sites/${request.site_id}`}
+                    className="font-medium text-white hover:text-emerald-400"
+                  >
+                    {request.sites?.name || "Unknown site"}
+                  </Link>
+                  <Badge variant={statusVariants[request.status]}>{request.status}</Badge>
+                </div>
+                <p className="text-sm text-slate-500 mt-1">
+                  {request.clients?.name || "Unknown client"} ·{" "}
+                  {new Date(request.created_at).toLocaleString()}
+                </p>
+                {request.status === "pending" && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {request.snapshot_at
+                      ? `Publishes the content as of ${new Date(request.snapshot_at).toLocaleString()}`
+                      : "Publishes the current draft"}
+                  </p>
+                )}
+                {request.notes && (
+                  <p className="text-sm text-slate-300 mt-2 whitespace-pre-wrap">{request.notes}</p>
+                )}
+                {request.review_comment && (
+                  <p className="text-sm text-slate-400 mt-2 italic">
+                    Review: {request.review_comment}
+                  </p>
+                )}
+              </div>
+              {request.status === "pending" && (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-slate-700"
+                    onClick={() => openReview(request, "reject")}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-emerald-500 hover:bg-emerald-600"
+                    onClick={() => openReview(request, "approve")}
+                  >
+                    <Check className="w-4 h-4 mr-2" />
+                    Approve
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <EmptyState
+          icon={ClipboardCheck}
+          title={`No ${status} requests`}
+          description={
+            status === "pending"
+              ? "Requests appear here when clients submit changes for approval"
+              : undefined
+          }
+        />
+      )}
+
+      {/* Review Dialog */}
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="bg-slate-900 border-slate-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              {reviewing?.action === "approve" ? "Approve and publish" : "Reject request"}
+            </DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {reviewing?.action === "approve"
+                ? reviewing.request.snapshot_at
+                  ? `This publishes ${reviewing.request.sites?.name ?? "the site"} as it was submitted on ${new Date(reviewing.request.snapshot_at).toLocaleString()}. Changes made since then are not included.`
+                  : `This publishes the current draft of ${reviewing.request.sites?.name ?? "the site"}.`
+                : "The client will see your comment on their publish page."}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label className="text-slate-300">
+              Comment {reviewing?.action === "approve" && "(optional)"}
+            </Label>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+              placeholder={
+                reviewing?.action === "approve" ? "Looks good!" : "What needs to change?"
+              }
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="border-slate-700"
+              onClick={() => setReviewing(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={submitting}
+              className={
+                reviewing?.action === "approve"
+                  ? "bg-emerald-500 hover:bg-emerald-600"
+                  : "bg-red-500 hover:bg-red-600"
+              }
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {reviewing?.action === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -26,6 +26,11 @@ import {
   DialogTrigger,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { WebhookSettings } from "@/components/admin/webhook-settings";
+import { PublishHistory } from "@/components/admin/publish-history";
+import { CollectionSchemaEditor } from "@/components/admin/collection-schema-editor";
+import { CollectionImportDialog } from "@/components/shared/collection-import-dialog";
+import { TrashList } from "@/components/shared/trash-list";
 import { toast } from "sonner";
 import {
   ArrowLeft,
@@ -36,6 +41,8 @@ import {
   Trash2,
   GripVertical,
   ExternalLink,
+  Upload,
+  Download,
 } from "lucide-react";
 
 interface Site {
@@ -46,6 +53,7 @@ interface Site {
   replit_url: string | null;
   custom_domain: string | null;
   client_id: string | null;
+  timezone: string;
   api_key: string;
   created_at: string;
   clients?: { id: string; name: string } | null;
@@ -64,7 +72,7 @@ interface Collection {
   id: string;
   collection_key: string;
   label: string;
-  schema: any;
+  item_schema: Record<string, any>;
 }
 
 interface ImageSlot {
@@ -73,8 +81,21 @@ interface ImageSlot {
   label: string;
   recommended_width: number | null;
   recommended_height: number | null;
+  min_width: number | null;
+  min_height: number | null;
+  enforce_dimensions: boolean;
 }
 
+const EMPTY_IMAGE_SLOT = {
+  key: "",
+  label: "",
+  width: "",
+  height: "",
+  minWidth: "",
+  minHeight: "",
+  enforceDimensions: false,
+};
+
 interface Permission {
   id: string;
   can_edit_business_info: boolean;
@@ -85,6 +106,7 @@ interface Permission {
   can_delete_collection_items: boolean;
   can_reorder_items: boolean;
   can_publish: boolean;
+  can_request_publish: boolean;
 }
 
 export default function SiteConfigPage({ params }: { params: Promise<{ id: string }> }) {
@@ -106,6 +128,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
     replitUrl: "",
     customDomain: "",
     clientId: "",
+    timezone: "",
   });
 
   // Dialog states
@@ -113,8 +136,10 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
   const [newField, setNewField] = useState({ key: "", label: "", maxLength: "" });
   const [newCollectionOpen, setNewCollectionOpen] = useState(false);
   const [newCollection, setNewCollection] = useState({ key: "", label: "" });
+  const [editSchemaCollection, setEditSchemaCollection] = useState<Collection | null>(null);
+  const [importCollection, setImportCollection] = useState<Collection | null>(null);
   const [newImageOpen, setNewImageOpen] = useState(false);
-  const [newImage, setNewImage] = useState({ key: "", label: "", width: "", height: "" });
+  const [newImage, setNewImage] = useState(EMPTY_IMAGE_SLOT);
 
   useEffect(() => {
     fetchData();
@@ -139,6 +164,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
         replitUrl: siteData.replit_url || "",
         customDomain: siteData.custom_domain || "",
         clientId: siteData.client_id || "",
+        timezone: siteData.timezone || "UTC",
       });
     }
 
@@ -154,6 +180,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
       .from("text_content")
       .select("*")
       .eq("site_id", id)
+      .is("deleted_at", null)
       .order("sort_order");
     if (fieldsData) setTextFields(fieldsData);
 
@@ -169,6 +196,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
       .from("images")
       .select("*")
       .eq("site_id", id)
+      .is("deleted_at", null)
       .order("sort_order");
     if (imagesData) setImageSlots(imagesData);
 
@@ -199,6 +227,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
           replit_url: formData.replitUrl || null,
           custom_domain: formData.customDomain || null,
           client_id: formData.clientId || null,
+          timezone: formData.timezone || "UTC",
         }),
       });
 
@@ -270,13 +299,28 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
 
       if (!response.ok) throw new Error("Failed to delete field");
 
-      toast.success("Text field deleted");
+      toast.success("Text field moved to the trash");
       fetchData();
     } catch (error) {
       toast.error("Failed to delete text field");
     }
   };
 
+  const handleDeleteImageSlot = async (imageId: string) => {
+    try {
+      const response = await fetch(`/api/admin/sites/${id}/images/${imageId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) throw new Error("Failed to delete image slot");
+
+      toast.success("Image slot moved to the trash");
+      fetchData();
+    } catch (error) {
+      toast.error("Failed to delete image slot");
+    }
+  };
+
   const handleAddCollection = async () => {
     try {
       const response = await fetch(`/api/admin/sites/${id}/collections`, {
@@ -285,6 +329,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
         body: JSON.stringify({
           collection_key: newCollection.key,
           label: newCollection.label,
+          item_schema: {},
         }),
       });
 
@@ -309,6 +354,9 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
           label: newImage.label,
           recommended_width: newImage.width ? parseInt(newImage.width) : null,
           recommended_height: newImage.height ? parseInt(newImage.height) : null,
+          min_width: newImage.minWidth ? parseInt(newImage.minWidth) : null,
+          min_height: newImage.minHeight ? parseInt(newImage.minHeight) : null,
+          enforce_dimensions: newImage.enforceDimensions,
         }),
       });
 
@@ -316,7 +364,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
 
       toast.success("Image slot added");
       setNewImageOpen(false);
-      setNewImage({ key: "", label: "", width: "", height: "" });
+      setNewImage(EMPTY_IMAGE_SLOT);
       fetchData();
     } catch (error) {
       toast.error("Failed to add image slot");
@@ -384,6 +432,9 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
           <TabsTrigger value="collections">Collections</TabsTrigger>
           <TabsTrigger value="images">Images</TabsTrigger>
           <TabsTrigger value="permissions">Permissions</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+          <TabsTrigger value="trash">Trash</TabsTrigger>
         </TabsList>
 
         {/* General Tab */}
@@ -465,6 +516,19 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
               />
             </div>
 
+            <div>
+              <Label className="text-slate-300">Timezone</Label>
+              <Input
+                value={formData.timezone}
+                onChange={(e) => setFormData((prev) => ({ ...prev, timezone: e.target.value }))}
+                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+                placeholder="Europe/Berlin"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                Scheduled collection items are shown and hidden in this timezone
+              </p>
+            </div>
+
             <div>
               <Label className="text-slate-300">API Key</Label>
               <div className="flex gap-2 mt-1.5">
@@ -646,9 +710,34 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                       <p className="font-medium text-white">{collection.label}</p>
                       <p className="text-sm text-slate-500">{collection.collection_key}</p>
                     </div>
-                    <Button variant="ghost" size="sm" className="text-slate-400">
-                      Edit Schema
-                    </Button>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" className="text-slate-400" asChild>
+                        <a
+                          href={`/api/admin/sites/${id}/collections/${collection.id}/export?format=csv`}
+                          download
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Export
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400"
+                        onClick={() => setImportCollection(collection)}
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400"
+                        onClick={() => setEditSchemaCollection(collection)}
+                      >
+                        Edit Schema
+                      </Button>
+                    </div>
                   </div>
                 ))
               ) : (
@@ -658,6 +747,26 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
               )}
             </div>
           </div>
+          {importCollection && (
+            <CollectionImportDialog
+              open
+              onOpenChange={(open) => !open && setImportCollection(null)}
+              collectionLabel={importCollection.label}
+              fields={importCollection.item_schema}
+              importUrl={`/api/admin/sites/${id}/collections/${importCollection.id}/import`}
+              onImported={fetchData}
+            />
+          )}
+          <CollectionSchemaEditor
+            siteId={id}
+            collection={editSchemaCollection}
+            collectionKeys={collections.map((c) => c.collection_key)}
+            onOpenChange={(open) => !open && setEditSchemaCollection(null)}
+            onSaved={() => {
+              setEditSchemaCollection(null);
+              fetchData();
+            }}
+          />
         </TabsContent>
 
         {/* Images Tab */}
@@ -697,7 +806,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <Label className="text-slate-300">Max Width (optional)</Label>
+                        <Label className="text-slate-300">Recommended Width (optional)</Label>
                         <Input
                           type="number"
                           value={newImage.width}
@@ -707,7 +816,7 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                         />
                       </div>
                       <div>
-                        <Label className="text-slate-300">Max Height (optional)</Label>
+                        <Label className="text-slate-300">Recommended Height (optional)</Label>
                         <Input
                           type="number"
                           value={newImage.height}
@@ -717,6 +826,43 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                         />
                       </div>
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label className="text-slate-300">Min Width (optional)</Label>
+                        <Input
+                          type="number"
+                          value={newImage.minWidth}
+                          onChange={(e) => setNewImage((prev) => ({ ...prev, minWidth: e.target.value }))}
+                          className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+                          placeholder="1280"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-slate-300">Min Height (optional)</Label>
+                        <Input
+                          type="number"
+                          value={newImage.minHeight}
+                          onChange={(e) => setNewImage((prev) => ({ ...prev, minHeight: e.target.value }))}
+                          className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+                          placeholder="720"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label className="text-slate-300">Enforce dimensions</Label>
+                        <p className="text-xs text-slate-500">
+                          Reject uploads below the minimum size or off the recommended aspect ratio
+                          instead of warning
+                        </p>
+                      </div>
+                      <Switch
+                        checked={newImage.enforceDimensions}
+                        onCheckedChange={(checked) =>
+                          setNewImage((prev) => ({ ...prev, enforceDimensions: checked }))
+                        }
+                      />
+                    </div>
                   </div>
                   <DialogFooter>
                     <Button variant="outline" className="border-slate-700" onClick={() => setNewImageOpen(false)}>
@@ -737,11 +883,31 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                       <p className="font-medium text-white">{slot.label}</p>
                       <p className="text-sm text-slate-500">{slot.image_key}</p>
                     </div>
-                    {(slot.recommended_width || slot.recommended_height) && (
-                      <span className="text-sm text-slate-500">
-                        {slot.recommended_width}x{slot.recommended_height}
-                      </span>
-                    )}
+                    <div className="flex items-center gap-4">
+                      {(slot.recommended_width || slot.recommended_height) && (
+                        <span className="text-sm text-slate-500">
+                          {slot.recommended_width}x{slot.recommended_height}
+                        </span>
+                      )}
+                      {(slot.min_width || slot.min_height) && (
+                        <span className="text-sm text-slate-500">
+                          min {slot.min_width ?? "-"}x{slot.min_height ?? "-"}
+                        </span>
+                      )}
+                      {slot.enforce_dimensions && (
+                        <Badge variant="outline" className="border-slate-700 text-slate-400">
+                          Enforced
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        onClick={() => handleDeleteImageSlot(slot.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))
               ) : (
@@ -809,6 +975,12 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
                 checked={permissions.can_publish}
                 onChange={(checked) => handlePermissionChange("can_publish", checked)}
               />
+              <PermissionRow
+                label="Can request publishing"
+                description="Allow client to submit changes for admin approval when they cannot publish directly"
+                checked={permissions.can_request_publish}
+                onChange={(checked) => handlePermissionChange("can_request_publish", checked)}
+              />
             </div>
           ) : (
             <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-8 text-center">
@@ -816,6 +988,21 @@ export default function SiteConfigPage({ params }: { params: Promise<{ id: strin
             </div>
           )}
         </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history">
+          <PublishHistory siteId={id} onRestored={() => fetchData()} />
+        </TabsContent>
+
+        {/* Webhooks Tab */}
+        <TabsContent value="webhooks">
+          <WebhookSettings siteId={id} />
+        </TabsContent>
+
+        {/* Trash Tab */}
+        <TabsContent value="trash">
+          <TrashList trashUrl={`/api/admin/sites/${id}/trash`} onRestored={() => fetchData()} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,104 @@
+// POST /api/admin/publish-requests/[id]/approve - Approve a request and publish the site
+// Publishes the content as it was submitted, not the draft as it is now: the
+// client asked for approval of what they saw then, so edits made since wait
+// for their next request. The admin approvals page shows when that snapshot
+// was taken. Requests from before snapshots were kept publish the draft.
+
+import { NextRequest } from 'next/server';
+import { verifyAdmin } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, reviewPublishRequestSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ConflictError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getPublishRequest,
+  reviewPublishRequest,
+  updatePublishRequest,
+} from '@/lib/db/publishing';
+import { publishSite } from '@/lib/content/publish';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication
+    const { user } = await verifyAdmin(request);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json().catch(() => ({}));
+    const { comment } = validateInput(reviewPublishRequestSchema, body);
+
+    const publishRequest = await getPublishRequest(id);
+
+    // Claim the request before publishing so it can only be approved once
+    const approved = await reviewPublishRequest(id, {
+      status: 'approved',
+      reviewedBy: user.id,
+      comment,
+    });
+    if (!approved) {
+      throw new ConflictError('This publish request has already been reviewed');
+    }
+
+    // Run the normal publish path with the submitted content (requests from
+    // before snapshots were kept publish the draft)
+    let publishEntry;
+    try {
+      publishEntry = await publishSite({
+        siteId: publishRequest.site_id,
+        userId: user.id,
+        userType: user.type,
+        snapshot: publishRequest.content_snapshot ?? undefined,
+        notes: publishRequest.notes || undefined,
+        changes: {
+          publish_request: { old: null, new: publishRequest.id },
+        },
+        request,
+      });
+    } catch (error) {
+      // Put the request back in the queue if the publish itself failed
+      await updatePublishRequest(id, {
+        status: 'pending',
+        reviewed_by: null,
+        review_comment: null,
+        reviewed_at: null,
+      });
+      throw error;
+    }
+
+    await updatePublishRequest(id, { publish_history_id: publishEntry.id });
+
+    // Log activity
+    await logActivity({
+      siteId: publishRequest.site_id,
+      userId: user.id,
+      userType: user.type,
+      action: 'approve_publish_request',
+      entityType: 'publish_request',
+      entityId: id,
+      changes: {
+        status: { old: 'pending', new: 'approved' },
+      },
+      request,
+    });
+
+    return successResponse({
+      ...approved,
+      publish_history_id: publishEntry.id,
+      version: publishEntry.version_number,
+    });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,63 @@
+// POST /api/admin/publish-requests/[id]/reject - Reject a publish request with a comment
+
+import { NextRequest } from 'next/server';
+import { verifyAdmin } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, reviewPublishRequestSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ConflictError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import { getPublishRequest, reviewPublishRequest } from '@/lib/db/publishing';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication
+    const { user } = await verifyAdmin(request);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json().catch(() => ({}));
+    const { comment } = validateInput(reviewPublishRequestSchema, body);
+
+    const publishRequest = await getPublishRequest(id);
+
+    const rejected = await reviewPublishRequest(id, {
+      status: 'rejected',
+      reviewedBy: user.id,
+      comment,
+    });
+    if (!rejected) {
+      throw new ConflictError('This publish request has already been reviewed');
+    }
+
+    // Log activity
+    await logActivity({
+      siteId: publishRequest.site_id,
+      userId: user.id,
+      userType: user.type,
+      action: 'reject_publish_request',
+      entityType: 'publish_request',
+      entityId: id,
+      changes: {
+        status: { old: 'pending', new: 'rejected' },
+        review_comment: { old: null, new: comment || null },
+      },
+      request,
+    });
+
+    return successResponse(rejected);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,34 @@
+// GET /api/admin/publish-requests - List publish requests, optionally by status
+
+import { NextRequest } from 'next/server';
+import { verifyAdmin } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, publishRequestFilterSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getPublishRequests } from '@/lib/db/publishing';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin authentication
+    await verifyAdmin(request);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse query parameters
+    const { status } = validateInput(publishRequestFilterSchema, {
+      status: request.nextUrl.searchParams.get('status') || undefined,
+    });
+
+    const publishRequests = await getPublishRequests(status);
+
+    return successResponse(publishRequests);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
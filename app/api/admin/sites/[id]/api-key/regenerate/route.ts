@@ -7,6 +7,7 @@ import { logAdminAction } from '@/lib/security/logging';
 import { successResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError } from '@/lib/utils/errors';
 import { regenerateApiKey } from '@/lib/db/sites';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function POST(
   request: NextRequest,
@@ -36,6 +37,11 @@ export async function POST(
       request
     );
 
+    // Receivers are told the key changed, never the key itself
+    await triggerWebhookEvent(siteId, 'api_key.regenerated', {
+      regenerated_at: new Date().toISOString(),
+    });
+
     return successResponse({
       api_key: newApiKey,
       message: 'API key regenerated successfully. Update your Replit site configuration.',
@@ -0,0 +1,51 @@
+// GET /api/admin/sites/[id]/collections/[collectionId]/export - Export items as CSV or JSON
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, collectionExportQuerySchema } from '@/lib/security/validation';
+import { downloadResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getCollectionById } from '@/lib/db/collections';
+import { exportCollectionItems } from '@/lib/content/collection-import';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string }> }
+) {
+  try {
+    const { id, collectionId } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const { format } = validateInput(collectionExportQuerySchema, {
+      format: request.nextUrl.searchParams.get('format') || undefined,
+    });
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    const body = await exportCollectionItems(collection, format);
+
+    return downloadResponse(
+      body,
+      `${collection.collection_key}.${format}`,
+      format === 'csv' ? 'text/csv' : 'application/json'
+    );
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,84 @@
+// POST /api/admin/sites/[id]/collections/[collectionId]/import - Import items from CSV or JSON (or dry run)
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, collectionImportSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getCollectionById } from '@/lib/db/collections';
+import { previewCollectionImport, applyCollectionImport } from '@/lib/content/collection-import';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string }> }
+) {
+  try {
+    const { id, collectionId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(collectionImportSchema, body);
+    const importParams = {
+      collection,
+      format: input.format,
+      content: input.content,
+      mapping: input.mapping,
+    };
+
+    if (input.dry_run) {
+      return successResponse(await previewCollectionImport(importParams));
+    }
+
+    // Import every row in one transaction, or nothing if any row is invalid
+    const result = await applyCollectionImport({
+      ...importParams,
+      userId: user.id,
+      userType: 'admin',
+      request,
+    });
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'import_collection_items',
+      {
+        site_id: siteId,
+        collection_key: collection.collection_key,
+        items: result.items.length,
+      },
+      request
+    );
+
+    for (const item of result.items) {
+      await triggerWebhookEvent(siteId, 'collection_item.created', {
+        collection_key: collection.collection_key,
+        item,
+      });
+    }
+
+    return successResponse(result, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,55 @@
+// POST /api/admin/sites/[id]/collections/[collectionId]/schema-migrations/[migrationId]/undo - Undo a schema migration
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getCollectionById } from '@/lib/db/collections';
+import { undoSchemaMigration } from '@/lib/content/schema-migration';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string; migrationId: string }> }
+) {
+  try {
+    const { id, collectionId, migrationId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    // Restore the previous schema and item data in one transaction
+    const migration = await undoSchemaMigration({
+      collectionId,
+      migrationId,
+      userId: user.id,
+      request,
+    });
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'undo_collection_schema_migration',
+      { site_id: siteId, collection_key: collection.collection_key, migration_id: migrationId },
+      request
+    );
+
+    return successResponse(migration);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
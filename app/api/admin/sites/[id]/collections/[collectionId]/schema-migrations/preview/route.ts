@@ -0,0 +1,50 @@
+// POST /api/admin/sites/[id]/collections/[collectionId]/schema-migrations/preview - Preview a schema change
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, collectionSchemaMigrationSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getCollectionById, getCollectionItems } from '@/lib/db/collections';
+import { previewSchemaMigration } from '@/lib/content/schema-migration';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string }> }
+) {
+  try {
+    const { id, collectionId } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(collectionSchemaMigrationSchema, body);
+
+    // Dry run against the current items, trash included - nothing is written
+    const items = await getCollectionItems(collectionId, true);
+    const preview = previewSchemaMigration(collection, items, input.item_schema, {
+      renames: input.renames,
+      defaults: input.defaults,
+    });
+
+    return successResponse(preview);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
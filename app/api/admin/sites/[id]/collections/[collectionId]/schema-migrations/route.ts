@@ -0,0 +1,99 @@
+// GET /api/admin/sites/[id]/collections/[collectionId]/schema-migrations - List schema migrations
+// POST /api/admin/sites/[id]/collections/[collectionId]/schema-migrations - Apply a schema change
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, collectionSchemaMigrationSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getCollectionById, getCollectionSchemaMigrations } from '@/lib/db/collections';
+import { applySchemaMigration } from '@/lib/content/schema-migration';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string }> }
+) {
+  try {
+    const { id, collectionId } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    const migrations = await getCollectionSchemaMigrations(collectionId);
+
+    return successResponse(migrations);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; collectionId: string }> }
+) {
+  try {
+    const { id, collectionId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify collection belongs to this site
+    const collection = await getCollectionById(collectionId);
+    if (collection.site_id !== siteId) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(collectionSchemaMigrationSchema, body);
+
+    // Rewrite the schema and item data in one transaction
+    const migration = await applySchemaMigration({
+      collectionId,
+      newSchema: input.item_schema,
+      renames: input.renames,
+      defaults: input.defaults,
+      userId: user.id,
+      request,
+    });
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'migrate_collection_schema',
+      {
+        site_id: siteId,
+        collection_key: collection.collection_key,
+        migration_id: migration.id,
+        affected_items: migration.affected_items,
+      },
+      request
+    );
+
+    return successResponse(migration, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
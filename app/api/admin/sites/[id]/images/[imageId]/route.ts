@@ -0,0 +1,59 @@
+// DELETE /api/admin/sites/[id]/images/[imageId] - Move image slot to the trash
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import { getAdminClient } from '@/lib/supabase/admin';
+import { deleteImageSlot } from '@/lib/db/content';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  try {
+    const { id, imageId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const supabase = getAdminClient();
+
+    // Verify the image slot belongs to this site
+    const { data: imageSlot, error: slotError } = await supabase
+      .from('images')
+      .select('id, image_key')
+      .eq('id', imageId)
+      .eq('site_id', siteId)
+      .is('deleted_at', null)
+      .single() as { data: { id: string; image_key: string } | null; error: Error | null };
+
+    if (slotError || !imageSlot) {
+      throw new NotFoundError('Image slot not found');
+    }
+
+    // Move the image slot to the trash (the uploaded file is kept until it's purged)
+    await deleteImageSlot(imageId);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'delete_image_slot',
+      { site_id: siteId, image_id: imageId, image_key: imageSlot.image_key },
+      request
+    );
+
+    return successResponse({ message: 'Image slot moved to the trash' });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
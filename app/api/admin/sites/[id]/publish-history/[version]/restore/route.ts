@@ -0,0 +1,59 @@
+// POST /api/admin/sites/[id]/publish-history/[version]/restore - Roll back to a previous version
+// Admins can roll back whether or not the site's client may publish
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, publishVersionSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { restoreSiteVersion } from '@/lib/content/publish';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version: versionParam } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Validate version
+    const { version } = validateInput(publishVersionSchema, { version: versionParam });
+
+    // Restore it into the draft and publish it as a new version
+    const publishEntry = await restoreSiteVersion({
+      siteId,
+      version,
+      userId: user.id,
+      userType: 'admin',
+      request,
+    });
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'rollback_site',
+      { site_id: siteId, restored_from: version, version: publishEntry.version_number },
+      request
+    );
+
+    return successResponse({
+      version: publishEntry.version_number,
+      restored_from: version,
+      published_at: publishEntry.created_at,
+      message: `Site rolled back to version ${version}`,
+    });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,52 @@
+// GET /api/admin/sites/[id]/publish-history - Get publish history
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, paginationSchema } from '@/lib/security/validation';
+import { paginatedResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getPublishHistory } from '@/lib/db/activity';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse pagination
+    const searchParams = request.nextUrl.searchParams;
+    const pagination = validateInput(paginationSchema, {
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    // Get publish history
+    const { data, total } = await getPublishHistory(siteId, pagination);
+
+    // Return without full snapshots (they can be large)
+    const summaryData = data.map((entry) => ({
+      id: entry.id,
+      version_number: entry.version_number,
+      published_by: entry.published_by,
+      publisher_type: entry.publisher_type,
+      notes: entry.notes,
+      created_at: entry.created_at,
+    }));
+
+    return paginatedResponse(summaryData, total ?? 0, pagination.page ?? 1, pagination.limit ?? 20);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
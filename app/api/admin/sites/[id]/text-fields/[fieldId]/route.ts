@@ -1,4 +1,4 @@
-// DELETE /api/admin/sites/[id]/text-fields/[fieldId] - Delete text field
+// DELETE /api/admin/sites/[id]/text-fields/[fieldId] - Move text field to the trash
 
 import { NextRequest } from 'next/server';
 import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
@@ -7,6 +7,7 @@ import { logAdminAction } from '@/lib/security/logging';
 import { successResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
 import { getAdminClient } from '@/lib/supabase/admin';
+import { deleteTextField } from '@/lib/db/content';
 
 export async function DELETE(
   request: NextRequest,
@@ -33,21 +34,15 @@ export async function DELETE(
       .select('id, content_key')
       .eq('id', fieldId)
       .eq('site_id', siteId)
+      .is('deleted_at', null)
       .single() as { data: { id: string; content_key: string } | null; error: Error | null };
 
     if (fieldError || !textContent) {
       throw new NotFoundError('Text field not found');
     }
 
-    // Delete the text content
-    const { error: deleteError } = await supabase
-      .from('text_content')
-      .delete()
-      .eq('id', fieldId);
-
-    if (deleteError) {
-      throw deleteError;
-    }
+    // Move the text content to the trash
+    await deleteTextField(fieldId);
 
     // Log admin action
     await logAdminAction(
@@ -57,7 +52,7 @@ export async function DELETE(
       request
     );
 
-    return successResponse({ message: 'Text field deleted' });
+    return successResponse({ message: 'Text field moved to the trash' });
   } catch (error) {
     return errorResponse(error, request);
   }
@@ -0,0 +1,63 @@
+// POST /api/admin/sites/[id]/trash/restore - Restore a text field, image slot or collection item
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, restoreFromTrashSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { restoreFromTrash } from '@/lib/content/trash';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(restoreFromTrashSchema, body);
+
+    const restored = await restoreFromTrash({
+      siteId,
+      type: input.type,
+      id: input.id,
+      userId: user.id,
+      userType: 'admin',
+      request,
+    });
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      `restore_${input.type}`,
+      { site_id: siteId, id: input.id },
+      request
+    );
+
+    if ('collection_key' in restored) {
+      const { collection_key: collectionKey, collection_label: _label, ...item } = restored;
+      await triggerWebhookEvent(siteId, 'collection_item.created', {
+        collection_key: collectionKey,
+        item,
+      });
+    }
+
+    return successResponse(restored);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,33 @@
+// GET /api/admin/sites/[id]/trash - List deleted text fields, image slots and collection items
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getSiteTrash } from '@/lib/content/trash';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const trash = await getSiteTrash(siteId);
+
+    return successResponse(trash);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,46 @@
+// POST /api/admin/sites/[id]/webhooks/[webhookId]/rotate-secret - Replace the signing secret
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getWebhookEndpoint, rotateWebhookSecret } from '@/lib/db/webhooks';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  try {
+    const { id, webhookId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify endpoint belongs to this site
+    await getWebhookEndpoint(siteId, webhookId);
+
+    const endpoint = await rotateWebhookSecret(webhookId);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'rotate_webhook_secret',
+      { site_id: siteId, webhook_id: webhookId },
+      request
+    );
+
+    // The new secret is returned this once
+    return successResponse(endpoint);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
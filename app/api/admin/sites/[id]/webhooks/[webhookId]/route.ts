@@ -0,0 +1,92 @@
+// PATCH /api/admin/sites/[id]/webhooks/[webhookId] - Update webhook endpoint
+// DELETE /api/admin/sites/[id]/webhooks/[webhookId] - Delete webhook endpoint
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, updateWebhookEndpointSchema } from '@/lib/security/validation';
+import { successResponse, messageResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import {
+  getWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  toWebhookEndpointSummary,
+} from '@/lib/db/webhooks';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  try {
+    const { id, webhookId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify endpoint belongs to this site
+    await getWebhookEndpoint(siteId, webhookId);
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(updateWebhookEndpointSchema, body);
+
+    const endpoint = await updateWebhookEndpoint(webhookId, input);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'update_webhook',
+      { site_id: siteId, webhook_id: webhookId, changes: Object.keys(input) },
+      request
+    );
+
+    return successResponse(toWebhookEndpointSummary(endpoint));
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  try {
+    const { id, webhookId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify endpoint belongs to this site
+    const endpoint = await getWebhookEndpoint(siteId, webhookId);
+
+    await deleteWebhookEndpoint(webhookId);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'delete_webhook',
+      { site_id: siteId, webhook_id: webhookId, url: endpoint.url },
+      request
+    );
+
+    return messageResponse('Webhook deleted successfully');
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
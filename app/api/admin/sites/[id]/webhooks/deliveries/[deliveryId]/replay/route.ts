@@ -0,0 +1,48 @@
+// POST /api/admin/sites/[id]/webhooks/deliveries/[deliveryId]/replay - Resend a delivery
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getWebhookDelivery, getWebhookEndpoint } from '@/lib/db/webhooks';
+import { replayWebhookDelivery } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Verify delivery and its endpoint belong to this site
+    const delivery = await getWebhookDelivery(siteId, deliveryId);
+    const endpoint = await getWebhookEndpoint(siteId, delivery.endpoint_id);
+
+    // Resend now; the new delivery is retried by the queue if it fails
+    const replay = await replayWebhookDelivery(delivery, endpoint);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'replay_webhook_delivery',
+      { site_id: siteId, delivery_id: deliveryId, replay_id: replay.id },
+      request
+    );
+
+    return successResponse(replay, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
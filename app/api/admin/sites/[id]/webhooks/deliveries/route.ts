@@ -0,0 +1,54 @@
+// GET /api/admin/sites/[id]/webhooks/deliveries - Webhook delivery log
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import {
+  validateInput,
+  paginationSchema,
+  webhookDeliveryFilterSchema,
+} from '@/lib/security/validation';
+import { paginatedResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getWebhookDeliveries } from '@/lib/db/webhooks';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const filters = validateInput(webhookDeliveryFilterSchema, {
+      endpoint_id: searchParams.get('endpoint_id') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const pagination = validateInput(paginationSchema, {
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const { data, total } = await getWebhookDeliveries(
+      siteId,
+      { endpointId: filters.endpoint_id, status: filters.status },
+      pagination
+    );
+
+    return paginatedResponse(data, total ?? 0, pagination.page ?? 1, pagination.limit ?? 20);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,80 @@
+// GET /api/admin/sites/[id]/webhooks - List webhook endpoints
+// POST /api/admin/sites/[id]/webhooks - Create webhook endpoint
+
+import { NextRequest } from 'next/server';
+import { verifyAdminSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { logAdminAction } from '@/lib/security/logging';
+import { validateInput, createWebhookEndpointSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import {
+  getWebhookEndpoints,
+  createWebhookEndpoint,
+  toWebhookEndpointSummary,
+} from '@/lib/db/webhooks';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const endpoints = await getWebhookEndpoints(siteId);
+
+    // Secrets are only returned when generated
+    return successResponse(endpoints.map(toWebhookEndpointSummary));
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Verify admin authentication and site access
+    const { user, siteId } = await verifyAdminSiteAccess(request, id);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('admin', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(createWebhookEndpointSchema, body);
+
+    // Create endpoint (secret is generated)
+    const endpoint = await createWebhookEndpoint(siteId, input);
+
+    // Log admin action
+    await logAdminAction(
+      user.id,
+      'create_webhook',
+      { site_id: siteId, webhook_id: endpoint.id, url: endpoint.url },
+      request
+    );
+
+    // The only response that includes the new secret, besides rotation
+    return successResponse(endpoint, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
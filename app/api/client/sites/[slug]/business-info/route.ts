@@ -13,6 +13,7 @@ import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
 import { getBusinessInfo, updateBusinessInfo } from '@/lib/db/content';
 import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function GET(
   request: NextRequest,
@@ -98,6 +99,10 @@ export async function PUT(
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'business_info.updated', {
+      fields: Object.keys(changes),
+    });
+
     return successResponse(updatedInfo);
   } catch (error) {
     return errorResponse(error, request);
@@ -0,0 +1,46 @@
+// GET /api/client/sites/[slug]/collections/[key]/export - Export items as CSV or JSON
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, collectionExportQuerySchema } from '@/lib/security/validation';
+import { downloadResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getCollectionByKey } from '@/lib/db/collections';
+import { exportCollectionItems } from '@/lib/content/collection-import';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  try {
+    const { slug, key } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const { format } = validateInput(collectionExportQuerySchema, {
+      format: request.nextUrl.searchParams.get('format') || undefined,
+    });
+
+    const collection = await getCollectionByKey(siteId, key);
+    const body = await exportCollectionItems(collection, format);
+
+    return downloadResponse(
+      body,
+      `${key}.${format}`,
+      format === 'csv' ? 'text/csv' : 'application/json'
+    );
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
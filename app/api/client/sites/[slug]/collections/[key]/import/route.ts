@@ -0,0 +1,78 @@
+// POST /api/client/sites/[slug]/collections/[key]/import - Import items from CSV or JSON (or dry run)
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, collectionImportSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getCollectionByKey } from '@/lib/db/collections';
+import { previewCollectionImport, applyCollectionImport } from '@/lib/content/collection-import';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  try {
+    const { slug, key } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_add_collection_items) {
+      throw new ForbiddenError('You do not have permission to add collection items');
+    }
+
+    // Get collection and check if adding is allowed
+    const collection = await getCollectionByKey(siteId, key);
+    if (!collection.can_add) {
+      throw new ForbiddenError('Adding items to this collection is not allowed');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(collectionImportSchema, body);
+    const importParams = {
+      collection,
+      format: input.format,
+      content: input.content,
+      mapping: input.mapping,
+    };
+
+    if (input.dry_run) {
+      return successResponse(await previewCollectionImport(importParams));
+    }
+
+    // Import every row in one transaction, or nothing if any row is invalid
+    const result = await applyCollectionImport({
+      ...importParams,
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    for (const item of result.items) {
+      await triggerWebhookEvent(siteId, 'collection_item.created', {
+        collection_key: key,
+        item,
+      });
+    }
+
+    return successResponse(result, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
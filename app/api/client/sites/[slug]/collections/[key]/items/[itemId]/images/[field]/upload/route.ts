@@ -0,0 +1,125 @@
+// POST /api/client/sites/[slug]/collections/[key]/items/[itemId]/images/[field]/upload - Upload an item's image
+// [field] is a dot path for images inside lists and groups, e.g. gallery.2 or team.0.photo
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit } from '@/lib/security/rate-limit';
+import { sanitizeText } from '@/lib/security/sanitize';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError, NotFoundError, ValidationError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getCollectionByKey, getCollectionItem, updateCollectionItem } from '@/lib/db/collections';
+import { resolveImagePath, getItemDataValue, setItemDataValue } from '@/lib/security/item-schema';
+import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+import { addMediaAsset, collectionItemImageFolder } from '@/lib/content/media';
+import { validateImageFile, readImage, DEFAULT_MAX_FILE_SIZE_KB } from '@/lib/storage/images';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string; itemId: string; field: string }> }
+) {
+  try {
+    const { slug, key, itemId, field } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting for uploads (stricter, per user)
+    const rateLimitResult = await rateLimit('upload', user.id);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_edit_collections) {
+      throw new ForbiddenError('You do not have permission to edit collection items');
+    }
+
+    // Verify collection exists and belongs to site
+    const collection = await getCollectionByKey(siteId, key);
+
+    const item = await getCollectionItem(itemId);
+    if (item.collection_id !== collection.id) {
+      throw new NotFoundError('Item not found in this collection');
+    }
+
+    const imagePath = resolveImagePath(collection.item_schema, field);
+    if (!imagePath) {
+      throw new NotFoundError('Image field not found');
+    }
+    const { field: fieldSchema, path } = imagePath;
+
+    // Parse form data
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const altText = formData.get('alt_text') as string | null;
+
+    if (!file) {
+      throw new ValidationError('No file provided');
+    }
+
+    // Validate type, size and extension
+    const extension = validateImageFile(
+      file,
+      fieldSchema.max_file_size_kb || DEFAULT_MAX_FILE_SIZE_KB
+    );
+
+    // Confirm the real format and strip metadata before storing
+    const image = await readImage(Buffer.from(await file.arrayBuffer()), file.type);
+
+    // Keep the current alt text unless a new one was sent
+    const current = getItemDataValue(item.data, path) as { alt?: string } | undefined;
+    const alt = altText !== null ? sanitizeText(altText, 500) : current?.alt;
+
+    // Upload to the item's folder and the media library (the image it
+    // replaces stays in the library)
+    const asset = await addMediaAsset({
+      siteId,
+      image,
+      filename: file.name,
+      extension,
+      altText: alt,
+      folder: collectionItemImageFolder(siteId, key, itemId),
+      userId: user.id,
+      userType: user.type,
+    });
+
+    // Update item (data is checked against the collection's item_schema).
+    // If it can't be saved, the upload is still in the library to pick.
+    const value = { url: asset.url, ...(alt && { alt }) };
+    const updatedItem = await updateCollectionItem(itemId, {
+      data: setItemDataValue(item.data, path, value),
+    });
+
+    // Log activity
+    await logActivity({
+      siteId,
+      userId: user.id,
+      userType: user.type,
+      action: 'upload_collection_image',
+      entityType: 'collection_item',
+      entityId: itemId,
+      changes: {
+        [field]: { old: current ?? null, new: value },
+      },
+      request,
+    });
+
+    await triggerWebhookEvent(siteId, 'collection_item.updated', {
+      collection_key: key,
+      item: updatedItem,
+    });
+
+    return successResponse({
+      ...updatedItem,
+      image: value,
+      message: 'Image uploaded successfully',
+    });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -8,7 +8,7 @@ import { NextRequest } from 'next/server';
 import { verifyClientSiteAccess } from '@/lib/auth/middleware';
 import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
 import { validateInput, updateCollectionItemSchema } from '@/lib/security/validation';
-import { sanitizeObject } from '@/lib/security/sanitize';
+import { sanitizeItemData } from '@/lib/security/item-schema';
 import { successResponse, messageResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError, ForbiddenError, NotFoundError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
@@ -19,6 +19,7 @@ import {
   deleteCollectionItem,
 } from '@/lib/db/collections';
 import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function GET(
   request: NextRequest,
@@ -90,20 +91,26 @@ export async function PUT(
     // Sanitize data if provided
     const updateData = { ...input };
     if (input.data) {
-      updateData.data = sanitizeObject(input.data as Record<string, unknown>);
+      updateData.data = sanitizeItemData(collection.item_schema, input.data);
     }
 
-    // Update item
+    // Update item (data is checked against the collection's item_schema)
     const updatedItem = await updateCollectionItem(itemId, updateData);
 
     // Log activity
     const changes: Record<string, { old: unknown; new: unknown }> = {};
     if (input.data) {
-      changes.data = { old: currentItem.data, new: updateData.data };
+      changes.data = { old: currentItem.data, new: updatedItem.data };
     }
     if (input.is_visible !== undefined && input.is_visible !== currentItem.is_visible) {
       changes.is_visible = { old: currentItem.is_visible, new: input.is_visible };
     }
+    for (const field of ['visible_from', 'visible_until', 'visibility_window'] as const) {
+      const changed = JSON.stringify(updatedItem[field]) !== JSON.stringify(currentItem[field]);
+      if (input[field] !== undefined && changed) {
+        changes[field] = { old: currentItem[field], new: updatedItem[field] };
+      }
+    }
 
     await logActivity({
       siteId,
@@ -116,6 +123,11 @@ export async function PUT(
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'collection_item.updated', {
+      collection_key: key,
+      item: updatedItem,
+    });
+
     return successResponse(updatedItem);
   } catch (error) {
     return errorResponse(error, request);
@@ -159,8 +171,10 @@ export async function DELETE(
       throw new NotFoundError('Item not found in this collection');
     }
 
-    // Delete item
-    await deleteCollectionItem(itemId);
+    // Move item to the trash (reference fields with on_delete 'cascade' take
+    // referencing items with it). Uploads are kept until the trash is purged.
+    const deleted = await deleteCollectionItem(itemId);
+    const cascadedIds = deleted.slice(1).map((entry) => entry.id);
 
     // Log activity
     await logActivity({
@@ -172,11 +186,22 @@ export async function DELETE(
       entityId: itemId,
       changes: {
         data: { old: item.data, new: null },
+        ...(cascadedIds.length > 0 && { cascaded_items: { old: cascadedIds, new: null } }),
       },
       request,
     });
 
-    return messageResponse('Item deleted successfully');
+    await triggerWebhookEvent(siteId, 'collection_item.deleted', {
+      collection_key: key,
+      item_id: itemId,
+      ...(cascadedIds.length > 0 && { cascaded_item_ids: cascadedIds }),
+    });
+
+    return messageResponse(
+      cascadedIds.length > 0
+        ? `Item and ${cascadedIds.length} referencing ${cascadedIds.length === 1 ? 'item' : 'items'} moved to the trash`
+        : 'Item moved to the trash'
+    );
   } catch (error) {
     return errorResponse(error, request);
   }
@@ -0,0 +1,91 @@
+// POST /api/client/sites/[slug]/collections/[key]/items/bulk - Show, hide, delete, duplicate or set a field on selected items
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, collectionBulkActionSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getCollectionByKey } from '@/lib/db/collections';
+import { applyCollectionBulkAction } from '@/lib/content/collection-bulk';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  try {
+    const { slug, key } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(collectionBulkActionSchema, body);
+
+    const permissions = await getSitePermissions(siteId);
+    const collection = await getCollectionByKey(siteId, key);
+
+    // Each action needs the same permissions as its single-item counterpart
+    if (input.action === 'delete') {
+      if (!permissions.can_delete_collection_items) {
+        throw new ForbiddenError('You do not have permission to delete collection items');
+      }
+      if (!collection.can_delete) {
+        throw new ForbiddenError('Deleting items from this collection is not allowed');
+      }
+    } else if (input.action === 'duplicate') {
+      if (!permissions.can_add_collection_items) {
+        throw new ForbiddenError('You do not have permission to add collection items');
+      }
+      if (!collection.can_add) {
+        throw new ForbiddenError('Adding items to this collection is not allowed');
+      }
+    } else if (!permissions.can_edit_collections) {
+      throw new ForbiddenError('You do not have permission to edit collection items');
+    }
+
+    // Apply to every item in one transaction, or to none
+    const result = await applyCollectionBulkAction({
+      collection,
+      action: input.action,
+      itemIds: input.item_ids,
+      ...(input.action === 'set_field' && { field: input.field, value: input.value }),
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    if (input.action === 'delete') {
+      for (const entry of result.deleted) {
+        await triggerWebhookEvent(siteId, 'collection_item.deleted', {
+          collection_key: entry.collection_key,
+          item_id: entry.id,
+        });
+      }
+    } else {
+      const event = input.action === 'duplicate' ? 'collection_item.created' : 'collection_item.updated';
+      for (const item of result.items) {
+        await triggerWebhookEvent(siteId, event, {
+          collection_key: key,
+          item,
+        });
+      }
+    }
+
+    return successResponse(result, input.action === 'duplicate' ? 201 : 200);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -7,12 +7,13 @@ import { NextRequest } from 'next/server';
 import { verifyClientSiteAccess } from '@/lib/auth/middleware';
 import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
 import { validateInput, createCollectionItemSchema } from '@/lib/security/validation';
-import { sanitizeObject } from '@/lib/security/sanitize';
+import { sanitizeItemData } from '@/lib/security/item-schema';
 import { successResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
 import { getCollectionByKey, getCollectionItems, createCollectionItem } from '@/lib/db/collections';
 import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function GET(
   request: NextRequest,
@@ -77,10 +78,10 @@ export async function POST(
     const body = await request.json();
     const input = validateInput(createCollectionItemSchema, body);
 
-    // Sanitize data
-    const sanitizedData = sanitizeObject(input.data as Record<string, unknown>);
+    // Sanitize data (rich text keeps its safe markup)
+    const sanitizedData = sanitizeItemData(collection.item_schema, input.data);
 
-    // Create item
+    // Create item (data is checked against the collection's item_schema)
     const item = await createCollectionItem(collection.id, {
       ...input,
       data: sanitizedData,
@@ -95,11 +96,16 @@ export async function POST(
       entityType: 'collection_item',
       entityId: item.id,
       changes: {
-        data: { old: null, new: sanitizedData },
+        data: { old: null, new: item.data },
       },
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'collection_item.created', {
+      collection_key: key,
+      item,
+    });
+
     return successResponse(item, 201);
   } catch (error) {
     return errorResponse(error, request);
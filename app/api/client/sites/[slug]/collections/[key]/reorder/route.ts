@@ -9,6 +9,7 @@ import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
 import { getCollectionByKey, reorderCollectionItems } from '@/lib/db/collections';
 import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function PUT(
   request: NextRequest,
@@ -60,6 +61,11 @@ export async function PUT(
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'collection.reordered', {
+      collection_key: key,
+      item_ids,
+    });
+
     return successResponse(reorderedItems);
   } catch (error) {
     return errorResponse(error, request);
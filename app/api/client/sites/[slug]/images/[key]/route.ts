@@ -0,0 +1,90 @@
+// GET /api/client/sites/[slug]/images/[key] - Get image
+// PUT /api/client/sites/[slug]/images/[key] - Update alt text, focal point and crop, or use a library asset
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, updateImageSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getImageByKey } from '@/lib/db/content';
+import { updateSiteImage } from '@/lib/content/image-framing';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  try {
+    const { slug, key } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Get image
+    const image = await getImageByKey(siteId, key);
+
+    return successResponse(image);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  try {
+    const { slug, key } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_edit_images) {
+      throw new ForbiddenError('You do not have permission to edit images');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(updateImageSchema, body);
+
+    // Update the image (a new crop re-renders its variants)
+    const updatedImage = await updateSiteImage({
+      siteId,
+      imageKey: key,
+      input,
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    await triggerWebhookEvent(siteId, 'image.updated', {
+      image_key: key,
+      url: updatedImage.url,
+      alt: updatedImage.alt_text,
+    });
+
+    return successResponse(updatedImage);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
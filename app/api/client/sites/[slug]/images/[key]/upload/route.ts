@@ -1,22 +1,26 @@
 // POST /api/client/sites/[slug]/images/[key]/upload - Upload image
+// Checks the file against the slot, strips its metadata and adds it to the
+// media library with resized AVIF and WebP variants for srcset. The image it
+// replaces stays in the library. Responds with any size warnings.
+
+export const runtime = 'nodejs';
 
 import { NextRequest } from 'next/server';
 import { verifyClientSiteAccess } from '@/lib/auth/middleware';
-import { getAdminClient } from '@/lib/supabase/admin';
 import { rateLimit } from '@/lib/security/rate-limit';
 import { successResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError, ForbiddenError, ValidationError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
 import { getImageByKey, updateImageContent } from '@/lib/db/content';
 import { logActivity } from '@/lib/db/activity';
-
-// Allowed MIME types and their extensions
-const ALLOWED_TYPES: Record<string, string[]> = {
-  'image/jpeg': ['jpg', 'jpeg'],
-  'image/png': ['png'],
-  'image/webp': ['webp'],
-  'image/gif': ['gif'],
-};
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+import { addMediaAsset, removeSlotCropVariants } from '@/lib/content/media';
+import {
+  validateImageFile,
+  readImage,
+  checkImageDimensions,
+  DEFAULT_MAX_FILE_SIZE_KB,
+} from '@/lib/storage/images';
 
 export async function POST(
   request: NextRequest,
@@ -52,69 +56,42 @@ export async function POST(
       throw new ValidationError('No file provided');
     }
 
-    // Validate file type
-    if (!ALLOWED_TYPES[file.type]) {
-      throw new ValidationError('Invalid file type. Allowed: JPEG, PNG, WebP, GIF');
-    }
+    // Validate type, size and extension
+    const extension = validateImageFile(file, imageSlot.max_file_size_kb || DEFAULT_MAX_FILE_SIZE_KB);
 
-    // Validate file size
-    const maxSizeBytes = (imageSlot.max_file_size_kb || 2048) * 1024;
-    if (file.size > maxSizeBytes) {
-      throw new ValidationError(`File too large. Maximum size: ${imageSlot.max_file_size_kb || 2048}KB`);
-    }
+    // Confirm the real format, read the pixel size and check it against the slot
+    const image = await readImage(Buffer.from(await file.arrayBuffer()), file.type);
+    const warnings = checkImageDimensions(imageSlot, image.width, image.height);
 
-    // Validate extension matches MIME type
-    const extension = file.name.split('.').pop()?.toLowerCase() || '';
-    if (!ALLOWED_TYPES[file.type]?.includes(extension)) {
-      throw new ValidationError('File extension does not match file type');
-    }
-
-    // Generate safe filename
-    const timestamp = Date.now();
-    const random = crypto.randomUUID().slice(0, 8);
-    const safeFilename = `${siteId}/${key}/${timestamp}-${random}.${extension}`;
-
-    // Upload to Supabase Storage
-    const supabase = getAdminClient();
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('images')
-      .upload(safeFilename, file, {
-        contentType: file.type,
-        upsert: false,
-      });
-
-    if (uploadError) {
-      console.error('Upload error:', uploadError);
-      throw new Error('Failed to upload image');
-    }
-
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('images')
-      .getPublicUrl(uploadData.path);
-
-    const publicUrl = urlData.publicUrl;
-
-    // Delete old image if exists
-    if (imageSlot.url) {
-      try {
-        const oldPath = imageSlot.url.split('/images/')[1];
-        if (oldPath) {
-          await supabase.storage.from('images').remove([oldPath]);
-        }
-      } catch {
-        // Ignore errors deleting old file
-      }
-    }
+    // Upload to Supabase Storage and the media library
+    const asset = await addMediaAsset({
+      siteId,
+      image,
+      filename: file.name,
+      extension,
+      altText,
+      userId: user.id,
+      userType: user.type,
+    });
 
     // Update image record
     const updatedImage = await updateImageContent(
       siteId,
       key,
-      publicUrl,
-      altText || undefined
+      asset.url,
+      asset.alt_text || undefined,
+      {
+        width: asset.width,
+        height: asset.height,
+        variants: asset.variants,
+        placeholder: asset.placeholder,
+      }
     );
 
+    // Variants rendered for the old image's crop aren't used by the draft
+    // anymore; ones the published site still shows are kept
+    await removeSlotCropVariants(siteId, imageSlot);
+
     // Log activity
     await logActivity({
       siteId,
@@ -124,14 +101,21 @@ export async function POST(
       entityType: 'image',
       entityId: updatedImage.id,
       changes: {
-        url: { old: imageSlot.url, new: publicUrl },
+        url: { old: imageSlot.url, new: asset.url },
         ...(altText && { alt_text: { old: imageSlot.alt_text, new: altText } }),
       },
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'image.updated', {
+      image_key: key,
+      url: updatedImage.url,
+      alt: updatedImage.alt_text,
+    });
+
     return successResponse({
       ...updatedImage,
+      warnings,
       message: 'Image uploaded successfully',
     });
   } catch (error) {
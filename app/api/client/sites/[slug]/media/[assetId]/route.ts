@@ -0,0 +1,106 @@
+// PATCH /api/client/sites/[slug]/media/[assetId] - Update an asset's alt text
+// DELETE /api/client/sites/[slug]/media/[assetId] - Delete an asset nothing uses
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, updateMediaAssetSchema } from '@/lib/security/validation';
+import { sanitizeText } from '@/lib/security/sanitize';
+import { successResponse, messageResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getMediaAsset, updateMediaAsset } from '@/lib/db/media';
+import { logActivity } from '@/lib/db/activity';
+import { removeMediaAsset } from '@/lib/content/media';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; assetId: string }> }
+) {
+  try {
+    const { slug, assetId } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_edit_images && !permissions.can_edit_collections) {
+      throw new ForbiddenError('You do not have permission to edit images');
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(updateMediaAssetSchema, body);
+
+    const current = await getMediaAsset(siteId, assetId);
+    const updatedAsset = await updateMediaAsset(siteId, assetId, {
+      ...(input.alt_text !== undefined && {
+        alt_text: input.alt_text ? sanitizeText(input.alt_text, 255) : null,
+      }),
+    });
+
+    // Log activity
+    await logActivity({
+      siteId,
+      userId: user.id,
+      userType: user.type,
+      action: 'update_media',
+      entityType: 'media_asset',
+      entityId: assetId,
+      changes: { alt_text: { old: current.alt_text, new: updatedAsset.alt_text } },
+      request,
+    });
+
+    return successResponse(updatedAsset);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; assetId: string }> }
+) {
+  try {
+    const { slug, assetId } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_edit_images && !permissions.can_edit_collections) {
+      throw new ForbiddenError('You do not have permission to delete images');
+    }
+
+    // Refused while a slot, item or the published site still uses it
+    await removeMediaAsset({
+      siteId,
+      id: assetId,
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    return messageResponse('Image deleted');
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
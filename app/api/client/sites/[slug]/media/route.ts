@@ -0,0 +1,104 @@
+// GET /api/client/sites/[slug]/media - List the media library with what uses each asset
+// POST /api/client/sites/[slug]/media - Upload an image to the media library
+
+export const runtime = 'nodejs';
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError, ValidationError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { logActivity } from '@/lib/db/activity';
+import { addMediaAsset, getMediaLibrary } from '@/lib/content/media';
+import { validateImageFile, readImage, DEFAULT_MAX_FILE_SIZE_KB } from '@/lib/storage/images';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const assets = await getMediaLibrary(siteId);
+
+    return successResponse(assets);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting for uploads (stricter, per user)
+    const rateLimitResult = await rateLimit('upload', user.id);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions (library images are used by slots and collection items)
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_edit_images && !permissions.can_edit_collections) {
+      throw new ForbiddenError('You do not have permission to upload images');
+    }
+
+    // Parse form data
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const altText = formData.get('alt_text') as string | null;
+
+    if (!file) {
+      throw new ValidationError('No file provided');
+    }
+
+    // Validate type, size and extension
+    const extension = validateImageFile(file, DEFAULT_MAX_FILE_SIZE_KB);
+
+    // Confirm the real format and strip metadata before storing
+    const image = await readImage(Buffer.from(await file.arrayBuffer()), file.type);
+
+    const asset = await addMediaAsset({
+      siteId,
+      image,
+      filename: file.name,
+      extension,
+      altText,
+      userId: user.id,
+      userType: user.type,
+    });
+
+    // Log activity
+    await logActivity({
+      siteId,
+      userId: user.id,
+      userType: user.type,
+      action: 'upload_media',
+      entityType: 'media_asset',
+      entityId: asset.id,
+      changes: { url: { old: null, new: asset.url } },
+      request,
+    });
+
+    return successResponse({ ...asset, usage: [] }, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,40 @@
+// POST /api/client/sites/[slug]/preview-token - Issue a short-lived draft preview token
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { createPreviewToken } from '@/lib/auth/preview-token';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const { token, expiresAt } = createPreviewToken(siteId);
+
+    return successResponse(
+      {
+        token,
+        expires_at: expiresAt.toISOString(),
+      },
+      200,
+      { 'Cache-Control': 'no-store' }
+    );
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,56 @@
+// POST /api/client/sites/[slug]/publish-history/[version]/restore - Roll back to a previous version
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, publishVersionSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { restoreSiteVersion } from '@/lib/content/publish';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; version: string }> }
+) {
+  try {
+    const { slug, version: versionParam } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_publish) {
+      throw new ForbiddenError('You do not have permission to publish changes');
+    }
+
+    // Validate version
+    const { version } = validateInput(publishVersionSchema, { version: versionParam });
+
+    // Restore it into the draft and publish it as a new version
+    const publishEntry = await restoreSiteVersion({
+      siteId,
+      version,
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    return successResponse({
+      version: publishEntry.version_number,
+      restored_from: version,
+      published_at: publishEntry.created_at,
+      message: `Site rolled back to version ${version}`,
+    });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,72 @@
+// GET /api/client/sites/[slug]/publish-history/diff?from=&to= - Compare two versions
+// `from` defaults to the latest published version, `to` defaults to the current draft
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, publishDiffSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, NotFoundError } from '@/lib/utils/errors';
+import {
+  getPublishVersion,
+  getLatestPublishedVersion,
+  createContentSnapshot,
+} from '@/lib/db/activity';
+import { diffSnapshots } from '@/lib/content/diff';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const { from, to } = validateInput(publishDiffSchema, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    });
+
+    // Resolve the base version (null when the site has never been published)
+    const fromVersion = from
+      ? await getPublishVersion(siteId, from)
+      : await getLatestPublishedVersion(siteId);
+
+    if (from && !fromVersion) {
+      throw new NotFoundError('Publish version not found');
+    }
+
+    // Resolve the target version
+    let toSnapshot;
+    if (typeof to !== 'number') {
+      toSnapshot = await createContentSnapshot(siteId);
+    } else {
+      const toVersion = await getPublishVersion(siteId, to);
+      if (!toVersion) {
+        throw new NotFoundError('Publish version not found');
+      }
+      toSnapshot = toVersion.content_snapshot;
+    }
+
+    const diff = diffSnapshots(fromVersion?.content_snapshot ?? null, toSnapshot);
+
+    return successResponse({
+      from: fromVersion?.version_number ?? null,
+      to: to ?? 'draft',
+      diff,
+    });
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,93 @@
+// GET /api/client/sites/[slug]/publish-requests - List recent publish requests
+// POST /api/client/sites/[slug]/publish-requests - Ask an admin to publish the current draft
+// The draft is snapshotted as submitted; later edits aren't part of the request
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, publishRequestSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { logActivity, createContentSnapshot } from '@/lib/db/activity';
+import { createPublishRequest, getSitePublishRequests } from '@/lib/db/publishing';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const publishRequests = await getSitePublishRequests(siteId);
+
+    return successResponse(publishRequests);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    if (user.type !== 'client') {
+      throw new ForbiddenError('Only clients can request a publish');
+    }
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_request_publish) {
+      throw new ForbiddenError('You do not have permission to request publishing');
+    }
+
+    // Parse and validate input
+    const body = await request.json().catch(() => ({}));
+    const { notes } = validateInput(publishRequestSchema, body);
+
+    // Create request with the draft as it is now (one pending request per site)
+    const snapshot = await createContentSnapshot(siteId);
+    const publishRequest = await createPublishRequest(siteId, user.id, snapshot, notes);
+
+    // Log activity
+    await logActivity({
+      siteId,
+      userId: user.id,
+      userType: user.type,
+      action: 'request_publish',
+      entityType: 'publish_request',
+      entityId: publishRequest.id,
+      changes: {
+        status: { old: null, new: publishRequest.status },
+      },
+      request,
+    });
+
+    return successResponse(publishRequest, 201);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -1,4 +1,4 @@
-// POST /api/client/sites/[slug]/publish - Publish site changes
+// POST /api/client/sites/[slug]/publish - Publish site changes now or at `scheduled_at`
 
 import { NextRequest } from 'next/server';
 import { verifyClientSiteAccess } from '@/lib/auth/middleware';
@@ -6,9 +6,10 @@ import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
 import { validateInput, publishSchema } from '@/lib/security/validation';
 import { successResponse, errorResponse } from '@/lib/utils/response';
 import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
-import { getSitePermissions, updateSite } from '@/lib/db/sites';
-import { createPublishEntry, createContentSnapshot } from '@/lib/db/activity';
+import { getSitePermissions } from '@/lib/db/sites';
 import { logActivity } from '@/lib/db/activity';
+import { createScheduledPublish } from '@/lib/db/publishing';
+import { publishSite } from '@/lib/content/publish';
 
 export async function POST(
   request: NextRequest,
@@ -35,34 +36,46 @@ export async function POST(
 
     // Parse and validate input
     const body = await request.json().catch(() => ({}));
-    const { notes } = validateInput(publishSchema, body);
+    const { notes, scheduled_at } = validateInput(publishSchema, body);
 
-    // Create content snapshot
-    const snapshot = await createContentSnapshot(siteId);
+    // Queue for later if a schedule time was given
+    if (scheduled_at) {
+      const schedule = await createScheduledPublish(
+        siteId,
+        user.id,
+        user.type,
+        scheduled_at,
+        notes
+      );
 
-    // Create publish history entry
-    const publishEntry = await createPublishEntry(
-      siteId,
-      user.id,
-      user.type,
-      snapshot,
-      notes
-    );
+      await logActivity({
+        siteId,
+        userId: user.id,
+        userType: user.type,
+        action: 'schedule_publish',
+        entityType: 'scheduled_publish',
+        entityId: schedule.id,
+        changes: {
+          scheduled_at: { old: null, new: schedule.scheduled_at },
+        },
+        request,
+      });
 
-    // Update site status to published if it was draft
-    await updateSite(siteId, { status: 'published' });
+      return successResponse(
+        {
+          schedule,
+          message: 'Publish scheduled successfully',
+        },
+        201
+      );
+    }
 
-    // Log activity
-    await logActivity({
+    // Publish immediately
+    const publishEntry = await publishSite({
       siteId,
       userId: user.id,
       userType: user.type,
-      action: 'publish_site',
-      entityType: 'site',
-      entityId: siteId,
-      changes: {
-        version: { old: publishEntry.version_number - 1, new: publishEntry.version_number },
-      },
+      notes,
       request,
     });
 
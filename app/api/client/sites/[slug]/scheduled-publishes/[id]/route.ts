@@ -0,0 +1,62 @@
+// DELETE /api/client/sites/[slug]/scheduled-publishes/[id] - Cancel a scheduled publish
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { messageResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError, ConflictError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { getScheduledPublish, cancelScheduledPublish } from '@/lib/db/publishing';
+import { logActivity } from '@/lib/db/activity';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  try {
+    const { slug, id } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Check permissions
+    const permissions = await getSitePermissions(siteId);
+    if (!permissions.can_publish) {
+      throw new ForbiddenError('You do not have permission to publish changes');
+    }
+
+    // Verify schedule belongs to this site
+    const schedule = await getScheduledPublish(siteId, id);
+
+    // Only pending schedules can be cancelled
+    const cancelled = await cancelScheduledPublish(schedule.id);
+    if (!cancelled) {
+      throw new ConflictError('This scheduled publish has already run or been cancelled');
+    }
+
+    // Log activity
+    await logActivity({
+      siteId,
+      userId: user.id,
+      userType: user.type,
+      action: 'cancel_scheduled_publish',
+      entityType: 'scheduled_publish',
+      entityId: schedule.id,
+      changes: {
+        status: { old: schedule.status, new: 'cancelled' },
+      },
+      request,
+    });
+
+    return messageResponse('Scheduled publish cancelled');
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
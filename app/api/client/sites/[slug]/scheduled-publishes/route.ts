@@ -0,0 +1,33 @@
+// GET /api/client/sites/[slug]/scheduled-publishes - List pending scheduled publishes
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getPendingScheduledPublishes } from '@/lib/db/publishing';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    const schedules = await getPendingScheduledPublishes(siteId);
+
+    return successResponse(schedules);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
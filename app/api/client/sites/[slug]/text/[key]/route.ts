@@ -13,6 +13,7 @@ import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
 import { getSitePermissions } from '@/lib/db/sites';
 import { getTextContentByKey, updateTextContent as updateText } from '@/lib/db/content';
 import { logActivity } from '@/lib/db/activity';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
 
 export async function GET(
   request: NextRequest,
@@ -97,6 +98,11 @@ export async function PUT(
       request,
     });
 
+    await triggerWebhookEvent(siteId, 'text_content.updated', {
+      content_key: key,
+      content: sanitizedContent,
+    });
+
     return successResponse(updatedContent);
   } catch (error) {
     return errorResponse(error, request);
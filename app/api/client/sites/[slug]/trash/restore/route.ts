@@ -0,0 +1,61 @@
+// POST /api/client/sites/[slug]/trash/restore - Restore a deleted collection item
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { validateInput, restoreFromTrashSchema } from '@/lib/security/validation';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError, ForbiddenError } from '@/lib/utils/errors';
+import { getSitePermissions } from '@/lib/db/sites';
+import { restoreFromTrash } from '@/lib/content/trash';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { user, siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Parse and validate input
+    const body = await request.json();
+    const input = validateInput(restoreFromTrashSchema, body);
+
+    // Restoring undoes a delete, so it needs the same permission
+    const permissions = await getSitePermissions(siteId);
+    if (input.type !== 'collection_item' || !permissions.can_delete_collection_items) {
+      throw new ForbiddenError('You do not have permission to restore this');
+    }
+
+    const restored = await restoreFromTrash({
+      siteId,
+      type: input.type,
+      id: input.id,
+      userId: user.id,
+      userType: user.type,
+      request,
+    });
+
+    if ('collection_key' in restored) {
+      const { collection_key: collectionKey, collection_label: _label, ...item } = restored;
+      await triggerWebhookEvent(siteId, 'collection_item.created', {
+        collection_key: collectionKey,
+        item,
+      });
+    }
+
+    return successResponse(restored);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
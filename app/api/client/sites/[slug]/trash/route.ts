@@ -0,0 +1,34 @@
+// GET /api/client/sites/[slug]/trash - List deleted collection items
+
+import { NextRequest } from 'next/server';
+import { verifyClientSiteAccess } from '@/lib/auth/middleware';
+import { rateLimit, getClientIp } from '@/lib/security/rate-limit';
+import { successResponse, errorResponse } from '@/lib/utils/response';
+import { RateLimitError } from '@/lib/utils/errors';
+import { getSiteTrash } from '@/lib/content/trash';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    // Verify client authentication and site access
+    const { siteId } = await verifyClientSiteAccess(request, slug);
+
+    // Rate limiting
+    const ip = getClientIp(request);
+    const rateLimitResult = await rateLimit('client', ip);
+    if (!rateLimitResult.success) {
+      throw new RateLimitError();
+    }
+
+    // Clients delete collection items only - fields and slots are managed by admins
+    const trash = await getSiteTrash(siteId, ['collection_item']);
+
+    return successResponse(trash);
+  } catch (error) {
+    return errorResponse(error, request);
+  }
+}
@@ -0,0 +1,71 @@
+// GET /api/public/sites/[slug]/collections/[key] - Paginated collection items for Replit sites
+// Supports ?limit=&offset=, ?fields=name,price, exact-match filters (?filter[category]=Pizza)
+// and reference expansion (?expand=category)
+
+import { NextRequest } from 'next/server';
+import { NotFoundError } from '@/lib/utils/errors';
+import { validateInput, publicCollectionQuerySchema } from '@/lib/security/validation';
+import { expandReferences, filterCollectionItems, selectItemFields } from '@/lib/content/public';
+import {
+  loadPublicContent,
+  publicContentResponse,
+  publicErrorResponse,
+  publicOptionsResponse,
+} from '@/lib/content/public-request';
+import type { PublicCollectionContent } from '@/lib/types/api';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  const startTime = Date.now();
+  const { slug, key } = await params;
+
+  try {
+    const { content, schemas, ...loaded } = await loadPublicContent(request, slug);
+
+    const collection = Object.hasOwn(content.collections, key)
+      ? content.collections[key]
+      : undefined;
+    if (!collection) {
+      throw new NotFoundError('Collection not found');
+    }
+
+    // Parse query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const { limit, offset, fields, expand } = validateInput(publicCollectionQuerySchema, {
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+      fields: searchParams.get('fields') || undefined,
+      expand: searchParams.get('expand') || undefined,
+    });
+
+    const filters: Record<string, string> = {};
+    for (const [param, value] of searchParams) {
+      const match = /^filter\[([a-z][a-z0-9_]*)\]$/.exec(param);
+      if (match) {
+        filters[match[1]!] = value;
+      }
+    }
+
+    const items = filterCollectionItems(collection, filters);
+    const page = items.slice(offset, limit === undefined ? undefined : offset + limit);
+
+    const response: PublicCollectionContent = {
+      key,
+      items: selectItemFields(key, expandReferences(content, schemas, key, page, expand), fields),
+      total: items.length,
+      limit: limit ?? null,
+      offset,
+    };
+
+    return publicContentResponse(request, response, loaded, startTime);
+  } catch (error) {
+    return publicErrorResponse(error, request);
+  }
+}
+
+// Support OPTIONS for CORS preflight
+export async function OPTIONS() {
+  return publicOptionsResponse();
+}
@@ -0,0 +1,39 @@
+// GET /api/public/sites/[slug]/images/[key] - Single image for Replit sites
+
+import { NextRequest } from 'next/server';
+import { NotFoundError } from '@/lib/utils/errors';
+import {
+  loadPublicContent,
+  publicContentResponse,
+  publicErrorResponse,
+  publicOptionsResponse,
+} from '@/lib/content/public-request';
+import type { PublicImageContent } from '@/lib/types/api';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  const startTime = Date.now();
+  const { slug, key } = await params;
+
+  try {
+    const { content, ...loaded } = await loadPublicContent(request, slug);
+
+    const image = Object.hasOwn(content.images, key) ? content.images[key] : undefined;
+    if (!image) {
+      throw new NotFoundError('Image not found');
+    }
+
+    const response: PublicImageContent = { key, ...image };
+
+    return publicContentResponse(request, response, loaded, startTime);
+  } catch (error) {
+    return publicErrorResponse(error, request);
+  }
+}
+
+// Support OPTIONS for CORS preflight
+export async function OPTIONS() {
+  return publicOptionsResponse();
+}
@@ -0,0 +1,38 @@
+// GET /api/public/sites/[slug]/text/[key] - Single text value for Replit sites
+
+import { NextRequest } from 'next/server';
+import { NotFoundError } from '@/lib/utils/errors';
+import {
+  loadPublicContent,
+  publicContentResponse,
+  publicErrorResponse,
+  publicOptionsResponse,
+} from '@/lib/content/public-request';
+import type { PublicTextContent } from '@/lib/types/api';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; key: string }> }
+) {
+  const startTime = Date.now();
+  const { slug, key } = await params;
+
+  try {
+    const { content, ...loaded } = await loadPublicContent(request, slug);
+
+    if (!Object.hasOwn(content.text, key)) {
+      throw new NotFoundError('Text content not found');
+    }
+
+    const response: PublicTextContent = { key, value: content.text[key]! };
+
+    return publicContentResponse(request, response, loaded, startTime);
+  } catch (error) {
+    return publicErrorResponse(error, request);
+  }
+}
+
+// Support OPTIONS for CORS preflight
+export async function OPTIONS() {
+  return publicOptionsResponse();
+}
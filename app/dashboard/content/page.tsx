@@ -58,6 +58,7 @@ export default function ContentPage() {
       .from("text_content")
       .select("id, content_key, label, content_type, max_length, content")
       .eq("site_id", site.id)
+      .is("deleted_at", null)
       .order("sort_order");
 
     console.log("[ContentPage] Text content query:", { content, error });
@@ -5,6 +5,12 @@ import { createClient } from "@/lib/supabase/client";
 import { PageHeader } from "@/components/shared/page-header";
 import { LoadingPage } from "@/components/shared/loading";
 import { EmptyState } from "@/components/shared/empty-state";
+import {
+  ImageFramingEditor,
+  type FocalPoint,
+  type CropArea,
+} from "@/components/client/image-framing-editor";
+import { MediaPickerDialog, type MediaLibraryAsset } from "@/components/client/media-picker-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -16,7 +22,15 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { Image as ImageIcon, Upload, X, Loader2, Trash2 } from "lucide-react";
+import {
+  Image as ImageIcon,
+  Upload,
+  X,
+  Loader2,
+  Trash2,
+  AlertTriangle,
+  FolderOpen,
+} from "lucide-react";
 
 interface ImageData {
   id: string;
@@ -24,14 +38,23 @@ interface ImageData {
   label: string;
   recommended_width: number | null;
   recommended_height: number | null;
+  min_width: number | null;
+  min_height: number | null;
+  enforce_dimensions: boolean;
   url: string | null;
   alt_text: string | null;
+  width: number | null;
+  height: number | null;
+  focal_point: FocalPoint | null;
+  crop: CropArea | null;
 }
 
 export default function ImagesPage() {
   const [loading, setLoading] = useState(true);
   const [siteSlug, setSiteSlug] = useState<string | null>(null);
   const [images, setImages] = useState<ImageData[]>([]);
+  // Size warnings from the latest upload to each slot
+  const [uploadWarnings, setUploadWarnings] = useState<Record<string, string[]>>({});
 
   // Upload dialog states
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
@@ -40,6 +63,11 @@ export default function ImagesPage() {
   const [altText, setAltText] = useState("");
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // An image picked from the media library instead of a new upload
+  const [libraryAsset, setLibraryAsset] = useState<MediaLibraryAsset | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [focalPoint, setFocalPoint] = useState<FocalPoint | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -68,8 +96,11 @@ export default function ImagesPage() {
     // Fetch images (combined slot definitions and content)
     const { data: imageData, error } = await supabase
       .from("images")
-      .select("id, image_key, label, recommended_width, recommended_height, url, alt_text")
+      .select(
+        "id, image_key, label, recommended_width, recommended_height, min_width, min_height, enforce_dimensions, url, alt_text, width, height, focal_point, crop"
+      )
       .eq("site_id", site.id)
+      .is("deleted_at", null)
       .order("sort_order");
 
     console.log("[ImagesPage] Images query:", { imageData, error });
@@ -83,6 +114,9 @@ export default function ImagesPage() {
     setAltText(image.alt_text || "");
     setPreviewUrl(image.url);
     setSelectedFile(null);
+    setLibraryAsset(null);
+    setFocalPoint(image.focal_point);
+    setCrop(image.crop);
     setUploadDialogOpen(true);
   };
 
@@ -90,6 +124,7 @@ export default function ImagesPage() {
     const file = e.target.files?.[0];
     if (file) {
       setSelectedFile(file);
+      setLibraryAsset(null);
       const reader = new FileReader();
       reader.onloadend = () => {
         setPreviewUrl(reader.result as string);
@@ -98,47 +133,69 @@ export default function ImagesPage() {
     }
   };
 
+  const handleLibrarySelect = (asset: MediaLibraryAsset) => {
+    setLibraryAsset(asset);
+    setSelectedFile(null);
+    setPreviewUrl(asset.url);
+    if (asset.alt_text) setAltText(asset.alt_text);
+  };
+
   const handleUpload = async () => {
     if (!siteSlug || !selectedImage) return;
     setUploading(true);
 
     try {
-      // If there's a new file, upload it first
-      let imageUrl = selectedImage.url;
-
       if (selectedFile) {
+        // The upload saves the alt text along with the file
         const formData = new FormData();
         formData.append("file", selectedFile);
-        formData.append("image_key", selectedImage.image_key);
+        formData.append("alt_text", altText);
 
         const uploadResponse = await fetch(`/api/client/sites/${siteSlug}/images/${selectedImage.image_key}/upload`, {
           method: "POST",
           body: formData,
         });
 
-        if (!uploadResponse.ok) throw new Error("Failed to upload image");
-
         const uploadData = await uploadResponse.json();
-        imageUrl = uploadData.data?.url || uploadData.url;
-      }
+        if (!uploadResponse.ok) throw new Error(uploadData.error || "Failed to upload image");
+
+        const warnings: string[] = uploadData.data?.warnings || [];
+        setUploadWarnings((prev) => ({ ...prev, [selectedImage.image_key]: warnings }));
+        warnings.forEach((warning) => toast.warning(warning));
+      } else if (libraryAsset) {
+        // Switch the slot to the library image (its framing starts over)
+        const response = await fetch(`/api/client/sites/${siteSlug}/images/${selectedImage.image_key}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ media_id: libraryAsset.id, alt_text: altText }),
+        });
 
-      // Update the image content
-      const response = await fetch(`/api/client/sites/${siteSlug}/images/${selectedImage.image_key}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          url: imageUrl,
-          alt_text: altText,
-        }),
-      });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to save image");
+        }
+      } else {
+        // Update the alt text and framing of the current image
+        const response = await fetch(`/api/client/sites/${siteSlug}/images/${selectedImage.image_key}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            alt_text: altText,
+            ...(selectedImage.url && { focal_point: focalPoint, crop }),
+          }),
+        });
 
-      if (!response.ok) throw new Error("Failed to save image");
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to save image");
+        }
+      }
 
       toast.success("Image saved");
       setUploadDialogOpen(false);
       fetchData();
-    } catch (error) {
-      toast.error("Failed to save image");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save image");
     } finally {
       setUploading(false);
     }
@@ -217,9 +274,18 @@ export default function ImagesPage() {
                   <p className="font-medium text-white">{image.label}</p>
                   {image.recommended_width && image.recommended_height && (
                     <p className="text-xs text-slate-500">
-                      {image.recommended_width}x{image.recommended_height}
+                      Recommended {image.recommended_width}x{image.recommended_height}
+                      {image.url && image.width && image.height && (
+                        <> · Uploaded {image.width}x{image.height}</>
+                      )}
                     </p>
                   )}
+                  {uploadWarnings[image.image_key]?.map((warning) => (
+                    <p key={warning} className="text-xs text-amber-400 flex items-start gap-1 mt-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
                 </div>
                 {image.url && (
                   <Button
@@ -254,7 +320,7 @@ export default function ImagesPage() {
               {selectedImage?.label}
             </DialogTitle>
           </DialogHeader>
-          <div className="space-y-4">
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
             {/* Preview */}
             <div
               className="relative aspect-video bg-slate-800 rounded-lg overflow-hidden cursor-pointer"
@@ -273,6 +339,7 @@ export default function ImagesPage() {
                       e.stopPropagation();
                       setPreviewUrl(null);
                       setSelectedFile(null);
+                      setLibraryAsset(null);
                     }}
                   >
                     <X className="w-4 h-4" />
@@ -286,6 +353,20 @@ export default function ImagesPage() {
               )}
             </div>
 
+            <div className="flex items-center justify-between gap-3">
+              {selectedImage && <SizeRequirements image={selectedImage} />}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="ml-auto shrink-0 border-slate-700"
+                onClick={() => setLibraryOpen(true)}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Choose from library
+              </Button>
+            </div>
+
             <input
               ref={fileInputRef}
               type="file"
@@ -303,6 +384,22 @@ export default function ImagesPage() {
                 placeholder="Describe the image for accessibility"
               />
             </div>
+
+            {/* Framing applies to the saved image, so it waits until a new image is saved */}
+            {selectedImage?.url && !selectedFile && !libraryAsset && (
+              <div>
+                <Label className="text-slate-300">Framing</Label>
+                <div className="mt-1.5">
+                  <ImageFramingEditor
+                    src={selectedImage.url}
+                    focalPoint={focalPoint}
+                    crop={crop}
+                    onFocalPointChange={setFocalPoint}
+                    onCropChange={setCrop}
+                  />
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button
@@ -329,6 +426,40 @@ export default function ImagesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <MediaPickerDialog
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        siteSlug={siteSlug}
+        onSelect={handleLibrarySelect}
+      />
     </div>
   );
 }
+
+/**
+ * What the slot expects of an upload
+ */
+function SizeRequirements({ image }: { image: ImageData }) {
+  const parts: string[] = [];
+  if (image.recommended_width && image.recommended_height) {
+    parts.push(`Recommended ${image.recommended_width}x${image.recommended_height}`);
+  }
+  if (image.min_width && image.min_height) {
+    parts.push(`at least ${image.min_width}x${image.min_height}`);
+  } else if (image.min_width) {
+    parts.push(`at least ${image.min_width}px wide`);
+  } else if (image.min_height) {
+    parts.push(`at least ${image.min_height}px tall`);
+  }
+  if (parts.length === 0) return null;
+
+  return (
+    <p className="text-xs text-slate-500">
+      {parts.join(", ")}
+      {image.enforce_dimensions
+        ? ". Images that are too small or a different shape can't be uploaded."
+        : ". Images that don't fit can still be uploaded, with a warning."}
+    </p>
+  );
+}
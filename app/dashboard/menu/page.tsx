@@ -1,14 +1,23 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { PageHeader } from "@/components/shared/page-header";
 import { LoadingPage } from "@/components/shared/loading";
 import { EmptyState } from "@/components/shared/empty-state";
+import { CollectionImportDialog } from "@/components/shared/collection-import-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -17,24 +26,137 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { List, Plus, Trash2, Edit2, Loader2, GripVertical } from "lucide-react";
+import { getVisibilityStatus, type VisibilityStatus } from "@/lib/content/visibility";
+import { MediaPickerDialog } from "@/components/client/media-picker-dialog";
+import {
+  List,
+  Plus,
+  Trash2,
+  Edit2,
+  Loader2,
+  GripVertical,
+  Upload,
+  Download,
+  X,
+  Eye,
+  EyeOff,
+  Copy,
+  PenLine,
+  FolderOpen,
+} from "lucide-react";
+
+interface FieldSchema {
+  type:
+    | "text"
+    | "textarea"
+    | "number"
+    | "select"
+    | "image"
+    | "boolean"
+    | "date"
+    | "datetime"
+    | "url"
+    | "email"
+    | "phone"
+    | "price"
+    | "color"
+    | "rich_text"
+    | "multi_select"
+    | "list"
+    | "group"
+    | "reference";
+  label: string;
+  required?: boolean;
+  max_length?: number;
+  options?: string[];
+  placeholder?: string;
+  currency?: string;
+  item_type?: FieldSchema["type"];
+  fields?: Record<string, FieldSchema>;
+  repeatable?: boolean;
+  max_items?: number;
+  collection?: string;
+  multiple?: boolean;
+  max_file_size_kb?: number;
+}
+
+interface PriceValue {
+  amount: number;
+  currency: string;
+}
+
+// Minor units per major unit, e.g. 2 for USD and 0 for JPY
+function currencyDigits(currency: string): number {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+}
+
+function formatPrice(value: unknown): string {
+  if (value && typeof value === "object") {
+    const price = value as PriceValue;
+    return new Intl.NumberFormat(undefined, { style: "currency", currency: price.currency }).format(
+      price.amount / 10 ** currencyDigits(price.currency)
+    );
+  }
+  return String(value);
+}
+
+// ISO timestamp to the local "YYYY-MM-DDTHH:mm" a datetime-local input expects
+function toLocalDatetime(value: unknown): string {
+  if (typeof value !== "string" || !value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
 
 interface Collection {
   id: string;
   collection_key: string;
   label: string;
-  schema: any;
+  item_schema: Record<string, FieldSchema>;
+}
+
+interface VisibilityWindow {
+  days: number[];
+  start: string;
+  end: string;
 }
 
-interface CollectionItem {
+interface ItemSchedule {
+  visible_from: string | null;
+  visible_until: string | null;
+  visibility_window: VisibilityWindow | null;
+}
+
+interface CollectionItem extends ItemSchedule {
   id: string;
   data: Record<string, any>;
+  is_visible: boolean;
   display_order: number;
 }
 
+const EMPTY_SCHEDULE: ItemSchedule = {
+  visible_from: null,
+  visible_until: null,
+  visibility_window: null,
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Labels for items the public API currently leaves out
+const STATUS_LABELS: Partial<Record<VisibilityStatus, string>> = {
+  hidden: "Hidden",
+  scheduled: "Scheduled",
+  expired: "Expired",
+  outside_window: "Outside hours",
+};
+
+type BulkAction = "show" | "hide" | "delete" | "duplicate" | "set_field";
+
 export default function MenuPage() {
   const [loading, setLoading] = useState(true);
   const [siteSlug, setSiteSlug] = useState<string | null>(null);
+  const [siteTimezone, setSiteTimezone] = useState("UTC");
   const [collections, setCollections] = useState<Collection[]>([]);
   const [selectedCollection, setSelectedCollection] = useState<Collection | null>(null);
   const [items, setItems] = useState<CollectionItem[]>([]);
@@ -44,7 +166,18 @@ export default function MenuPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<CollectionItem | null>(null);
   const [itemData, setItemData] = useState<Record<string, any>>({});
+  const [schedule, setSchedule] = useState<ItemSchedule>(EMPTY_SCHEDULE);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Bulk selection
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkWorking, setBulkWorking] = useState(false);
+  const [setFieldOpen, setSetFieldOpen] = useState(false);
+  const [bulkField, setBulkField] = useState<string>("");
+  const [bulkValue, setBulkValue] = useState<any>(undefined);
+  const [bulkErrors, setBulkErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     fetchCollections();
@@ -58,7 +191,7 @@ export default function MenuPage() {
 
     const { data: site } = await supabase
       .from("sites")
-      .select("id, slug")
+      .select("id, slug, timezone")
       .eq("client_id", user.id)
       .single();
 
@@ -68,10 +201,11 @@ export default function MenuPage() {
     }
 
     setSiteSlug(site.slug);
+    setSiteTimezone(site.timezone || "UTC");
 
     const { data: collectionsData } = await supabase
       .from("collections")
-      .select("id, collection_key, label, schema")
+      .select("id, collection_key, label, item_schema")
       .eq("site_id", site.id);
 
     setCollections(collectionsData || []);
@@ -88,12 +222,13 @@ export default function MenuPage() {
 
   const fetchItems = async (slug: string, collectionKey: string) => {
     setLoadingItems(true);
+    setSelectedIds([]);
     try {
       const response = await fetch(`/api/client/sites/${slug}/collections/${collectionKey}/items`);
       const data = await response.json();
 
       if (response.ok) {
-        setItems(data.items || []);
+        setItems(data.data?.items || []);
       }
     } catch (error) {
       console.error("Failed to fetch items:", error);
@@ -112,12 +247,20 @@ export default function MenuPage() {
   const handleAddItem = () => {
     setEditingItem(null);
     setItemData({});
+    setSchedule(EMPTY_SCHEDULE);
+    setFieldErrors({});
     setEditDialogOpen(true);
   };
 
   const handleEditItem = (item: CollectionItem) => {
     setEditingItem(item);
     setItemData(item.data);
+    setSchedule({
+      visible_from: item.visible_from,
+      visible_until: item.visible_until,
+      visibility_window: item.visibility_window,
+    });
+    setFieldErrors({});
     setEditDialogOpen(true);
   };
 
@@ -133,16 +276,20 @@ export default function MenuPage() {
       const response = await fetch(url, {
         method: editingItem ? "PUT" : "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ data: itemData }),
+        body: JSON.stringify({ data: itemData, ...schedule }),
       });
 
-      if (!response.ok) throw new Error("Failed to save");
+      if (!response.ok) {
+        const data = await response.json();
+        setFieldErrors(data.fields || {});
+        throw new Error(data.error || "Failed to save item");
+      }
 
       toast.success(editingItem ? "Item updated" : "Item added");
       setEditDialogOpen(false);
       fetchItems(siteSlug, selectedCollection.collection_key);
-    } catch (error) {
-      toast.error("Failed to save item");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save item");
     } finally {
       setSaving(false);
     }
@@ -161,13 +308,73 @@ export default function MenuPage() {
 
       if (!response.ok) throw new Error("Failed to delete");
 
-      toast.success("Item deleted");
+      toast.success("Item moved to the trash");
       fetchItems(siteSlug, selectedCollection.collection_key);
     } catch (error) {
       toast.error("Failed to delete item");
     }
   };
 
+  const toggleSelected = (itemId: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, itemId] : prev.filter((id) => id !== itemId)
+    );
+  };
+
+  // Applies to all selected items, or to none if any of them fails
+  const runBulkAction = async (action: BulkAction, extra: Record<string, unknown> = {}) => {
+    if (!siteSlug || !selectedCollection || selectedIds.length === 0) return;
+
+    const count = selectedIds.length;
+    if (action === "delete" && !confirm(`Are you sure you want to delete ${count} items?`)) return;
+
+    setBulkWorking(true);
+    try {
+      const response = await fetch(
+        `/api/client/sites/${siteSlug}/collections/${selectedCollection.collection_key}/items/bulk`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, item_ids: selectedIds, ...extra }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        // Errors are keyed "<item id>.<field path>"; show the first failing item's
+        const errors: Record<string, string> = {};
+        for (const [key, message] of Object.entries<string>(data.fields || {})) {
+          const path = key.slice(key.indexOf(".") + 1);
+          errors[path] ??= message;
+        }
+        setBulkErrors(errors);
+        throw new Error(data.error || "Failed to update items");
+      }
+
+      const done = {
+        show: "shown",
+        hide: "hidden",
+        delete: "moved to the trash",
+        duplicate: "duplicated",
+        set_field: "updated",
+      }[action];
+      toast.success(`${count} ${count === 1 ? "item" : "items"} ${done}`);
+      setSetFieldOpen(false);
+      fetchItems(siteSlug, selectedCollection.collection_key);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update items");
+    } finally {
+      setBulkWorking(false);
+    }
+  };
+
+  const handleOpenSetField = () => {
+    setBulkField(Object.keys(selectedCollection?.item_schema ?? {})[0] ?? "");
+    setBulkValue(undefined);
+    setBulkErrors({});
+    setSetFieldOpen(true);
+  };
+
   if (loading) return <LoadingPage />;
 
   if (!siteSlug) {
@@ -212,35 +419,131 @@ export default function MenuPage() {
               <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
                 <div className="p-4 border-b border-slate-800 flex items-center justify-between">
                   <h3 className="font-semibold text-white">{selectedCollection.label}</h3>
-                  <Button
-                    size="sm"
-                    onClick={handleAddItem}
-                    className="bg-emerald-500 hover:bg-emerald-600"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Item
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" className="border-slate-700" asChild>
+                      <a
+                        href={`/api/client/sites/${siteSlug}/collections/${selectedCollection.collection_key}/export?format=csv`}
+                        download
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Export
+                      </a>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-slate-700"
+                      onClick={() => setImportOpen(true)}
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleAddItem}
+                      className="bg-emerald-500 hover:bg-emerald-600"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Item
+                    </Button>
+                  </div>
                 </div>
 
+                {selectedIds.length > 0 && (
+                  <div className="px-4 py-2 border-b border-slate-800 bg-slate-800/30 flex items-center justify-between">
+                    <span className="text-sm text-slate-300">{selectedIds.length} selected</span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={bulkWorking}
+                        onClick={() => runBulkAction("show")}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <Eye className="w-4 h-4 mr-2" />
+                        Show
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={bulkWorking}
+                        onClick={() => runBulkAction("hide")}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <EyeOff className="w-4 h-4 mr-2" />
+                        Hide
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={bulkWorking}
+                        onClick={handleOpenSetField}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <PenLine className="w-4 h-4 mr-2" />
+                        Set field
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={bulkWorking}
+                        onClick={() => runBulkAction("duplicate")}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        Duplicate
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={bulkWorking}
+                        onClick={() => runBulkAction("delete")}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {loadingItems ? (
                   <div className="p-8 text-center">
                     <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
                   </div>
                 ) : items.length > 0 ? (
                   <div className="divide-y divide-slate-800">
+                    <label className="px-4 py-2 flex items-center gap-3 text-sm text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.length === items.length}
+                        onChange={(e) =>
+                          setSelectedIds(e.target.checked ? items.map((item) => item.id) : [])
+                        }
+                        className="accent-emerald-500"
+                      />
+                      Select all
+                    </label>
                     {items.map((item) => (
                       <div
                         key={item.id}
                         className="p-4 flex items-center justify-between hover:bg-slate-800/30 transition-colors"
                       >
                         <div className="flex items-center gap-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(item.id)}
+                            onChange={(e) => toggleSelected(item.id, e.target.checked)}
+                            className="accent-emerald-500"
+                          />
                           <GripVertical className="w-4 h-4 text-slate-600 cursor-grab" />
                           <div>
                             <p className="font-medium text-white">
                               {item.data.name || item.data.title || `Item ${item.id.slice(0, 8)}`}
+                              <VisibilityLabel item={item} timezone={siteTimezone} />
                             </p>
                             {item.data.price && (
-                              <p className="text-sm text-emerald-400">{item.data.price}</p>
+                              <p className="text-sm text-emerald-400">{formatPrice(item.data.price)}</p>
                             )}
                             {item.data.description && (
                               <p className="text-sm text-slate-500 line-clamp-1">
@@ -287,6 +590,89 @@ export default function MenuPage() {
         />
       )}
 
+      {selectedCollection && (
+        <CollectionImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          collectionLabel={selectedCollection.label}
+          fields={selectedCollection.item_schema}
+          importUrl={`/api/client/sites/${siteSlug}/collections/${selectedCollection.collection_key}/import`}
+          onImported={() => fetchItems(siteSlug, selectedCollection.collection_key)}
+        />
+      )}
+
+      {/* Set Field Dialog */}
+      <Dialog open={setFieldOpen} onOpenChange={setSetFieldOpen}>
+        <DialogContent className="bg-slate-900 border-slate-800 max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-white">
+              Set field on {selectedIds.length} {selectedIds.length === 1 ? "item" : "items"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <div>
+              <Label className="text-slate-300">Field</Label>
+              <Select
+                value={bulkField}
+                onValueChange={(value) => {
+                  setBulkField(value);
+                  setBulkValue(undefined);
+                  setBulkErrors({});
+                }}
+              >
+                <SelectTrigger className="mt-1.5 bg-slate-800 border-slate-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {Object.entries(selectedCollection?.item_schema ?? {}).map(([key, field]) => (
+                    <SelectItem key={key} value={key}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedCollection?.item_schema[bulkField] && (
+              <div>
+                <ItemField
+                  field={selectedCollection.item_schema[bulkField]!}
+                  value={bulkValue}
+                  onChange={setBulkValue}
+                  errors={bulkErrors}
+                  path={bulkField}
+                  siteSlug={siteSlug}
+                  uploadBase={null}
+                />
+                <FieldError errors={bulkErrors} path={bulkField} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="border-slate-700"
+              onClick={() => setSetFieldOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => runBulkAction("set_field", { field: bulkField, value: bulkValue ?? null })}
+              disabled={bulkWorking || !bulkField}
+              className="bg-emerald-500 hover:bg-emerald-600"
+            >
+              {bulkWorking ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Apply"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="bg-slate-900 border-slate-800 max-w-lg">
@@ -296,39 +682,30 @@ export default function MenuPage() {
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4 max-h-[60vh] overflow-y-auto">
-            <div>
-              <Label className="text-slate-300">Name</Label>
-              <Input
-                value={itemData.name || ""}
-                onChange={(e) => setItemData((prev) => ({ ...prev, name: e.target.value }))}
-                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
-              />
-            </div>
-            <div>
-              <Label className="text-slate-300">Price</Label>
-              <Input
-                value={itemData.price || ""}
-                onChange={(e) => setItemData((prev) => ({ ...prev, price: e.target.value }))}
-                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
-                placeholder="$0.00"
-              />
-            </div>
-            <div>
-              <Label className="text-slate-300">Description</Label>
-              <Textarea
-                value={itemData.description || ""}
-                onChange={(e) => setItemData((prev) => ({ ...prev, description: e.target.value }))}
-                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
-              />
-            </div>
-            <div>
-              <Label className="text-slate-300">Category</Label>
-              <Input
-                value={itemData.category || ""}
-                onChange={(e) => setItemData((prev) => ({ ...prev, category: e.target.value }))}
-                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
-              />
-            </div>
+            {Object.entries(selectedCollection?.item_schema ?? {}).map(([key, field]) => (
+              <div key={key}>
+                <ItemField
+                  field={field}
+                  value={itemData[key]}
+                  onChange={(value) => setItemData((prev) => ({ ...prev, [key]: value }))}
+                  errors={fieldErrors}
+                  path={key}
+                  siteSlug={siteSlug}
+                  uploadBase={
+                    editingItem && selectedCollection
+                      ? `/api/client/sites/${siteSlug}/collections/${selectedCollection.collection_key}/items/${editingItem.id}/images`
+                      : null
+                  }
+                />
+                <FieldError errors={fieldErrors} path={key} />
+              </div>
+            ))}
+            <ScheduleFields
+              schedule={schedule}
+              onChange={setSchedule}
+              errors={fieldErrors}
+              timezone={siteTimezone}
+            />
           </div>
           <DialogFooter>
             <Button
@@ -360,3 +737,783 @@ export default function MenuPage() {
     </div>
   );
 }
+
+/**
+ * Form input for one collection field, based on its schema type
+ */
+// Errors from the API are keyed by path, e.g. "sizes.0.price"
+function FieldError({ errors, path }: { errors: Record<string, string>; path: string }) {
+  if (!errors[path]) return null;
+  return <p className="text-sm text-red-400 mt-1">{errors[path]}</p>;
+}
+
+/**
+ * Why an item isn't on the live site right now, if it isn't
+ */
+function VisibilityLabel({ item, timezone }: { item: CollectionItem; timezone: string }) {
+  const label = STATUS_LABELS[getVisibilityStatus(item, new Date(), timezone)];
+  if (!label) return null;
+  return <span className="ml-2 text-xs font-normal text-slate-500">{label}</span>;
+}
+
+/**
+ * Date range and weekly hours an item is shown in
+ * The weekly hours are in the site's timezone
+ */
+function ScheduleFields({
+  schedule,
+  onChange,
+  errors,
+  timezone,
+}: {
+  schedule: ItemSchedule;
+  onChange: (schedule: ItemSchedule) => void;
+  errors: Record<string, string>;
+  timezone: string;
+}) {
+  const inputClass = "mt-1.5 bg-slate-800 border-slate-700 text-white";
+  const hours = schedule.visibility_window;
+
+  const setWindow = (changes: Partial<VisibilityWindow>) => {
+    if (!hours) return;
+    onChange({ ...schedule, visibility_window: { ...hours, ...changes } });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!hours) return;
+    setWindow({
+      days: hours.days.includes(day)
+        ? hours.days.filter((d) => d !== day)
+        : [...hours.days, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="border-t border-slate-800 pt-4 space-y-4">
+      <p className="text-sm font-medium text-slate-300">Schedule</p>
+      <div className="grid grid-cols-2 gap-4">
+        {(["visible_from", "visible_until"] as const).map((key) => (
+          <div key={key}>
+            <Label className="text-slate-300">
+              {key === "visible_from" ? "Show from" : "Show until"}
+            </Label>
+            <Input
+              type="datetime-local"
+              value={toLocalDatetime(schedule[key])}
+              onChange={(e) =>
+                onChange({
+                  ...schedule,
+                  [key]: e.target.value ? new Date(e.target.value).toISOString() : null,
+                })
+              }
+              className={inputClass}
+            />
+            <FieldError errors={errors} path={key} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-slate-300">Only at certain times</Label>
+        <Switch
+          checked={!!hours}
+          onCheckedChange={(checked) =>
+            onChange({
+              ...schedule,
+              visibility_window: checked
+                ? { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" }
+                : null,
+            })
+          }
+        />
+      </div>
+
+      {hours && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-3">
+            {WEEKDAYS.map((name, day) => (
+              <label key={name} className="flex items-center gap-1.5 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hours.days.includes(day)}
+                  onChange={() => toggleDay(day)}
+                  className="accent-emerald-500"
+                />
+                {name}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-slate-300">From</Label>
+              <Input
+                type="time"
+                value={hours.start}
+                onChange={(e) => setWindow({ start: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Until</Label>
+              <Input
+                type="time"
+                value={hours.end}
+                onChange={(e) => setWindow({ end: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Times are in the site&apos;s timezone ({timezone}). An end before the start runs past
+            midnight.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ItemField({
+  field,
+  value,
+  onChange,
+  errors = {},
+  path = "",
+  siteSlug = null,
+  uploadBase = null,
+}: {
+  field: FieldSchema;
+  value: any;
+  onChange: (value: any) => void;
+  errors?: Record<string, string>;
+  path?: string;
+  siteSlug?: string | null;
+  // Image upload endpoints of a saved item, completed with the field's path
+  uploadBase?: string | null;
+}) {
+  // List entries render without their own label
+  const label = field.label ? (
+    <Label className="text-slate-300">
+      {field.label}
+      {field.required && <span className="text-red-400 ml-1">*</span>}
+    </Label>
+  ) : null;
+  const inputClass = "mt-1.5 bg-slate-800 border-slate-700 text-white";
+  const canAddEntry = (count: number) => !field.max_items || count < field.max_items;
+
+  switch (field.type) {
+    case "multi_select": {
+      const selected: string[] = Array.isArray(value) ? value : [];
+      return (
+        <>
+          {label}
+          <div className="mt-1.5 flex flex-wrap gap-2">
+            {(field.options ?? []).map((option) => {
+              const active = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() =>
+                    onChange(active ? selected.filter((o) => o !== option) : [...selected, option])
+                  }
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    active
+                      ? "bg-emerald-500/20 border-emerald-500 text-emerald-300"
+                      : "bg-slate-800 border-slate-700 text-slate-400 hover:text-white"
+                  }`}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      );
+    }
+
+    case "list": {
+      const entries: any[] = Array.isArray(value) ? value : [];
+      const entryField: FieldSchema = {
+        type: field.item_type ?? "text",
+        label: "",
+        max_length: field.max_length,
+        options: field.options,
+      };
+      return (
+        <>
+          {label}
+          <div className="mt-1.5 space-y-2">
+            {entries.map((entry, i) => (
+              <div key={i}>
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <ItemField
+                      field={entryField}
+                      value={entry}
+                      onChange={(next) => onChange(entries.map((e, j) => (j === i ? next : e)))}
+                      path={`${path}.${i}`}
+                      siteSlug={siteSlug}
+                      uploadBase={uploadBase}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-1.5 text-slate-400 hover:text-red-400"
+                    onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <FieldError errors={errors} path={`${path}.${i}`} />
+              </div>
+            ))}
+            {canAddEntry(entries.length) && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="border-slate-700"
+                onClick={() => onChange([...entries, ""])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Entry
+              </Button>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    case "group": {
+      const renderEntry = (
+        entry: Record<string, any>,
+        entryPath: string,
+        update: (next: Record<string, any>) => void
+      ) => (
+        <div className="space-y-3">
+          {Object.entries(field.fields ?? {}).map(([key, subField]) => (
+            <div key={key}>
+              <ItemField
+                field={subField}
+                value={entry[key]}
+                onChange={(next) => update({ ...entry, [key]: next })}
+                errors={errors}
+                path={`${entryPath}.${key}`}
+                siteSlug={siteSlug}
+                uploadBase={uploadBase}
+              />
+              <FieldError errors={errors} path={`${entryPath}.${key}`} />
+            </div>
+          ))}
+        </div>
+      );
+
+      if (!field.repeatable) {
+        return (
+          <>
+            {label}
+            <div className="mt-1.5 p-3 border border-slate-700 rounded-lg">
+              {renderEntry(value ?? {}, path, onChange)}
+            </div>
+          </>
+        );
+      }
+
+      const entries: Record<string, any>[] = Array.isArray(value) ? value : [];
+      return (
+        <>
+          {label}
+          <div className="mt-1.5 space-y-2">
+            {entries.map((entry, i) => (
+              <div key={i} className="p-3 border border-slate-700 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-xs text-slate-500">
+                    {field.label} {i + 1}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-slate-400 hover:text-red-400"
+                    onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {renderEntry(entry ?? {}, `${path}.${i}`, (next) =>
+                  onChange(entries.map((e, j) => (j === i ? next : e)))
+                )}
+              </div>
+            ))}
+            {canAddEntry(entries.length) && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="border-slate-700"
+                onClick={() => onChange([...entries, {}])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add {field.label}
+              </Button>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    case "reference":
+      return (
+        <>
+          {label}
+          <ReferenceField field={field} value={value} onChange={onChange} siteSlug={siteSlug} />
+        </>
+      );
+
+    case "textarea":
+      return (
+        <>
+          {label}
+          <Textarea
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+            placeholder={field.placeholder}
+            maxLength={field.max_length}
+          />
+        </>
+      );
+
+    case "rich_text":
+      return (
+        <>
+          {label}
+          <Textarea
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={`${inputClass} min-h-[150px]`}
+            placeholder={field.placeholder}
+            maxLength={field.max_length}
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Basic HTML is allowed: paragraphs, bold, italic, lists and links.
+          </p>
+        </>
+      );
+
+    case "number":
+      return (
+        <>
+          {label}
+          <Input
+            type="number"
+            step="any"
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+            placeholder={field.placeholder}
+          />
+        </>
+      );
+
+    case "boolean":
+      return (
+        <div className="flex items-center justify-between">
+          {label}
+          <Switch checked={value === true} onCheckedChange={onChange} />
+        </div>
+      );
+
+    case "select":
+      return (
+        <>
+          {label}
+          <Select value={value ?? ""} onValueChange={onChange}>
+            <SelectTrigger className={inputClass}>
+              <SelectValue placeholder={field.placeholder || "Select..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      );
+
+    case "price": {
+      // Stored in minor units - edited in major units of the field's currency
+      const currency = (value as PriceValue | undefined)?.currency ?? field.currency ?? "USD";
+      const digits = currencyDigits(currency);
+      const amount =
+        value && typeof value === "object"
+          ? ((value as PriceValue).amount / 10 ** digits).toFixed(digits)
+          : value ?? "";
+      return (
+        <>
+          {label}
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step={digits > 0 ? `0.${"0".repeat(digits - 1)}1` : "1"}
+              value={amount}
+              onChange={(e) => onChange(e.target.value)}
+              className={inputClass}
+              placeholder={field.placeholder}
+            />
+            <span className="mt-1.5 text-sm text-slate-400 font-mono">{currency}</span>
+          </div>
+        </>
+      );
+    }
+
+    case "date":
+      return (
+        <>
+          {label}
+          <Input
+            type="date"
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+          />
+        </>
+      );
+
+    case "datetime":
+      return (
+        <>
+          {label}
+          <Input
+            type="datetime-local"
+            value={toLocalDatetime(value)}
+            onChange={(e) =>
+              onChange(e.target.value ? new Date(e.target.value).toISOString() : "")
+            }
+            className={inputClass}
+          />
+        </>
+      );
+
+    case "url":
+    case "email":
+    case "phone":
+      return (
+        <>
+          {label}
+          <Input
+            type={field.type === "phone" ? "tel" : field.type}
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+            placeholder={field.placeholder || (field.type === "url" ? "https://" : undefined)}
+          />
+        </>
+      );
+
+    case "color":
+      return (
+        <>
+          {label}
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(value ?? "") ? value : "#000000"}
+              onChange={(e) => onChange(e.target.value)}
+              className="mt-1.5 h-10 w-12 rounded border border-slate-700 bg-slate-800 cursor-pointer"
+            />
+            <Input
+              value={value ?? ""}
+              onChange={(e) => onChange(e.target.value)}
+              className={`${inputClass} font-mono`}
+              placeholder="#000000"
+            />
+          </div>
+        </>
+      );
+
+    case "image":
+      return (
+        <>
+          {label}
+          <ImageField
+            field={field}
+            value={value}
+            onChange={onChange}
+            path={path}
+            siteSlug={siteSlug}
+            uploadUrl={uploadBase && path ? `${uploadBase}/${path}/upload` : null}
+          />
+          <FieldError errors={errors} path={`${path}.url`} />
+          <FieldError errors={errors} path={`${path}.alt`} />
+        </>
+      );
+
+    default:
+      return (
+        <>
+          {label}
+          <Input
+            value={value ?? ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClass}
+            placeholder={field.placeholder}
+            maxLength={field.max_length}
+          />
+        </>
+      );
+  }
+}
+
+// Name shown for an item of a referenced collection
+function itemLabel(item: CollectionItem): string {
+  const name = item.data.name ?? item.data.title ?? item.data.label;
+  return typeof name === "string" && name ? name : item.id.slice(0, 8);
+}
+
+/**
+ * Picker for items of the collection a reference field points at
+ */
+function ReferenceField({
+  field,
+  value,
+  onChange,
+  siteSlug,
+}: {
+  field: FieldSchema;
+  value: any;
+  onChange: (value: any) => void;
+  siteSlug: string | null;
+}) {
+  const [options, setOptions] = useState<CollectionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!siteSlug || !field.collection) return;
+
+    fetch(`/api/client/sites/${siteSlug}/collections/${field.collection}/items`)
+      .then((response) => response.json())
+      .then((data) => setOptions(data.data?.items || []))
+      .catch((error) => console.error("Failed to fetch referenced items:", error))
+      .finally(() => setLoading(false));
+  }, [siteSlug, field.collection]);
+
+  if (loading) {
+    return <Loader2 className="mt-1.5 w-4 h-4 animate-spin text-slate-400" />;
+  }
+
+  if (!field.multiple) {
+    return (
+      <Select
+        value={typeof value === "string" ? value : ""}
+        onValueChange={(next) => onChange(next === "none" ? undefined : next)}
+      >
+        <SelectTrigger className="mt-1.5 bg-slate-800 border-slate-700 text-white">
+          <SelectValue placeholder={field.placeholder || "Select..."} />
+        </SelectTrigger>
+        <SelectContent>
+          {!field.required && <SelectItem value="none">None</SelectItem>}
+          {options.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {itemLabel(item)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  const selected: string[] = Array.isArray(value) ? value : [];
+  const canAdd = !field.max_items || selected.length < field.max_items;
+  return (
+    <div className="mt-1.5 flex flex-wrap gap-2">
+      {options.length === 0 && (
+        <p className="text-sm text-slate-500">No items in this collection yet.</p>
+      )}
+      {options.map((item) => {
+        const active = selected.includes(item.id);
+        return (
+          <button
+            key={item.id}
+            type="button"
+            disabled={!active && !canAdd}
+            onClick={() =>
+              onChange(active ? selected.filter((id) => id !== item.id) : [...selected, item.id])
+            }
+            className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-50 ${
+              active
+                ? "bg-emerald-500/20 border-emerald-500 text-emerald-300"
+                : "bg-slate-800 border-slate-700 text-slate-400 hover:text-white"
+            }`}
+          >
+            {itemLabel(item)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Image input - uploads a file for saved items, or takes an image URL
+ */
+function ImageField({
+  field,
+  value,
+  onChange,
+  path,
+  siteSlug,
+  uploadUrl,
+}: {
+  field: FieldSchema;
+  value: any;
+  onChange: (value: any) => void;
+  path: string;
+  siteSlug: string | null;
+  uploadUrl: string | null;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+
+  // Older items store a bare URL
+  const image: { url?: string; alt?: string } =
+    typeof value === "string" ? { url: value } : value ?? {};
+  const inputClass = "mt-1.5 bg-slate-800 border-slate-700 text-white";
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !uploadUrl) return;
+
+    const maxSizeKb = field.max_file_size_kb || 2048;
+    if (file.size > maxSizeKb * 1024) {
+      toast.error(`File too large. Maximum size: ${maxSizeKb}KB`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (image.alt) formData.append("alt_text", image.alt);
+
+      const response = await fetch(uploadUrl, { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to upload image");
+
+      // The upload is saved to the item straight away
+      onChange(data.data?.image);
+      toast.success("Image uploaded");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to upload image");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="mt-1.5 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="relative w-20 h-20 flex-shrink-0 bg-slate-800 border border-slate-700 rounded-lg overflow-hidden">
+          {image.url ? (
+            <>
+              <img src={image.url} alt={image.alt || ""} className="w-full h-full object-cover" />
+              <button
+                type="button"
+                className="absolute top-1 right-1 p-0.5 bg-red-500 rounded-full text-white hover:bg-red-600"
+                onClick={() => onChange(undefined)}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-slate-600">
+              <Upload className="w-6 h-6" />
+            </div>
+          )}
+        </div>
+        <div className="flex-1 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {uploadUrl && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="border-slate-700"
+                disabled={uploading}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {uploading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                {image.url ? "Replace" : "Upload"}
+              </Button>
+            )}
+            {siteSlug && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="border-slate-700"
+                onClick={() => setLibraryOpen(true)}
+              >
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Library
+              </Button>
+            )}
+          </div>
+          {!uploadUrl &&
+            // Uploads go to saved items only
+            path && (
+              <p className="text-xs text-slate-500">
+                Save the item to upload an image, or pick one from the library or paste a URL.
+              </p>
+            )}
+          <Input
+            type="url"
+            value={image.url ?? ""}
+            onChange={(e) => onChange(e.target.value ? { ...image, url: e.target.value } : undefined)}
+            className={inputClass}
+            placeholder={field.placeholder || "https://"}
+          />
+        </div>
+      </div>
+      {image.url && (
+        <Input
+          value={image.alt ?? ""}
+          onChange={(e) => onChange({ ...image, alt: e.target.value })}
+          className={inputClass}
+          placeholder="Describe the image for accessibility"
+        />
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/gif"
+        onChange={handleUpload}
+        className="hidden"
+      />
+      {siteSlug && (
+        <MediaPickerDialog
+          open={libraryOpen}
+          onOpenChange={setLibraryOpen}
+          siteSlug={siteSlug}
+          onSelect={(asset) => {
+            // Saved with the item; alt text the field already has is kept
+            const alt = image.alt || asset.alt_text;
+            onChange({ url: asset.url, ...(alt && { alt }) });
+          }}
+        />
+      )}
+    </div>
+  );
+}
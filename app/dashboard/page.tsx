@@ -53,9 +53,9 @@ export default async function DashboardPage() {
     console.log("[Dashboard] Fetching content counts for site:", site.id);
 
     const [textContent, collections, images] = await Promise.all([
-      supabase.from("text_content").select("id", { count: "exact" }).eq("site_id", site.id),
+      supabase.from("text_content").select("id", { count: "exact" }).eq("site_id", site.id).is("deleted_at", null),
       supabase.from("collections").select("id", { count: "exact" }).eq("site_id", site.id),
-      supabase.from("images").select("id", { count: "exact" }).eq("site_id", site.id),
+      supabase.from("images").select("id", { count: "exact" }).eq("site_id", site.id).is("deleted_at", null),
     ]);
 
     console.log("[Dashboard] Query results:", { textContent, collections, images });
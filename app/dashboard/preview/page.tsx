@@ -1,21 +1,46 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { PageHeader } from "@/components/shared/page-header";
 import { LoadingPage } from "@/components/shared/loading";
 import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
 import { ExternalLink, RefreshCw, Maximize2 } from "lucide-react";
 
 export default function PreviewPage() {
   const [loading, setLoading] = useState(true);
-  const [site, setSite] = useState<{ name: string; replit_url: string | null } | null>(null);
+  const [site, setSite] = useState<{
+    name: string;
+    slug: string;
+    replit_url: string | null;
+  } | null>(null);
+  const [previewToken, setPreviewToken] = useState<string | null>(null);
   const [iframeKey, setIframeKey] = useState(0);
 
   useEffect(() => {
     fetchSite();
   }, []);
 
+  // Issue a fresh draft preview token - tokens are short-lived, so each refresh gets a new one
+  const fetchPreviewToken = useCallback(async (slug: string) => {
+    try {
+      const response = await fetch(`/api/client/sites/${slug}/preview-token`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create preview link");
+      }
+
+      setPreviewToken(data.data.token);
+    } catch (error: any) {
+      setPreviewToken(null);
+      toast.error(error.message || "Failed to create preview link");
+    }
+  }, []);
+
   const fetchSite = async () => {
     const supabase = createClient();
 
@@ -24,18 +49,38 @@ export default function PreviewPage() {
 
     const { data: siteData } = await supabase
       .from("sites")
-      .select("name, replit_url")
+      .select("name, slug, replit_url")
       .eq("client_id", user.id)
       .single();
 
     setSite(siteData);
+    if (siteData?.replit_url) {
+      await fetchPreviewToken(siteData.slug);
+    }
     setLoading(false);
   };
 
-  const handleRefresh = () => {
+  const handleRefresh = async () => {
+    if (site?.replit_url) {
+      await fetchPreviewToken(site.slug);
+    }
     setIframeKey((prev) => prev + 1);
   };
 
+  // The Replit site forwards ?preview= to the portal API to render draft content
+  const previewUrl = (() => {
+    if (!site?.replit_url) return null;
+    if (!previewToken) return site.replit_url;
+
+    try {
+      const url = new URL(site.replit_url);
+      url.searchParams.set("preview", previewToken);
+      return url.toString();
+    } catch {
+      return site.replit_url;
+    }
+  })();
+
   if (loading) return <LoadingPage />;
 
   if (!site) {
@@ -54,8 +99,8 @@ export default function PreviewPage() {
             <RefreshCw className="w-4 h-4 mr-2" />
             Refresh
           </Button>
-          {site.replit_url && (
-            <a href={site.replit_url} target="_blank" rel="noopener noreferrer">
+          {previewUrl && (
+            <a href={previewUrl} target="_blank" rel="noopener noreferrer">
               <Button variant="outline" className="border-slate-700">
                 <ExternalLink className="w-4 h-4 mr-2" />
                 Open in New Tab
@@ -65,7 +110,7 @@ export default function PreviewPage() {
         </div>
       </PageHeader>
 
-      {site.replit_url ? (
+      {previewUrl ? (
         <div className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden h-[calc(100%-5rem)]">
           <div className="bg-slate-800 border-b border-slate-700 p-3 flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -77,7 +122,7 @@ export default function PreviewPage() {
               <span className="text-sm text-slate-400 ml-4">{site.replit_url}</span>
             </div>
             <a
-              href={site.replit_url}
+              href={previewUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="text-slate-400 hover:text-white"
@@ -87,7 +132,7 @@ export default function PreviewPage() {
           </div>
           <iframe
             key={iframeKey}
-            src={site.replit_url}
+            src={previewUrl}
             className="w-full h-[calc(100%-52px)] bg-white"
             title="Site Preview"
           />
@@ -103,7 +148,8 @@ export default function PreviewPage() {
       )}
 
       <p className="text-center text-sm text-slate-500 mt-4">
-        Note: Changes are saved but not published. Use the Publish button to make changes live.
+        This preview shows your saved changes before they are published. Preview links expire
+        after 15 minutes - use Refresh to get a new one.
       </p>
     </div>
   );
@@ -5,9 +5,14 @@ import { createClient } from "@/lib/supabase/client";
 import { PageHeader } from "@/components/shared/page-header";
 import { LoadingPage } from "@/components/shared/loading";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import { PublishDiff } from "@/components/client/publish-diff";
+import type { ContentDiff } from "@/lib/content/diff";
 import {
   Dialog,
   DialogContent,
@@ -17,12 +22,38 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { Rocket, CheckCircle, Clock, AlertCircle, Loader2 } from "lucide-react";
+import {
+  Rocket,
+  CheckCircle,
+  Clock,
+  AlertCircle,
+  Loader2,
+  RotateCcw,
+  CalendarClock,
+  X,
+  Send,
+  XCircle,
+} from "lucide-react";
 
 interface PublishVersion {
   id: string;
   version_number: number;
-  published_at: string;
+  created_at: string;
+  notes: string | null;
+}
+
+interface PublishRequest {
+  id: string;
+  status: "pending" | "approved" | "rejected";
+  notes: string | null;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+interface ScheduledPublish {
+  id: string;
+  scheduled_at: string;
   notes: string | null;
 }
 
@@ -31,12 +62,27 @@ export default function PublishPage() {
   const [siteSlug, setSiteSlug] = useState<string | null>(null);
   const [site, setSite] = useState<{ name: string; status: string } | null>(null);
   const [versions, setVersions] = useState<PublishVersion[]>([]);
+  const [schedules, setSchedules] = useState<ScheduledPublish[]>([]);
   const [canPublish, setCanPublish] = useState(false);
+  const [canRequestPublish, setCanRequestPublish] = useState(false);
+  const [latestRequest, setLatestRequest] = useState<PublishRequest | null>(null);
 
   // Publish dialog states
   const [publishDialogOpen, setPublishDialogOpen] = useState(false);
   const [publishNotes, setPublishNotes] = useState("");
   const [publishing, setPublishing] = useState(false);
+  const [pendingDiff, setPendingDiff] = useState<ContentDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [scheduleLater, setScheduleLater] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState("");
+
+  // Cancel schedule dialog states
+  const [cancelSchedule, setCancelSchedule] = useState<ScheduledPublish | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Restore dialog states
+  const [restoreVersion, setRestoreVersion] = useState<PublishVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -66,47 +112,107 @@ export default function PublishPage() {
     // Check permissions
     const { data: permissions } = await supabase
       .from("site_permissions")
-      .select("can_publish")
+      .select("can_publish, can_request_publish")
       .eq("site_id", siteData.id)
       .eq("client_id", user.id)
       .single();
 
     setCanPublish(permissions?.can_publish || false);
+    setCanRequestPublish(permissions?.can_request_publish || false);
+
+    // Fetch publish history and pending schedules
+    try {
+      const [historyResponse, schedulesResponse, requestsResponse] = await Promise.all([
+        fetch(`/api/client/sites/${siteData.slug}/publish-history`),
+        fetch(`/api/client/sites/${siteData.slug}/scheduled-publishes`),
+        fetch(`/api/client/sites/${siteData.slug}/publish-requests`),
+      ]);
+      const [historyData, schedulesData, requestsData] = await Promise.all([
+        historyResponse.json(),
+        schedulesResponse.json(),
+        requestsResponse.json(),
+      ]);
 
-    // Fetch publish history (mock data for now)
-    setVersions([
-      {
-        id: "1",
-        version_number: 3,
-        published_at: new Date(Date.now() - 86400000).toISOString(),
-        notes: "Updated menu prices",
-      },
-      {
-        id: "2",
-        version_number: 2,
-        published_at: new Date(Date.now() - 86400000 * 3).toISOString(),
-        notes: "Added new hero image",
-      },
-      {
-        id: "3",
-        version_number: 1,
-        published_at: new Date(Date.now() - 86400000 * 7).toISOString(),
-        notes: "Initial publish",
-      },
-    ]);
+      if (historyResponse.ok) {
+        setVersions(historyData.data || []);
+      }
+      if (schedulesResponse.ok) {
+        setSchedules(schedulesData.data || []);
+      }
+      if (requestsResponse.ok) {
+        setLatestRequest(requestsData.data?.[0] ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch publish history:", error);
+    }
 
     setLoading(false);
   };
 
+  const handleOpenPublish = async () => {
+    if (!siteSlug) return;
+    setPublishDialogOpen(true);
+    setPendingDiff(null);
+    setLoadingDiff(true);
+
+    try {
+      const response = await fetch(`/api/client/sites/${siteSlug}/publish-history/diff?to=draft`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setPendingDiff(data.data?.diff ?? null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch changes:", error);
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const handleRequestPublish = async () => {
+    if (!siteSlug) return;
+    setPublishing(true);
+
+    try {
+      const response = await fetch(`/api/client/sites/${siteSlug}/publish-requests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: publishNotes }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to submit request");
+      }
+
+      toast.success("Changes submitted for approval");
+      setPublishDialogOpen(false);
+      setPublishNotes("");
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to submit request");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
   const handlePublish = async () => {
     if (!siteSlug) return;
+    if (scheduleLater && !scheduledAt) {
+      toast.error("Choose when to publish");
+      return;
+    }
     setPublishing(true);
 
     try {
       const response = await fetch(`/api/client/sites/${siteSlug}/publish`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ notes: publishNotes }),
+        body: JSON.stringify({
+          notes: publishNotes,
+          // datetime-local is in the browser's timezone; send it as an absolute time
+          scheduled_at: scheduleLater ? new Date(scheduledAt).toISOString() : undefined,
+        }),
       });
 
       if (!response.ok) {
@@ -114,9 +220,11 @@ export default function PublishPage() {
         throw new Error(data.error || "Failed to publish");
       }
 
-      toast.success("Changes published successfully!");
+      toast.success(scheduleLater ? "Publish scheduled" : "Changes published successfully!");
       setPublishDialogOpen(false);
       setPublishNotes("");
+      setScheduleLater(false);
+      setScheduledAt("");
       fetchData();
     } catch (error: any) {
       toast.error(error.message || "Failed to publish");
@@ -125,6 +233,60 @@ export default function PublishPage() {
     }
   };
 
+  const handleRestore = async () => {
+    if (!siteSlug || !restoreVersion) return;
+    setRestoring(true);
+
+    try {
+      const response = await fetch(
+        `/api/client/sites/${siteSlug}/publish-history/${restoreVersion.version_number}/restore`,
+        { method: "POST" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to restore version");
+      }
+
+      toast.success(`Restored version ${restoreVersion.version_number}`);
+      setRestoreVersion(null);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleCancelSchedule = async () => {
+    if (!siteSlug || !cancelSchedule) return;
+    setCancelling(true);
+
+    try {
+      const response = await fetch(
+        `/api/client/sites/${siteSlug}/scheduled-publishes/${cancelSchedule.id}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel scheduled publish");
+      }
+
+      toast.success("Scheduled publish cancelled");
+      setCancelSchedule(null);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel scheduled publish");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Clients without publish rights submit their changes for approval instead
+  const requestMode = !canPublish && canRequestPublish;
+  const hasPendingRequest = latestRequest?.status === "pending";
+
   if (loading) return <LoadingPage />;
 
   if (!siteSlug || !site) {
@@ -140,13 +302,23 @@ export default function PublishPage() {
       <PageHeader title="Publish" description="Publish your changes to make them live">
         {canPublish && (
           <Button
-            onClick={() => setPublishDialogOpen(true)}
+            onClick={handleOpenPublish}
             className="bg-emerald-500 hover:bg-emerald-600"
           >
             <Rocket className="w-4 h-4 mr-2" />
             Publish Now
           </Button>
         )}
+        {requestMode && (
+          <Button
+            onClick={handleOpenPublish}
+            disabled={hasPendingRequest}
+            className="bg-emerald-500 hover:bg-emerald-600"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Request Publish
+          </Button>
+        )}
       </PageHeader>
 
       {/* Current Status */}
@@ -177,7 +349,59 @@ export default function PublishPage() {
         </div>
       </div>
 
-      {!canPublish && (
+      {/* Publish Request Status */}
+      {latestRequest && (requestMode || hasPendingRequest) && (
+        <div
+          className={`rounded-2xl p-6 mb-8 border ${
+            latestRequest.status === "pending"
+              ? "bg-blue-500/10 border-blue-500/20"
+              : latestRequest.status === "approved"
+              ? "bg-emerald-500/10 border-emerald-500/20"
+              : "bg-red-500/10 border-red-500/20"
+          }`}
+        >
+          <div className="flex items-start gap-4">
+            {latestRequest.status === "pending" ? (
+              <Clock className="w-6 h-6 text-blue-400 flex-shrink-0" />
+            ) : latestRequest.status === "approved" ? (
+              <CheckCircle className="w-6 h-6 text-emerald-400 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-6 h-6 text-red-400 flex-shrink-0" />
+            )}
+            <div>
+              <h3
+                className={`font-semibold ${
+                  latestRequest.status === "pending"
+                    ? "text-blue-400"
+                    : latestRequest.status === "approved"
+                    ? "text-emerald-400"
+                    : "text-red-400"
+                }`}
+              >
+                {latestRequest.status === "pending"
+                  ? "Awaiting Approval"
+                  : latestRequest.status === "approved"
+                  ? "Request Approved"
+                  : "Request Rejected"}
+              </h3>
+              <p className="text-slate-400 text-sm mt-1">
+                {latestRequest.status === "pending"
+                  ? `Submitted ${new Date(latestRequest.created_at).toLocaleString()}. Your administrator will review your changes as they were then - edits since then need another request.`
+                  : `Reviewed ${new Date(
+                      latestRequest.reviewed_at || latestRequest.created_at
+                    ).toLocaleString()}`}
+              </p>
+              {latestRequest.review_comment && (
+                <p className="text-slate-300 text-sm mt-2 whitespace-pre-wrap">
+                  {latestRequest.review_comment}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!canPublish && !canRequestPublish && (
         <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-6 mb-8">
           <div className="flex items-start gap-4">
             <AlertCircle className="w-6 h-6 text-yellow-400 flex-shrink-0" />
@@ -192,6 +416,45 @@ export default function PublishPage() {
         </div>
       )}
 
+      {/* Scheduled Publishes */}
+      {schedules.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl mb-8">
+          <div className="p-4 border-b border-slate-800">
+            <h3 className="font-semibold text-white">Scheduled</h3>
+          </div>
+          <div className="divide-y divide-slate-800">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="w-10 h-10 bg-blue-500/10 rounded-lg flex items-center justify-center">
+                    <CalendarClock className="w-5 h-5 text-blue-400" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-white">
+                      {new Date(schedule.scheduled_at).toLocaleString()}
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      {schedule.notes || "Publishes the content as it is at that time"}
+                    </p>
+                  </div>
+                </div>
+                {canPublish && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-slate-700"
+                    onClick={() => setCancelSchedule(schedule)}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Publish History */}
       <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
         <div className="p-4 border-b border-slate-800">
@@ -212,10 +475,21 @@ export default function PublishPage() {
                       {version.notes || `Version ${version.version_number}`}
                     </p>
                     <p className="text-sm text-slate-500">
-                      {new Date(version.published_at).toLocaleString()}
+                      {new Date(version.created_at).toLocaleString()}
                     </p>
                   </div>
                 </div>
+                {canPublish && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="border-slate-700"
+                    onClick={() => setRestoreVersion(version)}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
               </div>
             ))
           ) : (
@@ -226,15 +500,56 @@ export default function PublishPage() {
         </div>
       </div>
 
+      {/* Restore Confirmation Dialog */}
+      <ConfirmDialog
+        open={restoreVersion !== null}
+        onOpenChange={(open) => !open && setRestoreVersion(null)}
+        title={`Restore version ${restoreVersion?.version_number ?? ""}`}
+        description="This replaces your current content with this version and publishes it immediately."
+        confirmText={restoring ? "Restoring..." : "Restore"}
+        onConfirm={handleRestore}
+        loading={restoring}
+      />
+
+      {/* Cancel Schedule Confirmation Dialog */}
+      <ConfirmDialog
+        open={cancelSchedule !== null}
+        onOpenChange={(open) => !open && setCancelSchedule(null)}
+        title="Cancel scheduled publish"
+        description={`The publish scheduled for ${
+          cancelSchedule ? new Date(cancelSchedule.scheduled_at).toLocaleString() : ""
+        } will not run.`}
+        confirmText={cancelling ? "Cancelling..." : "Cancel Publish"}
+        onConfirm={handleCancelSchedule}
+        loading={cancelling}
+      />
+
       {/* Publish Confirmation Dialog */}
       <Dialog open={publishDialogOpen} onOpenChange={setPublishDialogOpen}>
-        <DialogContent className="bg-slate-900 border-slate-800">
+        <DialogContent className="bg-slate-900 border-slate-800 max-w-lg">
           <DialogHeader>
-            <DialogTitle className="text-white">Publish Changes</DialogTitle>
+            <DialogTitle className="text-white">
+              {requestMode ? "Request Publish" : "Publish Changes"}
+            </DialogTitle>
             <DialogDescription className="text-slate-400">
-              This will make all your changes live on your website.
+              {requestMode
+                ? "Your administrator will review these changes before they go live."
+                : "This will make all your changes live on your website."}
             </DialogDescription>
           </DialogHeader>
+          <div className="max-h-[40vh] overflow-y-auto bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+            {loadingDiff ? (
+              <div className="py-4 text-center">
+                <Loader2 className="w-5 h-5 animate-spin mx-auto text-slate-400" />
+              </div>
+            ) : pendingDiff ? (
+              <PublishDiff diff={pendingDiff} />
+            ) : (
+              <p className="text-sm text-slate-500 text-center py-4">
+                Unable to load pending changes.
+              </p>
+            )}
+          </div>
           <div>
             <Label className="text-slate-300">Publish Notes (optional)</Label>
             <Textarea
@@ -244,6 +559,27 @@ export default function PublishPage() {
               placeholder="What changed in this update?"
             />
           </div>
+          {!requestMode && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-slate-300">Schedule for later</Label>
+                  <p className="text-sm text-slate-500">
+                    Content is captured when the scheduled time arrives
+                  </p>
+                </div>
+                <Switch checked={scheduleLater} onCheckedChange={setScheduleLater} />
+              </div>
+              {scheduleLater && (
+                <Input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  className="bg-slate-800 border-slate-700 text-white"
+                />
+              )}
+            </div>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -253,14 +589,28 @@ export default function PublishPage() {
               Cancel
             </Button>
             <Button
-              onClick={handlePublish}
+              onClick={requestMode ? handleRequestPublish : handlePublish}
               disabled={publishing}
               className="bg-emerald-500 hover:bg-emerald-600"
             >
-              {publishing ? (
+              {requestMode ? (
+                <>
+                  {publishing ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4 mr-2" />
+                  )}
+                  Submit for Approval
+                </>
+              ) : publishing ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Publishing...
+                  {scheduleLater ? "Scheduling..." : "Publishing..."}
+                </>
+              ) : scheduleLater ? (
+                <>
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  Schedule
                 </>
               ) : (
                 <>
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { PageHeader } from "@/components/shared/page-header";
+import { LoadingPage } from "@/components/shared/loading";
+import { TrashList } from "@/components/shared/trash-list";
+
+export default function TrashPage() {
+  const [loading, setLoading] = useState(true);
+  const [siteSlug, setSiteSlug] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSite();
+  }, []);
+
+  const fetchSite = async () => {
+    const supabase = createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: site } = await supabase
+      .from("sites")
+      .select("slug")
+      .eq("client_id", user.id)
+      .single();
+
+    if (site) setSiteSlug(site.slug);
+    setLoading(false);
+  };
+
+  if (loading) return <LoadingPage />;
+
+  if (!siteSlug) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-slate-400">No site assigned to your account.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Trash"
+        description="Restore collection items you deleted"
+      />
+
+      <TrashList trashUrl={`/api/client/sites/${siteSlug}/trash`} />
+    </div>
+  );
+}
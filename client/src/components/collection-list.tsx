@@ -173,9 +173,77 @@ export function useCollectionGrouped<T extends CollectionItem>(
   );
 }
 
+/**
+ * Groups collection items by a reference field, in the order of the
+ * referenced collection. Items referencing several groups appear in each;
+ * items with no (visible) reference end up in a last group with `group: null`.
+ *
+ * @param key - The collection key
+ * @param groupBy - The reference field to group by
+ * @param groupCollection - The collection the field references
+ *
+ * @example
+ * function MenuByCategory() {
+ *   const groups = useCollectionGroupedByReference<MenuItem, Category>(
+ *     'menu_items',
+ *     'category',
+ *     'menu_categories'
+ *   );
+ *
+ *   return groups.map(({ group, items }) => (
+ *     <section key={group?.id ?? 'other'}>
+ *       <h2>{group?.name ?? 'Other'}</h2>
+ *       {items.map(item => <MenuItem key={item.id} {...item} />)}
+ *     </section>
+ *   ));
+ * }
+ */
+export function useCollectionGroupedByReference<
+  T extends CollectionItem,
+  G extends CollectionItem = CollectionItem,
+>(key: string, groupBy: keyof T, groupCollection: string): Array<{ group: G | null; items: T[] }> {
+  const items = useCollection<T>(key);
+  const groups = useCollection<G>(groupCollection);
+
+  const byGroup = new Map<string, T[]>(groups.map((group) => [group.id, []]));
+  const ungrouped: T[] = [];
+
+  for (const item of items) {
+    const value = item[groupBy];
+    const ids = (Array.isArray(value) ? value : [value]).map(String).filter((id) => byGroup.has(id));
+
+    if (ids.length === 0) {
+      ungrouped.push(item);
+    }
+    for (const id of ids) {
+      byGroup.get(id)!.push(item);
+    }
+  }
+
+  const result: Array<{ group: G | null; items: T[] }> = groups
+    .map((group) => ({ group, items: byGroup.get(group.id)! }))
+    .filter((entry) => entry.items.length > 0);
+
+  if (ungrouped.length > 0) {
+    result.push({ group: null, items: ungrouped });
+  }
+
+  return result;
+}
+
+// Display name of a referenced group item
+function groupLabel(group: CollectionItem | null): string {
+  if (!group) return 'Other';
+  return String(group.name ?? group.title ?? group.label ?? group.id);
+}
+
 /**
  * Renders a grouped collection with section headers.
  *
+ * Pass `groupCollection` when `groupBy` is a reference field: groups then
+ * follow that collection's order and `renderGroupHeader` also receives the
+ * referenced item.
+ *
  * @example
  * <GroupedCollectionList<MenuItem>
  *   collectionKey="menu_items"
@@ -186,10 +254,26 @@ export function useCollectionGrouped<T extends CollectionItem>(
  *   )}
  *   className="grid grid-cols-2 gap-4"
  * />
+ *
+ * @example
+ * // Grouped by a reference to the menu_categories collection
+ * <GroupedCollectionList<MenuItem, Category>
+ *   collectionKey="menu_items"
+ *   groupBy="category"
+ *   groupCollection="menu_categories"
+ *   renderItem={(item) => <MenuItem key={item.id} {...item} />}
+ *   renderGroupHeader={(groupName, items, category) => (
+ *     <h2 className="text-xl font-bold mt-8 mb-4">{category?.name ?? groupName}</h2>
+ *   )}
+ * />
  */
-export function GroupedCollectionList<T extends CollectionItem>({
+export function GroupedCollectionList<
+  T extends CollectionItem,
+  G extends CollectionItem = CollectionItem,
+>({
   collectionKey,
   groupBy,
+  groupCollection,
   renderItem,
   renderGroupHeader,
   className,
@@ -198,26 +282,45 @@ export function GroupedCollectionList<T extends CollectionItem>({
 }: {
   collectionKey: string;
   groupBy: keyof T;
+  groupCollection?: string;
   renderItem: (item: T, index: number) => ReactNode;
-  renderGroupHeader?: (groupName: string, items: T[]) => ReactNode;
+  renderGroupHeader?: (groupName: string, items: T[], group: G | null) => ReactNode;
   className?: string;
   groupClassName?: string;
   emptyMessage?: string;
 }) {
   const grouped = useCollectionGrouped<T>(collectionKey, groupBy);
-  const groupNames = Object.keys(grouped);
+  const referenceGroups = useCollectionGroupedByReference<T, G>(
+    collectionKey,
+    groupBy,
+    groupCollection ?? ''
+  );
+
+  const sections = groupCollection
+    ? referenceGroups.map(({ group, items }) => ({
+        key: group?.id ?? '',
+        name: groupLabel(group),
+        items,
+        group,
+      }))
+    : Object.entries(grouped).map(([name, items]) => ({
+        key: name,
+        name,
+        items,
+        group: null,
+      }));
 
-  if (groupNames.length === 0) {
+  if (sections.length === 0) {
     return <p className="text-muted-foreground">{emptyMessage}</p>;
   }
 
   return (
     <div className={cn(className)}>
-      {groupNames.map((groupName) => (
-        <div key={groupName}>
-          {renderGroupHeader?.(groupName, grouped[groupName])}
+      {sections.map((section) => (
+        <div key={section.key}>
+          {renderGroupHeader?.(section.name, section.items, section.group)}
           <div className={cn(groupClassName)}>
-            {grouped[groupName].map((item, index) => renderItem(item, index))}
+            {section.items.map((item, index) => renderItem(item, index))}
           </div>
         </div>
       ))}
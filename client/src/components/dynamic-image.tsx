@@ -1,7 +1,49 @@
-import { useState, type ImgHTMLAttributes } from 'react';
+import { useEffect, useState, type ImgHTMLAttributes } from 'react';
 import { useContent } from './content-provider';
 import { cn } from '@/lib/utils';
 import { Skeleton } from './loading-skeleton';
+import type { ImageData } from '@/lib/portal-content';
+
+/**
+ * CSS position that keeps an image's focal point in view when it's cropped
+ * by `object-fit: cover` or `background-size: cover`
+ */
+function focalPosition(image: ImageData | null | undefined): string | undefined {
+  const point = image?.focal_point;
+  return point ? `${point.x * 100}% ${point.y * 100}%` : undefined;
+}
+
+/**
+ * URL of the widest WebP variant - the whole (cropped) image at no more than 1920px
+ */
+function largestVariant(image: ImageData | null | undefined): string | undefined {
+  const candidates = image?.srcset?.webp.split(', ');
+  return candidates?.[candidates.length - 1]?.split(' ')[0];
+}
+
+/**
+ * CSS `background-image` value of an image's placeholder, blurred by an SVG
+ * filter so it can sit behind the image without a wrapper element
+ * The blur is kept inside the edges, and the SVG has the image's aspect ratio
+ * so `cover` lines it up with the image.
+ */
+function placeholderBackground(image: ImageData | null | undefined): string | undefined {
+  if (!image?.placeholder) return undefined;
+
+  const width = 40;
+  const height =
+    image.width && image.height
+      ? Math.max(1, Math.round((width * image.height) / image.width))
+      : width;
+  const svg =
+    `<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 ${width} ${height}'>` +
+    `<filter id='b' color-interpolation-filters='sRGB'><feGaussianBlur stdDeviation='2'/>` +
+    `<feComponentTransfer><feFuncA type='discrete' tableValues='1 1'/></feComponentTransfer></filter>` +
+    `<image width='100%' height='100%' preserveAspectRatio='none' filter='url(#b)' href='${image.placeholder.lqip}'/>` +
+    `</svg>`;
+
+  return `url("data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}")`;
+}
 
 interface DynamicImageProps
   extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'alt'> {
@@ -13,15 +55,25 @@ interface DynamicImageProps
   fallbackAlt?: string;
   /** Additional CSS classes */
   className?: string;
-  /** Show skeleton while image loads */
+  /** Show the image's blurred placeholder behind it while it loads (default true) */
+  showPlaceholder?: boolean;
+  /** Show skeleton while image loads, for images without a placeholder */
   showLoadingSkeleton?: boolean;
   /** Skeleton className for loading state */
   skeletonClassName?: string;
+  /** Rendered width of the image for picking a variant, e.g. "(min-width: 768px) 50vw, 100vw" */
+  sizes?: string;
 }
 
 /**
  * Renders an image from the portal.
  * Automatically looks up the image by key and uses portal-provided alt text.
+ * Uploads with resized variants are served as AVIF/WebP through `srcset`, and
+ * the intrinsic size is set so the layout doesn't shift while loading.
+ * The site owner's focal point becomes the `object-position`, so `object-cover`
+ * keeps it in view.
+ * Until the image has loaded and decoded, a blurred preview in its dominant
+ * color is shown behind it.
  *
  * @example
  * // Basic usage
@@ -37,6 +89,10 @@ interface DynamicImageProps
  * />
  *
  * @example
+ * // Half-width on desktop - the browser picks the smallest variant that fits
+ * <DynamicImage imageKey="about_photo" sizes="(min-width: 768px) 50vw, 100vw" />
+ *
+ * @example
  * // With loading skeleton
  * <DynamicImage
  *   imageKey="product_image"
@@ -49,8 +105,11 @@ export function DynamicImage({
   fallbackSrc,
   fallbackAlt = '',
   className,
+  showPlaceholder = true,
   showLoadingSkeleton = false,
   skeletonClassName,
+  sizes = '100vw',
+  style,
   ...props
 }: DynamicImageProps) {
   const { content } = useContent();
@@ -71,26 +130,62 @@ export function DynamicImage({
     return null;
   }
 
+  // Size and variants only belong to the portal image, not the fallback
+  const shown = !hasError && image?.url ? image : null;
+  const srcset = shown?.srcset;
+  const placeholder = showPlaceholder && isLoading ? shown?.placeholder : null;
+  const skeleton = showLoadingSkeleton && isLoading && !placeholder;
+
+  const img = (
+    <img
+      src={hasError && fallbackSrc ? fallbackSrc : src}
+      alt={alt}
+      width={shown?.width ?? undefined}
+      height={shown?.height ?? undefined}
+      style={{
+        objectPosition: focalPosition(shown),
+        ...(placeholder && {
+          backgroundColor: placeholder.color,
+          backgroundImage: placeholderBackground(shown),
+          backgroundSize: 'cover',
+          backgroundPosition: focalPosition(shown) ?? 'center',
+        }),
+        ...style,
+      }}
+      className={cn(
+        className,
+        skeleton && 'hidden'
+      )}
+      loading="lazy"
+      // Keep the placeholder until the image can be painted
+      onLoad={(e) =>
+        e.currentTarget
+          .decode()
+          .catch(() => undefined)
+          .finally(() => setIsLoading(false))
+      }
+      onError={() => {
+        setIsLoading(false);
+        setHasError(true);
+      }}
+      {...props}
+    />
+  );
+
   return (
     <>
-      {showLoadingSkeleton && isLoading && (
+      {skeleton && (
         <Skeleton className={cn(className, skeletonClassName)} />
       )}
-      <img
-        src={hasError && fallbackSrc ? fallbackSrc : src}
-        alt={alt}
-        className={cn(
-          className,
-          showLoadingSkeleton && isLoading && 'hidden'
-        )}
-        loading="lazy"
-        onLoad={() => setIsLoading(false)}
-        onError={() => {
-          setIsLoading(false);
-          setHasError(true);
-        }}
-        {...props}
-      />
+      {srcset ? (
+        <picture>
+          <source type="image/avif" srcSet={srcset.avif} sizes={sizes} />
+          <source type="image/webp" srcSet={srcset.webp} sizes={sizes} />
+          {img}
+        </picture>
+      ) : (
+        img
+      )}
     </>
   );
 }
@@ -127,6 +222,8 @@ export function useImage(key: string) {
 /**
  * Renders a background image from the portal.
  * Useful for hero sections or decorative backgrounds.
+ * Uses the cropped, resized variant when there is one, positioned on the
+ * focal point. The blurred placeholder shows underneath until it has loaded.
  *
  * @example
  * <DynamicBackgroundImage
@@ -155,14 +252,37 @@ export function DynamicBackgroundImage({
 } & React.HTMLAttributes<HTMLDivElement>) {
   const { content } = useContent();
   const image = content.images[imageKey];
-  const src = image?.url ?? fallbackSrc;
+  const src = largestVariant(image) ?? image?.url ?? fallbackSrc;
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  // Same URL as the background, so the browser fetches it once
+  useEffect(() => {
+    if (!src) return;
+    let active = true;
+    const preload = new Image();
+    preload.src = src;
+    preload
+      .decode()
+      .catch(() => undefined)
+      .finally(() => active && setLoadedSrc(src));
+    return () => {
+      active = false;
+    };
+  }, [src]);
+
+  const placeholder = src && src !== loadedSrc && image?.url ? image.placeholder : null;
+  const layers = [src && `url(${src})`, placeholder && placeholderBackground(image)].filter(
+    Boolean
+  );
 
   return (
     <div
       className={cn(className)}
       style={{
+        backgroundPosition: focalPosition(image),
+        ...(placeholder && { backgroundColor: placeholder.color }),
         ...style,
-        backgroundImage: src ? `url(${src})` : undefined,
+        backgroundImage: layers.length > 0 ? layers.join(', ') : undefined,
       }}
       role={image?.alt ? 'img' : undefined}
       aria-label={image?.alt || undefined}
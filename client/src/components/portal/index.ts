@@ -45,6 +45,7 @@ export {
   GroupedCollectionList,
   useCollection,
   useCollectionGrouped,
+  useCollectionGroupedByReference,
 } from '../collection-list';
 
 // Business Info Components
@@ -80,6 +81,12 @@ export type {
   Address,
   CollectionItem,
   ImageData,
+  PriceValue,
+  CollectionQuery,
+  CollectionPage,
+  Reference,
+  ReferenceKeys,
+  Expanded,
 } from '@/lib/portal-content';
 
 // Hooks from use-portal-content (for use outside ContentProvider)
@@ -1,12 +1,47 @@
 import { useQuery } from '@tanstack/react-query';
 import {
   fetchPortalContent,
+  fetchPortalText,
+  fetchPortalCollection,
+  fetchPortalImage,
+  PortalApiError,
+  type CollectionQuery,
+  type CollectionPage,
   type SiteContent,
   type CollectionItem,
+  type Expanded,
+  type ReferenceKeys,
   type ImageData,
   type BusinessInfo,
 } from '@/lib/portal-content';
 
+const QUERY_OPTIONS = {
+  staleTime: 1000 * 60 * 5, // 5 minutes - content is fresh
+  gcTime: 1000 * 60 * 30, // 30 minutes - keep in cache (formerly cacheTime)
+  retry: 2, // Retry failed requests twice
+  refetchOnWindowFocus: false, // Don't refetch when tab gains focus
+};
+
+export interface PartialContentOptions {
+  /**
+   * Fetch only this key from its own endpoint instead of the full site
+   * content. Useful on pages that need a few values from a large site.
+   */
+  partial?: boolean;
+}
+
+/**
+ * Resolves to null when the portal has no such key, so hooks can fall back.
+ */
+function nullIfNotFound<T>(promise: Promise<T>): Promise<T | null> {
+  return promise.catch((error) => {
+    if (error instanceof PortalApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  });
+}
+
 /**
  * Main hook for fetching portal content with TanStack Query.
  *
@@ -20,14 +55,12 @@ import {
  *   return <div>{data.business?.business_name}</div>;
  * }
  */
-export function usePortalContent() {
+export function usePortalContent(options: { enabled?: boolean } = {}) {
   return useQuery<SiteContent>({
     queryKey: ['portal-content'],
     queryFn: fetchPortalContent,
-    staleTime: 1000 * 60 * 5, // 5 minutes - content is fresh
-    gcTime: 1000 * 60 * 30, // 30 minutes - keep in cache (formerly cacheTime)
-    retry: 2, // Retry failed requests twice
-    refetchOnWindowFocus: false, // Don't refetch when tab gains focus
+    enabled: options.enabled ?? true,
+    ...QUERY_OPTIONS,
   });
 }
 
@@ -56,14 +89,36 @@ export function useBusinessInfo() {
  *
  * @param key - The text content key (e.g., 'hero_headline')
  * @param fallback - Default value if key doesn't exist
+ * @param options.partial - Fetch only this value instead of the full content
  *
  * @example
  * const { text, isLoading } = useText('hero_headline', 'Welcome');
+ *
+ * @example
+ * // Load just this value
+ * const { text } = useText('hero_headline', 'Welcome', { partial: true });
  */
-export function useText(key: string, fallback: string = '') {
-  const { data, ...rest } = usePortalContent();
+export function useText(
+  key: string,
+  fallback: string = '',
+  options: PartialContentOptions = {}
+) {
+  const partial = options.partial ?? false;
+  const full = usePortalContent({ enabled: !partial });
+  const single = useQuery<string | null>({
+    queryKey: ['portal-content', 'text', key],
+    queryFn: () => nullIfNotFound(fetchPortalText(key)),
+    enabled: partial,
+    ...QUERY_OPTIONS,
+  });
+
+  const { data, ...rest } = partial ? single : full;
+  const text = partial
+    ? (data as string | null | undefined)
+    : (data as SiteContent | undefined)?.text?.[key];
+
   return {
-    text: data?.text?.[key] ?? fallback,
+    text: text ?? fallback,
     ...rest,
   } as { text: string } & Omit<ReturnType<typeof usePortalContent>, 'data'>;
 }
@@ -71,25 +126,75 @@ export function useText(key: string, fallback: string = '') {
 /**
  * Hook to get a collection by key.
  *
+ * Passing `partial` or any of `limit`, `offset`, `fields`, `filter` or
+ * `expand` loads the collection from its own endpoint instead of the full site
+ * content; `total` is then the number of matching items before pagination.
+ *
  * @param key - The collection key (e.g., 'menu_items')
  *
  * @example
  * interface MenuItem { id: string; name: string; price: string; }
  * const { items, isLoading } = useCollection<MenuItem>('menu_items');
  * items.map(item => <MenuItem key={item.id} {...item} />);
+ *
+ * @example
+ * // First 10 pizzas, without loading the rest of the site
+ * const { items, total } = useCollection<MenuItem>('menu_items', {
+ *   filter: { category: 'Pizza' },
+ *   limit: 10,
+ * });
+ *
+ * @example
+ * // Reference fields typed with Reference<Category> come back as Category
+ * const { items } = useCollection<MenuItem, 'category'>('menu_items', {
+ *   expand: ['category'],
+ * });
+ * items.map(item => item.category?.name);
  */
-export function useCollection<T extends CollectionItem>(key: string) {
-  const { data, ...rest } = usePortalContent();
+export function useCollection<T extends CollectionItem, K extends ReferenceKeys<T> = never>(
+  key: string,
+  options: PartialContentOptions & CollectionQuery<K> = {}
+) {
+  const { partial: partialOption, ...query } = options;
+  const partial =
+    (partialOption ?? false) ||
+    query.limit !== undefined ||
+    query.offset !== undefined ||
+    query.fields !== undefined ||
+    query.filter !== undefined ||
+    query.expand !== undefined;
+
+  const full = usePortalContent({ enabled: !partial });
+  const page = useQuery({
+    queryKey: ['portal-content', 'collections', key, query],
+    queryFn: () => nullIfNotFound(fetchPortalCollection<T, K>(key, query)),
+    enabled: partial,
+    ...QUERY_OPTIONS,
+  });
+
+  const { data, ...rest } = partial ? page : full;
+  const collection = partial
+    ? (data as CollectionPage<Expanded<T, K>> | null | undefined)
+    : undefined;
+  const items = partial
+    ? collection?.items ?? []
+    : (((data as SiteContent | undefined)?.collections?.[key] ?? []) as unknown as Expanded<T, K>[]);
+
   return {
-    items: (data?.collections?.[key] ?? []) as T[],
+    items,
+    total: partial ? collection?.total ?? 0 : items.length,
     ...rest,
-  } as { items: T[] } & Omit<ReturnType<typeof usePortalContent>, 'data'>;
+  } as { items: Expanded<T, K>[]; total: number } & Omit<
+    ReturnType<typeof usePortalContent>,
+    'data'
+  >;
 }
 
 /**
  * Hook to get an image by key.
  *
  * @param key - The image key (e.g., 'hero_background')
+ * @param options.partial - Fetch only this image instead of the full content
  *
  * @example
  * const { image, isLoading } = useImage('hero_background');
@@ -97,10 +202,23 @@ export function useCollection<T extends CollectionItem>(key: string) {
  *   return <img src={image.url} alt={image.alt || ''} />;
  * }
  */
-export function useImage(key: string) {
-  const { data, ...rest } = usePortalContent();
+export function useImage(key: string, options: PartialContentOptions = {}) {
+  const partial = options.partial ?? false;
+  const full = usePortalContent({ enabled: !partial });
+  const single = useQuery<ImageData | null>({
+    queryKey: ['portal-content', 'images', key],
+    queryFn: () => nullIfNotFound(fetchPortalImage(key)),
+    enabled: partial,
+    ...QUERY_OPTIONS,
+  });
+
+  const { data, ...rest } = partial ? single : full;
+  const image = partial
+    ? (data as ImageData | null | undefined)
+    : (data as SiteContent | undefined)?.images?.[key];
+
   return {
-    image: data?.images?.[key] ?? null,
+    image: image ?? null,
     ...rest,
   } as { image: ImageData | null } & Omit<
     ReturnType<typeof usePortalContent>,
@@ -43,6 +43,75 @@ export interface CollectionItem {
 export interface ImageData {
   url: string | null;
   alt: string | null;
+  /** Pixel size of the upload, null for images uploaded before sizes were recorded */
+  width: number | null;
+  height: number | null;
+  /** `srcset` values of the resized variants per format, or null if there are none */
+  srcset: { avif: string; webp: string } | null;
+  /** Point to keep in view as fractions (0-1) of the shown image, e.g. for `object-position` */
+  focal_point: { x: number; y: number } | null;
+  /**
+   * Area of the original `url` the site owner cropped to, as fractions. The
+   * size, `srcset` and focal point already describe the cropped image.
+   */
+  crop: { x: number; y: number; width: number; height: number } | null;
+  /**
+   * Stand-in while the image loads: `lqip` is a data URL of a tiny WebP of the
+   * shown image, meant to be blurred, and `color` its dominant color. Null for
+   * images uploaded before placeholders existed.
+   */
+  placeholder: { lqip: string; color: string } | null;
+}
+
+/**
+ * Value of a reference field: the id of an item in another collection, or
+ * that item itself when the field is expanded. `T` is the referenced item.
+ *
+ * @example
+ * interface Category { id: string; name: string; }
+ * interface MenuItem { id: string; name: string; category: Reference<Category>; }
+ */
+export type Reference<T extends CollectionItem = CollectionItem> = string & {
+  readonly [referenceTo]: T;
+};
+
+// Type-only brand that tells references apart from plain strings
+declare const referenceTo: unique symbol;
+
+// Declared keys of T, without its index signature
+type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
+/**
+ * Keys of `T` that hold single or multiple references
+ */
+export type ReferenceKeys<T> = {
+  [K in KnownKeys<T>]-?: NonNullable<T[K]> extends Reference<any> | Reference<any>[] ? K : never;
+}[KnownKeys<T>] &
+  string;
+
+/**
+ * `T` with the reference fields `K` replaced by the referenced items.
+ * Single references to hidden or deleted items expand to null.
+ */
+export type Expanded<T, K extends keyof T = never> = {
+  [P in keyof T]: P extends K
+    ? NonNullable<T[P]> extends Reference<infer R>[]
+      ? R[]
+      : NonNullable<T[P]> extends Reference<infer R>
+        ? R | null
+        : T[P]
+    : T[P];
+};
+
+/**
+ * Value of a price field - amount is in minor units (cents)
+ */
+export interface PriceValue {
+  amount: number;
+  currency: string;
+  formatted: string;
 }
 
 /**
@@ -68,19 +137,70 @@ export class PortalApiError extends Error {
   }
 }
 
+const PREVIEW_STORAGE_KEY = 'portal-preview-token';
+
+// A preview token the API turned down (it expires after 15 minutes), so the
+// rest of the page load shows published content instead of failing
+let rejectedPreviewToken: string | null = null;
+
+// Last published response per URL and its ETag, reused when the portal answers 304
+interface CachedResponse<T> {
+  etag: string;
+  data: T;
+}
+
+const responseCache: Map<string, CachedResponse<unknown>> = new Map();
+
 /**
- * Fetches site content from the portal API.
+ * Returns the draft preview token for this browser session, if any.
  *
- * Requires the following environment variables:
- * - VITE_PORTAL_API_URL: Base URL of the portal API
- * - VITE_SITE_SLUG: The site's slug identifier
- * - VITE_PORTAL_API_KEY: API key for authentication
+ * The portal dashboard opens the site with `?preview=<token>`. The token is
+ * kept in sessionStorage so it survives navigation between pages, until the
+ * API rejects it.
+ */
+export function getPreviewToken(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  const fromUrl = new URLSearchParams(window.location.search).get('preview');
+  let token = fromUrl;
+
+  try {
+    if (fromUrl) {
+      window.sessionStorage.setItem(PREVIEW_STORAGE_KEY, fromUrl);
+    } else {
+      token = window.sessionStorage.getItem(PREVIEW_STORAGE_KEY);
+    }
+  } catch {
+    // sessionStorage can be unavailable (e.g. blocked in sandboxed iframes)
+  }
+
+  return token && token !== rejectedPreviewToken ? token : null;
+}
+
+/**
+ * Stops sending a preview token the API rejected
+ */
+function dropPreviewToken(token: string): void {
+  rejectedPreviewToken = token;
+
+  try {
+    if (window.sessionStorage.getItem(PREVIEW_STORAGE_KEY) === token) {
+      window.sessionStorage.removeItem(PREVIEW_STORAGE_KEY);
+    }
+  } catch {
+    // Nothing stored
+  }
+}
+
+/**
+ * Sends an authenticated GET to the portal's public API for this site.
  *
- * @returns Promise<SiteContent> The site content from the portal
- * @throws PortalConfigError if environment variables are missing
- * @throws PortalApiError if the API returns an error response
+ * Preview tokens are forwarded so draft content is returned; if the API
+ * rejects one (it has expired), the request is retried without it. Published
+ * responses are fetched conditionally: once a URL has been fetched, later
+ * calls send its ETag and reuse the cached body if nothing changed.
  */
-export async function fetchPortalContent(): Promise<SiteContent> {
+async function portalRequest<T>(path: string, notFoundMessage: string): Promise<T> {
   const apiUrl = import.meta.env.VITE_PORTAL_API_URL;
   const siteSlug = import.meta.env.VITE_SITE_SLUG;
   const apiKey = import.meta.env.VITE_PORTAL_API_KEY;
@@ -95,21 +215,40 @@ export async function fetchPortalContent(): Promise<SiteContent> {
     );
   }
 
-  const response = await fetch(
-    `${apiUrl}/api/public/sites/${siteSlug}/content`,
-    {
-      headers: {
-        'x-api-key': apiKey,
-      },
-    }
-  );
+  const url = `${apiUrl}/api/public/sites/${siteSlug}${path}`;
+  const cached = responseCache.get(url) as CachedResponse<T> | undefined;
+
+  const headers: Record<string, string> = {
+    'x-api-key': apiKey,
+  };
+
+  const previewToken = getPreviewToken();
+  if (previewToken) {
+    headers['x-preview-token'] = previewToken;
+  } else if (cached) {
+    headers['If-None-Match'] = cached.etag;
+  }
+
+  const response = await fetch(url, {
+    headers,
+    // Draft content is never cached
+    cache: previewToken ? 'no-store' : 'default',
+  });
+
+  if (response.status === 304 && cached) {
+    return cached.data;
+  }
 
   if (!response.ok) {
+    if (response.status === 401 && previewToken) {
+      dropPreviewToken(previewToken);
+      return portalRequest(path, notFoundMessage);
+    }
     if (response.status === 401) {
       throw new PortalApiError('Invalid API key', 401);
     }
     if (response.status === 404) {
-      throw new PortalApiError('Site not found', 404);
+      throw new PortalApiError(notFoundMessage, 404);
     }
     throw new PortalApiError(
       `Failed to fetch content: ${response.status} ${response.statusText}`,
@@ -117,7 +256,115 @@ export async function fetchPortalContent(): Promise<SiteContent> {
     );
   }
 
-  return response.json();
+  const data: T = await response.json();
+
+  const etag = response.headers.get('etag');
+  if (!previewToken && etag) {
+    responseCache.set(url, { etag, data });
+  }
+
+  return data;
+}
+
+/**
+ * Fetches site content from the portal API.
+ *
+ * Requires the following environment variables:
+ * - VITE_PORTAL_API_URL: Base URL of the portal API
+ * - VITE_SITE_SLUG: The site's slug identifier
+ * - VITE_PORTAL_API_KEY: API key for authentication
+ *
+ * If the page was opened from the portal preview (`?preview=<token>`), the
+ * token is forwarded and the unpublished draft is returned instead.
+ *
+ * @returns Promise<SiteContent> The site content from the portal
+ * @throws PortalConfigError if environment variables are missing
+ * @throws PortalApiError if the API returns an error response
+ */
+export async function fetchPortalContent(): Promise<SiteContent> {
+  return portalRequest<SiteContent>('/content', 'Site not found');
+}
+
+/**
+ * Fetches a single text value without loading the rest of the site.
+ *
+ * @throws PortalApiError with status 404 if the key doesn't exist
+ */
+export async function fetchPortalText(key: string): Promise<string> {
+  const { value } = await portalRequest<{ key: string; value: string }>(
+    `/text/${encodeURIComponent(key)}`,
+    'Text content not found'
+  );
+  return value;
+}
+
+export interface CollectionQuery<K extends string = string> {
+  /** Maximum number of items to return (1-100) */
+  limit?: number;
+  /** Number of matching items to skip */
+  offset?: number;
+  /** Only return these item fields (the id is always included) */
+  fields?: string[];
+  /** Exact-match filters on item fields, e.g. `{ category: 'Pizza' }` */
+  filter?: Record<string, string>;
+  /** Reference fields to replace with the referenced items */
+  expand?: K[];
+}
+
+export interface CollectionPage<T = CollectionItem> {
+  key: string;
+  items: T[];
+  /** Number of items matching the filter, before limit/offset */
+  total: number;
+  limit: number | null;
+  offset: number;
+}
+
+/**
+ * Fetches one collection without loading the rest of the site.
+ *
+ * @example
+ * const { items, total } = await fetchPortalCollection<MenuItem>('menu_items', {
+ *   filter: { category: 'Pizza' },
+ *   limit: 10,
+ * });
+ *
+ * @example
+ * // Each item's category id replaced by the category item
+ * const { items } = await fetchPortalCollection<MenuItem, 'category'>('menu_items', {
+ *   expand: ['category'],
+ * });
+ */
+export async function fetchPortalCollection<
+  T extends CollectionItem = CollectionItem,
+  K extends ReferenceKeys<T> = never,
+>(key: string, query: CollectionQuery<K> = {}): Promise<CollectionPage<Expanded<T, K>>> {
+  const params = new URLSearchParams();
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  if (query.offset !== undefined) params.set('offset', String(query.offset));
+  if (query.fields?.length) params.set('fields', query.fields.join(','));
+  if (query.expand?.length) params.set('expand', query.expand.join(','));
+  for (const [field, value] of Object.entries(query.filter ?? {})) {
+    params.set(`filter[${field}]`, value);
+  }
+
+  const search = params.toString();
+  return portalRequest<CollectionPage<Expanded<T, K>>>(
+    `/collections/${encodeURIComponent(key)}${search ? `?${search}` : ''}`,
+    'Collection not found'
+  );
+}
+
+/**
+ * Fetches a single image without loading the rest of the site.
+ */
+export async function fetchPortalImage(key: string): Promise<ImageData> {
+  const { url, alt, width, height, srcset, focal_point, crop, placeholder } =
+    await portalRequest<{ key: string } & ImageData>(
+      `/images/${encodeURIComponent(key)}`,
+      'Image not found'
+    );
+  return { url, alt, width, height, srcset, focal_point, crop, placeholder };
 }
 
 /**
@@ -7,6 +7,7 @@ import {
   LayoutDashboard,
   Globe,
   Users,
+  ClipboardCheck,
   Settings,
   LogOut,
   ChevronRight,
@@ -17,6 +18,7 @@ const navItems = [
   { href: "/admin", label: "Dashboard", icon: LayoutDashboard, exact: true },
   { href: "/admin/sites", label: "Sites", icon: Globe },
   { href: "/admin/clients", label: "Clients", icon: Users },
+  { href: "/admin/publish-requests", label: "Approvals", icon: ClipboardCheck },
   { href: "/admin/settings", label: "Settings", icon: Settings },
 ];
 
@@ -0,0 +1,795 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2, Loader2, Undo2, Eye } from "lucide-react";
+
+const FIELD_TYPES = [
+  "text",
+  "textarea",
+  "rich_text",
+  "number",
+  "price",
+  "select",
+  "boolean",
+  "date",
+  "datetime",
+  "url",
+  "email",
+  "phone",
+  "color",
+  "image",
+  "multi_select",
+  "list",
+  "group",
+  "reference",
+] as const;
+
+const LIST_ITEM_TYPES = ["text", "number", "date", "url", "email", "phone", "color", "image"] as const;
+
+interface FieldSchema {
+  type: string;
+  label: string;
+  required?: boolean;
+  max_length?: number;
+  options?: string[];
+  placeholder?: string;
+  currency?: string;
+  item_type?: string;
+  fields?: Record<string, FieldSchema>;
+  repeatable?: boolean;
+  min_items?: number;
+  max_items?: number;
+  collection?: string;
+  multiple?: boolean;
+  on_delete?: "block" | "cascade";
+  max_file_size_kb?: number;
+}
+
+interface Collection {
+  id: string;
+  collection_key: string;
+  label: string;
+  item_schema: Record<string, FieldSchema>;
+}
+
+// Field being edited - originalKey tracks renames of existing fields
+interface EditableField {
+  originalKey: string | null;
+  key: string;
+  label: string;
+  type: string;
+  required: boolean;
+  options: string;
+  maxLength: string;
+  currency: string;
+  itemType: string;
+  repeatable: boolean;
+  maxItems: string;
+  // Group sub-schema, edited as JSON
+  subFields: string;
+  // Reference target collection and delete rule
+  collection: string;
+  multiple: boolean;
+  onDelete: "block" | "cascade";
+  maxFileSizeKb: string;
+  placeholder?: string;
+  minItems?: number;
+}
+
+type SchemaChange =
+  | { type: "add_field"; field: string; required: boolean }
+  | { type: "remove_field"; field: string }
+  | { type: "rename_field"; from: string; to: string }
+  | { type: "change_type"; field: string; from: string; to: string }
+  | { type: "make_required"; field: string }
+  | { type: "restrict_options"; field: string; removed: string[] }
+  | { type: "shorten_max_length"; field: string; max_length: number }
+  | { type: "change_group_fields"; field: string };
+
+interface MigrationPreview {
+  changes: SchemaChange[];
+  total_items: number;
+  items: {
+    id: string;
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+    errors: Record<string, string>;
+  }[];
+  can_apply: boolean;
+}
+
+interface SchemaMigration {
+  id: string;
+  changes: SchemaChange[];
+  affected_items: number;
+  status: "applied" | "undone";
+  undone_at: string | null;
+  created_at: string;
+}
+
+function toEditableFields(schema: Record<string, FieldSchema>): EditableField[] {
+  return Object.entries(schema || {}).map(([key, field]) => ({
+    originalKey: key,
+    key,
+    label: field.label,
+    type: field.type,
+    required: field.required ?? false,
+    options: (field.options ?? []).join(", "),
+    maxLength: field.max_length ? String(field.max_length) : "",
+    currency: field.currency ?? "",
+    itemType: field.item_type ?? "text",
+    repeatable: field.repeatable ?? false,
+    maxItems: field.max_items ? String(field.max_items) : "",
+    subFields: field.fields ? JSON.stringify(field.fields, null, 2) : "",
+    collection: field.collection ?? "",
+    multiple: field.multiple ?? false,
+    onDelete: field.on_delete ?? "block",
+    maxFileSizeKb: field.max_file_size_kb ? String(field.max_file_size_kb) : "",
+    placeholder: field.placeholder,
+    minItems: field.min_items,
+  }));
+}
+
+// Parse a group's sub-schema, or null if it isn't a JSON object
+function parseSubFields(json: string): Record<string, FieldSchema> | null {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const hasEntries = (field: EditableField) =>
+  field.type === "multi_select" ||
+  field.type === "list" ||
+  (field.type === "group" && field.repeatable) ||
+  (field.type === "reference" && field.multiple);
+
+function describeChange(change: SchemaChange): string {
+  switch (change.type) {
+    case "add_field":
+      return `Add ${change.required ? "required " : ""}field "${change.field}"`;
+    case "remove_field":
+      return `Remove field "${change.field}" and its values`;
+    case "rename_field":
+      return `Rename "${change.from}" to "${change.to}"`;
+    case "change_type":
+      return `Convert "${change.field}" from ${change.from} to ${change.to}`;
+    case "make_required":
+      return `Make "${change.field}" required`;
+    case "restrict_options":
+      return `Remove options ${change.removed.map((o) => `"${o}"`).join(", ")} from "${change.field}"`;
+    case "shorten_max_length":
+      return `Limit "${change.field}" to ${change.max_length} characters`;
+    case "change_group_fields":
+      return `Change the sub-fields of "${change.field}"`;
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function CollectionSchemaEditor({
+  siteId,
+  collection,
+  collectionKeys,
+  onOpenChange,
+  onSaved,
+}: {
+  siteId: string;
+  collection: Collection | null;
+  // Keys of the site's collections, for reference targets
+  collectionKeys: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const [fields, setFields] = useState<EditableField[]>([]);
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<MigrationPreview | null>(null);
+  const [migrations, setMigrations] = useState<SchemaMigration[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  // Undo dialog states
+  const [undoMigration, setUndoMigration] = useState<SchemaMigration | null>(null);
+  const [undoing, setUndoing] = useState(false);
+
+  const baseUrl = collection
+    ? `/api/admin/sites/${siteId}/collections/${collection.id}/schema-migrations`
+    : null;
+
+  const fetchMigrations = useCallback(async () => {
+    if (!baseUrl) return;
+
+    try {
+      const response = await fetch(baseUrl);
+      const data = await response.json();
+      if (response.ok) setMigrations(data.data || []);
+    } catch (error) {
+      console.error("Failed to fetch schema migrations:", error);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    if (!collection) return;
+    setFields(toEditableFields(collection.item_schema));
+    setDefaults({});
+    setPreview(null);
+    fetchMigrations();
+  }, [collection, fetchMigrations]);
+
+  // Any edit invalidates the preview
+  const updateField = (index: number, updates: Partial<EditableField>) => {
+    setFields((prev) => prev.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+    setPreview(null);
+  };
+
+  const addField = () => {
+    setFields((prev) => [
+      ...prev,
+      {
+        originalKey: null,
+        key: "",
+        label: "",
+        type: "text",
+        required: false,
+        options: "",
+        maxLength: "",
+        currency: "",
+        itemType: "text",
+        repeatable: false,
+        maxItems: "",
+        subFields: "",
+        collection: "",
+        multiple: false,
+        onDelete: "block",
+        maxFileSizeKb: "",
+      },
+    ]);
+    setPreview(null);
+  };
+
+  const removeField = (index: number) => {
+    setFields((prev) => prev.filter((_, i) => i !== index));
+    setPreview(null);
+  };
+
+  const buildRequest = () => {
+    const itemSchema: Record<string, FieldSchema> = {};
+    const renames: Record<string, string> = {};
+
+    for (const field of fields) {
+      const options = field.options
+        .split(",")
+        .map((option) => option.trim())
+        .filter(Boolean);
+
+      itemSchema[field.key] = {
+        type: field.type,
+        label: field.label,
+        ...(field.required && { required: true }),
+        ...(field.maxLength && { max_length: Number(field.maxLength) }),
+        ...((field.type === "select" || field.type === "multi_select") &&
+          options.length > 0 && { options }),
+        ...(field.type === "price" && field.currency && { currency: field.currency }),
+        ...(field.type === "list" && { item_type: field.itemType }),
+        ...(field.type === "group" && {
+          fields: parseSubFields(field.subFields) ?? {},
+          ...(field.repeatable && { repeatable: true }),
+        }),
+        ...(field.type === "reference" && {
+          collection: field.collection,
+          ...(field.multiple && { multiple: true }),
+          on_delete: field.onDelete,
+        }),
+        ...(field.type === "image" &&
+          field.maxFileSizeKb && { max_file_size_kb: Number(field.maxFileSizeKb) }),
+        ...(hasEntries(field) && field.minItems && { min_items: field.minItems }),
+        ...(hasEntries(field) && field.maxItems && { max_items: Number(field.maxItems) }),
+        ...(field.placeholder && { placeholder: field.placeholder }),
+      };
+
+      if (field.originalKey && field.originalKey !== field.key) {
+        renames[field.originalKey] = field.key;
+      }
+    }
+
+    const filledDefaults = Object.fromEntries(
+      Object.entries(defaults).filter(([key, value]) => value !== "" && key in itemSchema)
+    );
+
+    return { item_schema: itemSchema, renames, defaults: filledDefaults };
+  };
+
+  const handlePreview = async () => {
+    if (!baseUrl) return;
+    setPreviewing(true);
+
+    try {
+      const response = await fetch(`${baseUrl}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildRequest()),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to preview changes");
+      }
+
+      setPreview(data.data);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to preview changes");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!baseUrl) return;
+    setApplying(true);
+
+    try {
+      const response = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(buildRequest()),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to apply schema changes");
+      }
+
+      toast.success(
+        `Schema updated - ${data.data.affected_items} ${data.data.affected_items === 1 ? "item" : "items"} migrated`
+      );
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to apply schema changes");
+      setPreview(null);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!baseUrl || !undoMigration) return;
+    setUndoing(true);
+
+    try {
+      const response = await fetch(`${baseUrl}/${undoMigration.id}/undo`, { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to undo migration");
+      }
+
+      toast.success("Schema migration undone");
+      setUndoMigration(null);
+      onSaved();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to undo migration");
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  // Fields that need a value for some items to migrate
+  const fieldsNeedingDefaults = new Set([
+    ...(preview?.items.flatMap((item) => Object.keys(item.errors)) ?? []),
+    ...(preview?.changes.flatMap((change) =>
+      change.type === "add_field" && change.required ? [change.field] : []
+    ) ?? []),
+    ...Object.keys(defaults).filter((key) => defaults[key] !== ""),
+  ]);
+
+  const hasInvalidFields = fields.some(
+    (field, i) =>
+      !/^[a-z][a-z0-9_]*$/.test(field.key) ||
+      !field.label.trim() ||
+      (field.type === "group" && !parseSubFields(field.subFields)) ||
+      fields.findIndex((other) => other.key === field.key) !== i
+  );
+
+  // Only the latest migration can be undone
+  const latestMigration = migrations[0];
+
+  return (
+    <>
+      <Dialog open={!!collection} onOpenChange={onOpenChange}>
+        <DialogContent className="bg-slate-900 border-slate-800 max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-white">Edit Schema: {collection?.label}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Changes are previewed against existing items and applied in a single step.
+            </DialogDescription>
+          </DialogHeader>
+
+          {/* Fields */}
+          <div className="space-y-3">
+            {fields.map((field, index) => (
+              <div key={index} className="p-3 bg-slate-800/50 rounded-lg space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label className="text-slate-300 text-xs">Key</Label>
+                    <Input
+                      value={field.key}
+                      onChange={(e) => updateField(index, { key: e.target.value })}
+                      placeholder="field_key"
+                      className="mt-1 bg-slate-800 border-slate-700 text-white font-mono text-sm"
+                    />
+                    {field.originalKey && field.originalKey !== field.key && (
+                      <p className="text-xs text-slate-500 mt-1">Renamed from {field.originalKey}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label className="text-slate-300 text-xs">Label</Label>
+                    <Input
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      className="mt-1 bg-slate-800 border-slate-700 text-white"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-slate-300 text-xs">Type</Label>
+                    <Select value={field.type} onValueChange={(type) => updateField(index, { type })}>
+                      <SelectTrigger className="mt-1 bg-slate-800 border-slate-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-slate-800 border-slate-700">
+                        {FIELD_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex items-end gap-3">
+                  {(field.type === "select" || field.type === "multi_select") && (
+                    <div className="flex-1">
+                      <Label className="text-slate-300 text-xs">Options (comma separated)</Label>
+                      <Input
+                        value={field.options}
+                        onChange={(e) => updateField(index, { options: e.target.value })}
+                        className="mt-1 bg-slate-800 border-slate-700 text-white"
+                      />
+                    </div>
+                  )}
+                  {field.type === "price" && (
+                    <div className="w-32">
+                      <Label className="text-slate-300 text-xs">Currency</Label>
+                      <Input
+                        value={field.currency}
+                        onChange={(e) => updateField(index, { currency: e.target.value.toUpperCase() })}
+                        placeholder="USD"
+                        maxLength={3}
+                        className="mt-1 bg-slate-800 border-slate-700 text-white font-mono"
+                      />
+                    </div>
+                  )}
+                  {field.type === "list" && (
+                    <div className="w-36">
+                      <Label className="text-slate-300 text-xs">Entry type</Label>
+                      <Select
+                        value={field.itemType}
+                        onValueChange={(itemType) => updateField(index, { itemType })}
+                      >
+                        <SelectTrigger className="mt-1 bg-slate-800 border-slate-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          {LIST_ITEM_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {field.type === "reference" && (
+                    <>
+                      <div className="w-40">
+                        <Label className="text-slate-300 text-xs">Collection</Label>
+                        <Select
+                          value={field.collection}
+                          onValueChange={(target) => updateField(index, { collection: target })}
+                        >
+                          <SelectTrigger className="mt-1 bg-slate-800 border-slate-700 text-white">
+                            <SelectValue placeholder="Select..." />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-800 border-slate-700">
+                            {collectionKeys.map((key) => (
+                              <SelectItem key={key} value={key}>
+                                {key}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="w-36">
+                        <Label className="text-slate-300 text-xs">On delete</Label>
+                        <Select
+                          value={field.onDelete}
+                          onValueChange={(onDelete) =>
+                            updateField(index, { onDelete: onDelete as EditableField["onDelete"] })
+                          }
+                        >
+                          <SelectTrigger className="mt-1 bg-slate-800 border-slate-700 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-800 border-slate-700">
+                            <SelectItem value="block">Block</SelectItem>
+                            <SelectItem value="cascade">Cascade</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center gap-2 pb-2">
+                        <Switch
+                          checked={field.multiple}
+                          onCheckedChange={(multiple) => updateField(index, { multiple })}
+                        />
+                        <span className="text-sm text-slate-400">Multiple</span>
+                      </div>
+                    </>
+                  )}
+                  {field.type === "group" && (
+                    <div className="flex items-center gap-2 pb-2">
+                      <Switch
+                        checked={field.repeatable}
+                        onCheckedChange={(repeatable) => updateField(index, { repeatable })}
+                      />
+                      <span className="text-sm text-slate-400">Repeatable</span>
+                    </div>
+                  )}
+                  {field.type === "image" && (
+                    <div className="w-32">
+                      <Label className="text-slate-300 text-xs">Max size (KB)</Label>
+                      <Input
+                        type="number"
+                        value={field.maxFileSizeKb}
+                        onChange={(e) => updateField(index, { maxFileSizeKb: e.target.value })}
+                        placeholder="2048"
+                        className="mt-1 bg-slate-800 border-slate-700 text-white"
+                      />
+                    </div>
+                  )}
+                  {hasEntries(field) && (
+                    <div className="w-28">
+                      <Label className="text-slate-300 text-xs">Max entries</Label>
+                      <Input
+                        type="number"
+                        value={field.maxItems}
+                        onChange={(e) => updateField(index, { maxItems: e.target.value })}
+                        className="mt-1 bg-slate-800 border-slate-700 text-white"
+                      />
+                    </div>
+                  )}
+                  {(field.type === "text" || field.type === "textarea" || field.type === "rich_text") && (
+                    <div className="w-32">
+                      <Label className="text-slate-300 text-xs">Max length</Label>
+                      <Input
+                        type="number"
+                        value={field.maxLength}
+                        onChange={(e) => updateField(index, { maxLength: e.target.value })}
+                        className="mt-1 bg-slate-800 border-slate-700 text-white"
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 pb-2">
+                    <Switch
+                      checked={field.required}
+                      onCheckedChange={(required) => updateField(index, { required })}
+                    />
+                    <span className="text-sm text-slate-400">Required</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto text-slate-400 hover:text-red-400"
+                    onClick={() => removeField(index)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {field.type === "group" && (
+                  <div>
+                    <Label className="text-slate-300 text-xs">Sub-fields (JSON, same format as the schema)</Label>
+                    <Textarea
+                      value={field.subFields}
+                      onChange={(e) => updateField(index, { subFields: e.target.value })}
+                      placeholder={'{\n  "label": { "type": "text", "label": "Size", "required": true },\n  "price": { "type": "price", "label": "Price" }\n}'}
+                      className="mt-1 bg-slate-800 border-slate-700 text-white font-mono text-xs min-h-[120px]"
+                    />
+                    {field.subFields && !parseSubFields(field.subFields) && (
+                      <p className="text-xs text-red-400 mt-1">Sub-fields must be a JSON object</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="border-slate-700" onClick={addField}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+
+          {/* Defaults */}
+          {fieldsNeedingDefaults.size > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-white">Default values</h4>
+              <p className="text-xs text-slate-500">
+                Used for items that have no value or one that can&apos;t be converted.
+              </p>
+              {[...fieldsNeedingDefaults].map((key) => (
+                <div key={key} className="flex items-center gap-3">
+                  <span className="w-40 text-sm text-slate-400 font-mono truncate">{key}</span>
+                  <Input
+                    value={defaults[key] ?? ""}
+                    onChange={(e) => {
+                      setDefaults((prev) => ({ ...prev, [key]: e.target.value }));
+                      setPreview(null);
+                    }}
+                    className="bg-slate-800 border-slate-700 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-white">Preview</h4>
+              {preview.changes.length > 0 ? (
+                <ul className="text-sm text-slate-300 list-disc pl-5 space-y-1">
+                  {preview.changes.map((change, i) => (
+                    <li key={i}>{describeChange(change)}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">No schema changes.</p>
+              )}
+              <p className="text-sm text-slate-400">
+                {preview.items.length} of {preview.total_items} items will change
+              </p>
+              {preview.items.length > 0 && (
+                <div className="max-h-64 overflow-y-auto divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                  {preview.items.map((item) => (
+                    <div key={item.id} className="p-3 text-xs space-y-1">
+                      {Object.keys({ ...item.before, ...item.after, ...item.errors }).map((key) => {
+                        const before = formatValue(item.before[key]);
+                        const after = formatValue(item.after[key]);
+                        if (before === after && !item.errors[key]) return null;
+                        return (
+                          <div key={key} className="flex gap-2">
+                            <span className="w-32 font-mono text-slate-500 truncate">{key}</span>
+                            <span className="text-slate-400 line-through truncate">{before}</span>
+                            <span className="text-slate-500">→</span>
+                            <span className="text-white truncate">{after}</span>
+                            {item.errors[key] && (
+                              <span className="text-red-400">{item.errors[key]}</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!preview.can_apply && (
+                <p className="text-sm text-red-400">
+                  Some items can&apos;t be migrated. Set default values and preview again.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* History */}
+          {migrations.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-white">History</h4>
+              <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                {migrations.map((migration) => (
+                  <div key={migration.id} className="p-3 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-white">
+                          {new Date(migration.created_at).toLocaleString()}
+                        </span>
+                        {migration.status === "undone" && <Badge variant="secondary">undone</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {migration.changes.map(describeChange).join(" · ") || "No field changes"} ·{" "}
+                        {migration.affected_items} items
+                      </p>
+                    </div>
+                    {migration === latestMigration && migration.status === "applied" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="border-slate-700 flex-shrink-0"
+                        onClick={() => setUndoMigration(migration)}
+                      >
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Undo
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" className="border-slate-700" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            {preview && preview.can_apply ? (
+              <Button
+                className="bg-emerald-500 hover:bg-emerald-600"
+                onClick={handleApply}
+                disabled={applying}
+              >
+                {applying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Apply Changes
+              </Button>
+            ) : (
+              <Button
+                className="bg-emerald-500 hover:bg-emerald-600"
+                onClick={handlePreview}
+                disabled={previewing || hasInvalidFields}
+              >
+                {previewing ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Eye className="w-4 h-4 mr-2" />
+                )}
+                Preview Changes
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!undoMigration}
+        onOpenChange={(open) => !open && setUndoMigration(null)}
+        title="Undo schema migration?"
+        description="The previous schema and item values will be restored. This fails if items were added or edited since the migration."
+        confirmText="Undo Migration"
+        onConfirm={handleUndo}
+        loading={undoing}
+      />
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import { toast } from "sonner";
+import { Loader2, RotateCcw } from "lucide-react";
+
+interface PublishVersion {
+  id: string;
+  version_number: number;
+  publisher_type: "client" | "admin" | null;
+  notes: string | null;
+  created_at: string;
+}
+
+interface PublishHistoryProps {
+  siteId: string;
+  onRestored?: () => void;
+}
+
+/**
+ * Published versions of a site, with rollback
+ * Admins can roll back even when the site's client can't publish
+ */
+export function PublishHistory({ siteId, onRestored }: PublishHistoryProps) {
+  const [loading, setLoading] = useState(true);
+  const [versions, setVersions] = useState<PublishVersion[]>([]);
+  const [restoreVersion, setRestoreVersion] = useState<PublishVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const historyUrl = `/api/admin/sites/${siteId}/publish-history`;
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(historyUrl);
+      const data = await response.json();
+      if (response.ok) setVersions(data.data || []);
+    } catch (error) {
+      console.error("Failed to fetch publish history:", error);
+    }
+
+    setLoading(false);
+  }, [historyUrl]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRestore = async () => {
+    if (!restoreVersion) return;
+
+    setRestoring(true);
+    try {
+      const response = await fetch(`${historyUrl}/${restoreVersion.version_number}/restore`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore version");
+      }
+
+      toast.success(`Restored version ${restoreVersion.version_number}`);
+      setRestoreVersion(null);
+      fetchHistory();
+      onRestored?.();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 text-center">
+        <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
+      <div className="p-4 border-b border-slate-800">
+        <h3 className="font-medium text-white">Publish History</h3>
+        <p className="text-sm text-slate-500">
+          Restoring a version replaces the site&apos;s draft with it and publishes it as a new version.
+        </p>
+      </div>
+      <div className="divide-y divide-slate-800">
+        {versions.length > 0 ? (
+          versions.map((version) => (
+            <div key={version.id} className="p-4 flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 bg-slate-800 rounded-lg flex items-center justify-center">
+                  <span className="text-sm font-mono text-slate-400">v{version.version_number}</span>
+                </div>
+                <div>
+                  <p className="font-medium text-white">
+                    {version.notes || `Version ${version.version_number}`}
+                  </p>
+                  <p className="text-sm text-slate-500">
+                    {new Date(version.created_at).toLocaleString()}
+                  </p>
+                </div>
+                {version.publisher_type && (
+                  <Badge variant="outline" className="border-slate-700 text-slate-400">
+                    {version.publisher_type}
+                  </Badge>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-slate-700"
+                onClick={() => setRestoreVersion(version)}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div className="p-8 text-center text-slate-500">No publish history yet.</div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={restoreVersion !== null}
+        onOpenChange={(open) => !open && setRestoreVersion(null)}
+        title={`Restore version ${restoreVersion?.version_number ?? ""}`}
+        description="This replaces the site's current content with this version and publishes it immediately."
+        confirmText={restoring ? "Restoring..." : "Restore"}
+        onConfirm={handleRestore}
+        loading={restoring}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,539 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_NAMES } from "@/lib/webhooks/events";
+import { toast } from "sonner";
+import { Plus, Trash2, Copy, RotateCw, KeyRound, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  secret_hint: string;
+  events: string[];
+  is_active: boolean;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: "pending" | "succeeded" | "failed";
+  attempt_count: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+const statusVariants = {
+  pending: "warning",
+  succeeded: "success",
+  failed: "destructive",
+} as const;
+
+export function WebhookSettings({ siteId }: { siteId: string }) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  // Add endpoint dialog states
+  const [newEndpointOpen, setNewEndpointOpen] = useState(false);
+  const [newEndpoint, setNewEndpoint] = useState({ url: "", description: "", events: [] as string[] });
+  const [saving, setSaving] = useState(false);
+
+  // Delete dialog states
+  const [deleteEndpoint, setDeleteEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // Rotate dialog states
+  const [rotateEndpoint, setRotateEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [rotating, setRotating] = useState(false);
+
+  // A secret is only returned when it is generated, so it's shown once
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [endpointsResponse, deliveriesResponse] = await Promise.all([
+        fetch(`/api/admin/sites/${siteId}/webhooks`),
+        fetch(`/api/admin/sites/${siteId}/webhooks/deliveries?limit=50`),
+      ]);
+      const [endpointsData, deliveriesData] = await Promise.all([
+        endpointsResponse.json(),
+        deliveriesResponse.json(),
+      ]);
+
+      if (endpointsResponse.ok) setEndpoints(endpointsData.data || []);
+      if (deliveriesResponse.ok) setDeliveries(deliveriesData.data || []);
+    } catch (error) {
+      console.error("Failed to fetch webhooks:", error);
+    }
+
+    setLoading(false);
+  }, [siteId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const toggleNewEvent = (event: string, checked: boolean) => {
+    setNewEndpoint((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleAddEndpoint = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/admin/sites/${siteId}/webhooks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url: newEndpoint.url,
+          description: newEndpoint.description || null,
+          events: newEndpoint.events,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to add webhook");
+      }
+
+      toast.success("Webhook added");
+      setNewEndpointOpen(false);
+      setNewEndpoint({ url: "", description: "", events: [] });
+      setRevealedSecret(data.data.secret);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to add webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/sites/${siteId}/webhooks/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update webhook");
+      }
+
+      setEndpoints((prev) =>
+        prev.map((e) => (e.id === endpoint.id ? { ...e, is_active: isActive } : e))
+      );
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update webhook");
+    }
+  };
+
+  const handleDeleteEndpoint = async () => {
+    if (!deleteEndpoint) return;
+    setDeleting(true);
+
+    try {
+      const response = await fetch(`/api/admin/sites/${siteId}/webhooks/${deleteEndpoint.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete webhook");
+      }
+
+      toast.success("Webhook deleted");
+      setDeleteEndpoint(null);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete webhook");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleRotateSecret = async () => {
+    if (!rotateEndpoint) return;
+    setRotating(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/sites/${siteId}/webhooks/${rotateEndpoint.id}/rotate-secret`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rotate secret");
+      }
+
+      setRotateEndpoint(null);
+      setRevealedSecret(data.data.secret);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to rotate secret");
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplaying(delivery.id);
+
+    try {
+      const response = await fetch(
+        `/api/admin/sites/${siteId}/webhooks/deliveries/${delivery.id}/replay`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to replay delivery");
+      }
+
+      if (data.data?.status === "succeeded") {
+        toast.success("Delivery replayed");
+      } else {
+        toast.error(data.data?.error_message || "Replay failed - it will be retried");
+      }
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to replay delivery");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleCopySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    toast.success("Signing secret copied to clipboard");
+  };
+
+  const endpointUrl = (endpointId: string) =>
+    endpoints.find((e) => e.id === endpointId)?.url ?? "Deleted endpoint";
+
+  if (loading) {
+    return (
+      <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-8 text-center">
+        <p className="text-slate-400">Loading webhooks...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Endpoints */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-white">Webhook Endpoints</h3>
+            <p className="text-sm text-slate-500">
+              Deliveries are signed with HMAC-SHA256 and retried with backoff on failure
+            </p>
+          </div>
+          <Button
+            size="sm"
+            className="bg-emerald-500 hover:bg-emerald-600"
+            onClick={() => setNewEndpointOpen(true)}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Webhook
+          </Button>
+        </div>
+        <div className="divide-y divide-slate-800">
+          {endpoints.length > 0 ? (
+            endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white font-mono text-sm truncate">{endpoint.url}</p>
+                    {endpoint.description && (
+                      <p className="text-sm text-slate-500">{endpoint.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <Switch
+                      checked={endpoint.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => setDeleteEndpoint(endpoint)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {endpoint.events.length > 0 ? (
+                    endpoint.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="font-mono text-xs">
+                        {event}
+                      </Badge>
+                    ))
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">All events</Badge>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm text-slate-500">
+                    Signing secret <span className="font-mono text-slate-400">{endpoint.secret_hint}</span>
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-slate-700"
+                    onClick={() => setRotateEndpoint(endpoint)}
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Rotate Secret
+                  </Button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="p-8 text-center text-slate-500">
+              No webhooks yet. Add an endpoint to notify the site when content changes.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Delivery Log */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="font-medium text-white">Recent Deliveries</h3>
+          <Button variant="outline" size="sm" className="border-slate-700" onClick={fetchData}>
+            <RotateCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+        <div className="divide-y divide-slate-800">
+          {deliveries.length > 0 ? (
+            deliveries.map((delivery) => (
+              <div key={delivery.id} className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <button
+                    className="flex items-center gap-3 min-w-0 text-left"
+                    onClick={() =>
+                      setExpandedDelivery((prev) => (prev === delivery.id ? null : delivery.id))
+                    }
+                  >
+                    {expandedDelivery === delivery.id ? (
+                      <ChevronDown className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-white">{delivery.event}</span>
+                        <Badge variant={statusVariants[delivery.status]}>{delivery.status}</Badge>
+                        {delivery.replay_of && <Badge variant="outline">replay</Badge>}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {endpointUrl(delivery.endpoint_id)} ·{" "}
+                        {new Date(delivery.created_at).toLocaleString()} · {delivery.attempt_count}{" "}
+                        {delivery.attempt_count === 1 ? "attempt" : "attempts"}
+                        {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                      </p>
+                    </div>
+                  </button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-slate-700 flex-shrink-0"
+                    disabled={replaying === delivery.id}
+                    onClick={() => handleReplay(delivery)}
+                  >
+                    {replaying === delivery.id ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCw className="w-4 h-4 mr-2" />
+                    )}
+                    Replay
+                  </Button>
+                </div>
+                {expandedDelivery === delivery.id && (
+                  <div className="mt-3 ml-7 space-y-3 text-sm">
+                    {delivery.error_message && (
+                      <p className="text-red-400">{delivery.error_message}</p>
+                    )}
+                    {delivery.status === "pending" && delivery.attempt_count > 0 && (
+                      <p className="text-slate-400">
+                        Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}
+                      </p>
+                    )}
+                    <div>
+                      <p className="text-slate-500 mb-1">Payload</p>
+                      <pre className="bg-slate-800 rounded-lg p-3 text-xs text-slate-300 overflow-x-auto">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    </div>
+                    {delivery.response_body && (
+                      <div>
+                        <p className="text-slate-500 mb-1">Response</p>
+                        <pre className="bg-slate-800 rounded-lg p-3 text-xs text-slate-300 overflow-x-auto whitespace-pre-wrap">
+                          {delivery.response_body}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <div className="p-8 text-center text-slate-500">No deliveries yet.</div>
+          )}
+        </div>
+      </div>
+
+      {/* Add Endpoint Dialog */}
+      <Dialog open={newEndpointOpen} onOpenChange={setNewEndpointOpen}>
+        <DialogContent className="bg-slate-900 border-slate-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Add Webhook</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              A signing secret is generated for the endpoint and shown once it is created.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="text-slate-300">Endpoint URL</Label>
+              <Input
+                value={newEndpoint.url}
+                onChange={(e) => setNewEndpoint((prev) => ({ ...prev, url: e.target.value }))}
+                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+                placeholder="https://site.replit.app/webhooks/content-updated"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Description (optional)</Label>
+              <Input
+                value={newEndpoint.description}
+                onChange={(e) => setNewEndpoint((prev) => ({ ...prev, description: e.target.value }))}
+                className="mt-1.5 bg-slate-800 border-slate-700 text-white"
+                placeholder="Clear the Replit content cache"
+              />
+            </div>
+            <div>
+              <Label className="text-slate-300">Events</Label>
+              <p className="text-sm text-slate-500 mb-2">Leave all unchecked to receive every event.</p>
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {WEBHOOK_EVENT_NAMES.map((event) => (
+                  <label key={event} className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={newEndpoint.events.includes(event)}
+                      onChange={(e) => toggleNewEvent(event, e.target.checked)}
+                      className="mt-1 accent-emerald-500"
+                    />
+                    <span>
+                      <span className="block font-mono text-sm text-white">{event}</span>
+                      <span className="block text-xs text-slate-500">{WEBHOOK_EVENTS[event]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" className="border-slate-700" onClick={() => setNewEndpointOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-emerald-500 hover:bg-emerald-600"
+              onClick={handleAddEndpoint}
+              disabled={saving || !newEndpoint.url}
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Webhook
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Secret Dialog */}
+      <Dialog open={revealedSecret !== null} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent className="bg-slate-900 border-slate-800">
+          <DialogHeader>
+            <DialogTitle className="text-white">Signing Secret</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Copy the secret to the receiving site now - it won&apos;t be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input
+              value={revealedSecret ?? ""}
+              readOnly
+              className="bg-slate-800 border-slate-700 text-white font-mono text-sm"
+            />
+            <Button
+              variant="outline"
+              className="border-slate-700"
+              onClick={() => revealedSecret && handleCopySecret(revealedSecret)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button className="bg-emerald-500 hover:bg-emerald-600" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rotate Secret Confirmation Dialog */}
+      <ConfirmDialog
+        open={rotateEndpoint !== null}
+        onOpenChange={(open) => !open && setRotateEndpoint(null)}
+        title="Rotate signing secret"
+        description={`Deliveries to ${rotateEndpoint?.url ?? ""} will be signed with a new secret. The receiver rejects them until it is updated.`}
+        confirmText={rotating ? "Rotating..." : "Rotate"}
+        onConfirm={handleRotateSecret}
+        loading={rotating}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        open={deleteEndpoint !== null}
+        onOpenChange={(open) => !open && setDeleteEndpoint(null)}
+        title="Delete webhook"
+        description={`Deliveries to ${deleteEndpoint?.url ?? ""} will stop and its delivery log will be removed.`}
+        confirmText={deleting ? "Deleting..." : "Delete"}
+        variant="destructive"
+        onConfirm={handleDeleteEndpoint}
+        loading={deleting}
+      />
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
   LogOut,
   ChevronRight,
   Rocket,
+  Trash2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -23,6 +24,7 @@ const navItems = [
   { href: "/dashboard/content", label: "Text Content", icon: Type },
   { href: "/dashboard/menu", label: "Collections", icon: List },
   { href: "/dashboard/images", label: "Images", icon: Image },
+  { href: "/dashboard/trash", label: "Trash", icon: Trash2 },
 ];
 
 interface ClientSidebarProps {
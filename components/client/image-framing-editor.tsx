@@ -0,0 +1,181 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Crosshair, Crop, X } from "lucide-react";
+
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ImageFramingEditorProps {
+  src: string;
+  focalPoint: FocalPoint | null;
+  crop: CropArea | null;
+  onFocalPointChange: (focalPoint: FocalPoint | null) => void;
+  onCropChange: (crop: CropArea | null) => void;
+}
+
+type Mode = "focal_point" | "crop";
+
+// Crops smaller than this fraction of the image are treated as stray clicks
+const MIN_CROP = 0.05;
+
+const round = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+
+const percent = (value: number) => `${value * 100}%`;
+
+/**
+ * Pick the point of an image that sites keep in view, and the area they show
+ * Click to set the focal point; in crop mode, drag a rectangle
+ * Positions are fractions of the image's width and height
+ */
+export function ImageFramingEditor({
+  src,
+  focalPoint,
+  crop,
+  onFocalPointChange,
+  onCropChange,
+}: ImageFramingEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<Mode>("focal_point");
+  const [dragStart, setDragStart] = useState<FocalPoint | null>(null);
+  const [dragArea, setDragArea] = useState<CropArea | null>(null);
+
+  // Pointer position as fractions of the image
+  const pointAt = (e: React.PointerEvent): FocalPoint => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: round((e.clientX - rect.left) / rect.width),
+      y: round((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const areaBetween = (a: FocalPoint, b: FocalPoint): CropArea => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: round(Math.abs(a.x - b.x)),
+    height: round(Math.abs(a.y - b.y)),
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode === "focal_point") {
+      onFocalPointChange(pointAt(e));
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointAt(e));
+    setDragArea(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (mode === "crop" && dragStart) {
+      setDragArea(areaBetween(dragStart, pointAt(e)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (dragArea && dragArea.width >= MIN_CROP && dragArea.height >= MIN_CROP) {
+      onCropChange(dragArea);
+    }
+    setDragStart(null);
+    setDragArea(null);
+  };
+
+  const shownCrop = dragArea ?? crop;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "focal_point" ? "secondary" : "outline"}
+          className={mode === "focal_point" ? "" : "border-slate-700"}
+          onClick={() => setMode("focal_point")}
+        >
+          <Crosshair className="w-4 h-4 mr-2" />
+          Focal point
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === "crop" ? "secondary" : "outline"}
+          className={mode === "crop" ? "" : "border-slate-700"}
+          onClick={() => setMode("crop")}
+        >
+          <Crop className="w-4 h-4 mr-2" />
+          Crop
+        </Button>
+        {mode === "focal_point" && focalPoint && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-slate-400 hover:text-white"
+            onClick={() => onFocalPointChange(null)}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+        {mode === "crop" && crop && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-slate-400 hover:text-white"
+            onClick={() => onCropChange(null)}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative select-none touch-none cursor-crosshair rounded-lg overflow-hidden"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <img src={src} alt="" draggable={false} className="w-full h-auto block" />
+
+        {shownCrop && (
+          <div
+            className="absolute border-2 border-white pointer-events-none"
+            style={{
+              left: percent(shownCrop.x),
+              top: percent(shownCrop.y),
+              width: percent(shownCrop.width),
+              height: percent(shownCrop.height),
+              boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.5)",
+            }}
+          />
+        )}
+
+        {focalPoint && (
+          <div
+            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-emerald-500/70 pointer-events-none"
+            style={{ left: percent(focalPoint.x), top: percent(focalPoint.y) }}
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {mode === "focal_point"
+          ? "Click the part of the image that should always stay in view."
+          : "Drag to choose the area of the image your site shows."}
+      </p>
+    </div>
+  );
+}
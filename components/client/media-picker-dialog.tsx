@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Upload, Loader2, Trash2, Image as ImageIcon } from "lucide-react";
+
+export interface MediaLibraryAsset {
+  id: string;
+  url: string;
+  filename: string | null;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  alt_text: string | null;
+  created_at: string;
+  usage: { type: string; label: string; in_trash: boolean }[];
+}
+
+interface MediaPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  siteSlug: string;
+  onSelect: (asset: MediaLibraryAsset) => void;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Choose an image from the site's media library, or upload a new one to it
+ * Images still in use (trash and the published site included) can't be deleted
+ */
+export function MediaPickerDialog({ open, onOpenChange, siteSlug, onSelect }: MediaPickerDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [assets, setAssets] = useState<MediaLibraryAsset[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const mediaUrl = `/api/client/sites/${siteSlug}/media`;
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      const response = await fetch(mediaUrl);
+      const data = await response.json();
+      if (response.ok) setAssets(data.data || []);
+    } catch (error) {
+      console.error("Failed to fetch media library:", error);
+    }
+
+    setLoading(false);
+  }, [mediaUrl]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(null);
+    fetchAssets();
+  }, [open, fetchAssets]);
+
+  const selected = assets.find((asset) => asset.id === selectedId) ?? null;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(mediaUrl, { method: "POST", body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to upload image");
+
+      setAssets((prev) => [data.data, ...prev]);
+      setSelectedId(data.data.id);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to upload image");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm("Delete this image from the library? This cannot be undone.")) return;
+
+    setDeleting(true);
+    try {
+      const response = await fetch(`${mediaUrl}/${selected.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete image");
+      }
+
+      toast.success("Image deleted");
+      setAssets((prev) => prev.filter((asset) => asset.id !== selected.id));
+      setSelectedId(null);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete image");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-800 max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Media Library</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Every image uploaded to your site. Pick one to use it here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-500">
+              {assets.length} {assets.length === 1 ? "image" : "images"}
+            </p>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="border-slate-700"
+              disabled={uploading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {uploading ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Upload
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleUpload}
+              className="hidden"
+            />
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center">
+              <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+            </div>
+          ) : assets.length > 0 ? (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-[50vh] overflow-y-auto p-1">
+              {assets.map((asset) => (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => setSelectedId(asset.id)}
+                  className={`relative aspect-square bg-slate-800 rounded-lg overflow-hidden ring-2 ${
+                    asset.id === selectedId ? "ring-emerald-500" : "ring-transparent hover:ring-slate-600"
+                  }`}
+                >
+                  <img
+                    src={asset.url}
+                    alt={asset.alt_text || ""}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                  {asset.usage.length === 0 && (
+                    <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-[10px] text-slate-300">
+                      Unused
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="p-8 text-center text-slate-500">
+              <ImageIcon className="w-6 h-6 mx-auto mb-2 text-slate-600" />
+              No images yet. Upload one to get started.
+            </div>
+          )}
+
+          {selected && (
+            <div className="p-3 bg-slate-800/50 rounded-lg text-sm space-y-1">
+              <p className="text-white truncate">{selected.filename || "Untitled image"}</p>
+              <p className="text-slate-500">
+                {[
+                  selected.width && selected.height && `${selected.width}x${selected.height}`,
+                  selected.size_bytes && formatSize(selected.size_bytes),
+                  `Added ${new Date(selected.created_at).toLocaleDateString()}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              <p className="text-slate-500">
+                {selected.usage.length > 0
+                  ? `Used by ${selected.usage
+                      .map((entry) => (entry.in_trash ? `${entry.label} (in trash)` : entry.label))
+                      .join(", ")}`
+                  : "Not used anywhere"}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {selected && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="mr-auto text-red-400 hover:text-red-300 hover:bg-red-500/10"
+              disabled={deleting || selected.usage.length > 0}
+              title={selected.usage.length > 0 ? "Images in use can't be deleted" : undefined}
+              onClick={handleDelete}
+            >
+              {deleting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4 mr-2" />
+              )}
+              Delete
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            className="border-slate-700"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!selected}
+            className="bg-emerald-500 hover:bg-emerald-600"
+            onClick={() => {
+              onSelect(selected!);
+              onOpenChange(false);
+            }}
+          >
+            Use Image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import type { ContentDiff, ValueChange } from "@/lib/content/diff";
+import { Badge } from "@/components/ui/badge";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function formatLabel(key: string): string {
+  return key.replace(/_/g, " ");
+}
+
+function ChangeRow({ label, change }: { label: string; change: ValueChange }) {
+  return (
+    <div className="text-sm">
+      <p className="text-slate-300 font-medium capitalize">{formatLabel(label)}</p>
+      <p className="text-red-400/80 line-through break-words">{formatValue(change.old)}</p>
+      <p className="text-emerald-400 break-words">{formatValue(change.new)}</p>
+    </div>
+  );
+}
+
+function itemTitle(data: Record<string, unknown> | undefined, id: string): string {
+  const title = data?.name ?? data?.title;
+  return typeof title === "string" && title ? title : `Item ${id.slice(0, 8)}`;
+}
+
+export function PublishDiff({ diff }: { diff: ContentDiff }) {
+  if (!diff.has_changes) {
+    return (
+      <p className="text-sm text-slate-500 text-center py-4">
+        No changes since the last publish.
+      </p>
+    );
+  }
+
+  const textEntries = Object.entries(diff.text);
+  const businessEntries = Object.entries(diff.business);
+  const imageEntries = Object.entries(diff.images);
+  const collectionEntries = Object.entries(diff.collections);
+
+  return (
+    <div className="space-y-6">
+      {textEntries.length > 0 && (
+        <section className="space-y-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Text</h4>
+          {textEntries.map(([key, change]) => (
+            <ChangeRow key={key} label={key} change={change} />
+          ))}
+        </section>
+      )}
+
+      {businessEntries.length > 0 && (
+        <section className="space-y-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Business Info
+          </h4>
+          {businessEntries.map(([key, change]) => (
+            <ChangeRow key={key} label={key} change={change} />
+          ))}
+        </section>
+      )}
+
+      {imageEntries.length > 0 && (
+        <section className="space-y-3">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Images</h4>
+          {imageEntries.map(([key, change]) => (
+            <div key={key} className="space-y-2">
+              {change.url && <ChangeRow label={`${key} image`} change={change.url} />}
+              {change.alt_text && <ChangeRow label={`${key} alt text`} change={change.alt_text} />}
+              {change.focal_point && (
+                <ChangeRow label={`${key} focal point`} change={change.focal_point} />
+              )}
+              {change.crop && <ChangeRow label={`${key} crop`} change={change.crop} />}
+            </div>
+          ))}
+        </section>
+      )}
+
+      {collectionEntries.map(([key, collection]) => (
+        <section key={key} className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              {collection.label}
+            </h4>
+            {collection.reordered && <Badge variant="secondary">Reordered</Badge>}
+          </div>
+          {collection.added.map((item) => (
+            <p key={item.id} className="text-sm text-emerald-400">
+              + {itemTitle(item.data, item.id)}
+            </p>
+          ))}
+          {collection.removed.map((item) => (
+            <p key={item.id} className="text-sm text-red-400">
+              − {itemTitle(item.data, item.id)}
+            </p>
+          ))}
+          {collection.edited.map((item) => (
+            <div key={item.id} className="pl-3 border-l border-slate-700 space-y-2">
+              <p className="text-sm text-white">{itemTitle(item.data, item.id)}</p>
+              {Object.entries(item.fields).map(([field, change]) => (
+                <ChangeRow key={field} label={field} change={change} />
+              ))}
+              {item.visibility && (
+                <ChangeRow
+                  label="visible"
+                  change={{
+                    old: item.visibility.old ? "Visible" : "Hidden",
+                    new: item.visibility.new ? "Visible" : "Hidden",
+                  }}
+                />
+              )}
+            </div>
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Upload, Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+
+const IGNORE = "__ignore";
+
+interface ImportPreview {
+  mapping: Record<string, string | null>;
+  total_rows: number;
+  valid_rows: number;
+  errors: { row: number; errors: Record<string, string> }[];
+  blocked_reason: string | null;
+  can_import: boolean;
+}
+
+interface CollectionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  collectionLabel: string;
+  // Field key -> label, for the column mapping
+  fields: Record<string, { label: string }>;
+  // Import endpoint of the collection (admin or client API)
+  importUrl: string;
+  onImported: () => void;
+}
+
+/**
+ * Import collection items from a CSV or JSON file
+ * The file and every mapping change go through a dry run first, so row errors
+ * show before anything is saved
+ */
+export function CollectionImportDialog({
+  open,
+  onOpenChange,
+  collectionLabel,
+  fields,
+  importUrl,
+  onImported,
+}: CollectionImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) return;
+    setFileName(null);
+    setContent(null);
+    setMapping({});
+    setPreview(null);
+    setError(null);
+  }, [open]);
+
+  const format = fileName?.toLowerCase().endsWith(".json") ? "json" : "csv";
+
+  const send = async (body: Record<string, unknown>) => {
+    const response = await fetch(importUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { response, data: await response.json() };
+  };
+
+  const runDryRun = async (
+    fileFormat: "csv" | "json",
+    text: string,
+    nextMapping: Record<string, string | null>
+  ) => {
+    setChecking(true);
+    setError(null);
+    try {
+      const { response, data } = await send({
+        format: fileFormat,
+        content: text,
+        mapping: nextMapping,
+        dry_run: true,
+      });
+      // Keep the last preview so a bad mapping can be changed back
+      if (!response.ok) {
+        setError(data.error || "Failed to read the file");
+        return;
+      }
+      setPreview(data.data);
+      setMapping(data.data.mapping);
+    } catch {
+      setError("Failed to read the file");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setMapping({});
+    setPreview(null);
+    runDryRun(file.name.toLowerCase().endsWith(".json") ? "json" : "csv", text, {});
+  };
+
+  // Every mapping change is checked again
+  const updateMapping = (column: string, target: string) => {
+    const next = { ...mapping, [column]: target === IGNORE ? null : target };
+    setMapping(next);
+    if (content !== null) runDryRun(format, content, next);
+  };
+
+  const handleImport = async () => {
+    if (content === null) return;
+    setImporting(true);
+    try {
+      const { response, data } = await send({ format, content, mapping });
+      if (!response.ok) throw new Error(data.error || "Failed to import items");
+
+      toast.success(`Imported ${data.data.items.length} items`);
+      onImported();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to import items");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const targets = [
+    ...Object.entries(fields).map(([key, field]) => ({ key, label: field.label })),
+    { key: "is_visible", label: "Visible" },
+    { key: "visible_from", label: "Visible from" },
+    { key: "visible_until", label: "Visible until" },
+    { key: "visibility_window", label: "Weekly window" },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-900 border-slate-800 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import {collectionLabel}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            CSV with a header row, or a JSON array. Separate multiple values in a cell with |.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          <Button
+            variant="outline"
+            className="border-slate-700"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName ?? "Choose file"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          {error && (
+            <p className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+
+          {preview && (
+            <>
+              <div>
+                <Label className="text-slate-300">Columns</Label>
+                <div className="mt-1.5 space-y-2">
+                  {Object.entries(preview.mapping).map(([column, target]) => (
+                    <div key={column} className="flex items-center gap-3">
+                      <span className="flex-1 text-sm text-slate-300 truncate">{column}</span>
+                      <Select
+                        value={target ?? IGNORE}
+                        onValueChange={(value) => updateMapping(column, value)}
+                      >
+                        <SelectTrigger className="w-56 bg-slate-800 border-slate-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-800 border-slate-700">
+                          <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                          {targets.map((field) => (
+                            <SelectItem key={field.key} value={field.key}>
+                              {field.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="p-3 bg-slate-800/50 rounded-lg text-sm">
+                {preview.can_import ? (
+                  <p className="flex items-center gap-2 text-emerald-400">
+                    <CheckCircle2 className="w-4 h-4" />
+                    All {preview.total_rows} rows are ready to import
+                  </p>
+                ) : (
+                  <p className="flex items-center gap-2 text-amber-400">
+                    <AlertCircle className="w-4 h-4" />
+                    {preview.blocked_reason ??
+                      `${preview.errors.length} of ${preview.total_rows} rows need fixing - nothing will be imported until they do`}
+                  </p>
+                )}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="space-y-1">
+                  {preview.errors.map(({ row, errors }) => (
+                    <div key={row} className="text-sm">
+                      <span className="text-slate-400">Row {row}: </span>
+                      <span className="text-red-400">
+                        {Object.entries(errors)
+                          .map(([field, message]) => (field === "_" ? message : `${field} - ${message}`))
+                          .join("; ")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="border-slate-700" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview?.can_import || !!error || checking || importing}
+            className="bg-emerald-500 hover:bg-emerald-600"
+          >
+            {importing || checking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {importing ? "Importing..." : "Checking..."}
+              </>
+            ) : (
+              `Import ${preview?.total_rows ?? ""} rows`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+type TrashItemType = "text_field" | "image_slot" | "collection_item";
+
+interface SiteTrash {
+  text_fields: { id: string; label: string; content_key: string; deleted_at: string }[];
+  image_slots: { id: string; label: string; image_key: string; deleted_at: string }[];
+  collection_items: {
+    id: string;
+    data: Record<string, any>;
+    collection_label: string;
+    deleted_at: string;
+  }[];
+  retention_days: number;
+}
+
+interface TrashEntry {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  subtitle: string;
+  deletedAt: string;
+}
+
+interface TrashListProps {
+  // Trash endpoint of the site (admin or client API); restores POST to `${trashUrl}/restore`
+  trashUrl: string;
+  onRestored?: (type: TrashItemType) => void;
+}
+
+function toEntries(trash: SiteTrash): TrashEntry[] {
+  return [
+    ...trash.text_fields.map((field) => ({
+      type: "text_field" as const,
+      id: field.id,
+      title: field.label,
+      subtitle: `Text field · ${field.content_key}`,
+      deletedAt: field.deleted_at,
+    })),
+    ...trash.image_slots.map((slot) => ({
+      type: "image_slot" as const,
+      id: slot.id,
+      title: slot.label,
+      subtitle: `Image slot · ${slot.image_key}`,
+      deletedAt: slot.deleted_at,
+    })),
+    ...trash.collection_items.map((item) => ({
+      type: "collection_item" as const,
+      id: item.id,
+      title: item.data.name || item.data.title || `Item ${item.id.slice(0, 8)}`,
+      subtitle: item.collection_label,
+      deletedAt: item.deleted_at,
+    })),
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Deleted content of a site, with restore
+ * Everything is removed for good once it's been in the trash for the retention period
+ */
+export function TrashList({ trashUrl, onRestored }: TrashListProps) {
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch(trashUrl);
+      const data = await response.json();
+
+      if (response.ok) {
+        setEntries(toEntries(data.data));
+        setRetentionDays(data.data.retention_days);
+      }
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    }
+
+    setLoading(false);
+  }, [trashUrl]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setRestoringId(entry.id);
+
+    try {
+      const response = await fetch(`${trashUrl}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: entry.type, id: entry.id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to restore");
+      }
+
+      toast.success(`${entry.title} restored`);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      onRestored?.(entry.type);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to restore");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 text-center">
+        <Loader2 className="w-6 h-6 animate-spin mx-auto text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-2xl">
+      <div className="p-4 border-b border-slate-800">
+        <h3 className="font-medium text-white">Trash</h3>
+        {retentionDays !== null && (
+          <p className="text-sm text-slate-500">
+            Deleted content can be restored for {retentionDays} days, then it&apos;s removed for good.
+          </p>
+        )}
+      </div>
+      <div className="divide-y divide-slate-800">
+        {entries.length > 0 ? (
+          entries.map((entry) => (
+            <div key={entry.id} className="p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium text-white">{entry.title}</p>
+                <p className="text-sm text-slate-500">
+                  {entry.subtitle} · Deleted {new Date(entry.deletedAt).toLocaleString()}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-slate-700"
+                disabled={restoringId === entry.id}
+                onClick={() => handleRestore(entry)}
+              >
+                {restoringId === entry.id ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                )}
+                Restore
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div className="p-8 text-center text-slate-500">
+            <Trash2 className="w-6 h-6 mx-auto mb-2 text-slate-600" />
+            The trash is empty.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// Preview token signing and verification
+// SECURITY: Tokens grant read access to a site's unpublished draft - keep them short-lived
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Token expiration time
+const PREVIEW_TOKEN_EXPIRY = 15 * 60; // 15 minutes in seconds
+
+interface PreviewTokenPayload {
+  site_id: string;
+  exp: number;
+}
+
+/**
+ * Get the signing secret
+ */
+function getSecret(): string {
+  const secret = process.env.PREVIEW_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error('Missing PREVIEW_TOKEN_SECRET');
+  }
+
+  return secret;
+}
+
+/**
+ * Sign an encoded payload
+ */
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Create a preview token for a site
+ * Format: base64url(payload).base64url(hmac)
+ */
+export function createPreviewToken(siteId: string): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + PREVIEW_TOKEN_EXPIRY * 1000);
+  const payload: PreviewTokenPayload = {
+    site_id: siteId,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return { token: `${encodedPayload}.${sign(encodedPayload)}`, expiresAt };
+}
+
+/**
+ * Verify a preview token for a site
+ * Returns false for malformed, tampered, expired, or other-site tokens
+ */
+export function verifyPreviewToken(token: string, siteId: string): boolean {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return false;
+  }
+
+  // Constant-time signature comparison
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return false;
+  }
+
+  let payload: PreviewTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return false;
+  }
+
+  if (payload.site_id !== siteId) {
+    return false;
+  }
+
+  return typeof payload.exp === 'number' && payload.exp * 1000 > Date.now();
+}
@@ -0,0 +1,192 @@
+// Collection bulk operations
+// Shows, hides, deletes, duplicates or sets a field on many items at once,
+// all or nothing, with a single activity log entry
+
+import type { Collection, CollectionItem, UserType } from '@/lib/types/database';
+import { validateItemData, sanitizeItemData } from '@/lib/security/item-schema';
+import { ValidationError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getCollectionItemsByIds,
+  bulkUpdateCollectionItems,
+  deleteCollectionItems,
+  importCollectionItems,
+  findCollectionItemIds,
+} from '@/lib/db/collections';
+
+export type CollectionBulkAction = 'show' | 'hide' | 'delete' | 'duplicate' | 'set_field';
+
+export interface CollectionBulkParams {
+  collection: Collection;
+  action: CollectionBulkAction;
+  itemIds: string[];
+  /** Field and value for set_field */
+  field?: string;
+  value?: unknown;
+  userId: string;
+  userType: UserType;
+  request?: Request;
+}
+
+export interface CollectionBulkResult {
+  action: CollectionBulkAction;
+  /** Updated items, or the new copies for duplicate */
+  items: CollectionItem[];
+  /** Deleted items, including items of any collection removed by reference cascades */
+  deleted: { id: string; collection_key: string }[];
+}
+
+/**
+ * Set one field on every item, validating each item's resulting data
+ * Errors are keyed "<item id>.<field>" so the failing items can be picked out
+ */
+async function setField(
+  collection: Collection,
+  items: CollectionItem[],
+  field: string,
+  value: unknown
+): Promise<{ id: string; data: Record<string, unknown> }[]> {
+  const itemSchema = collection.item_schema || {};
+  const fieldSchema = itemSchema[field];
+  if (!fieldSchema) {
+    throw new ValidationError(`Unknown field "${field}"`);
+  }
+
+  const fieldErrors: Record<string, string> = {};
+  const updates = items.flatMap((item) => {
+    try {
+      const data = sanitizeItemData(itemSchema, { ...item.data, [field]: value });
+      return [{ id: item.id, data: validateItemData(itemSchema, data) }];
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      for (const [key, message] of Object.entries(error.fieldErrors ?? { _: error.message })) {
+        fieldErrors[`${item.id}.${key}`] = message;
+      }
+      return [];
+    }
+  });
+
+  // Every item gets the same value, so references are checked once
+  const ids = updates[0]?.data[field];
+  if (fieldSchema.type === 'reference' && fieldSchema.collection && ids !== undefined) {
+    const wanted = ([] as string[]).concat(ids as string | string[]);
+    const found = await findCollectionItemIds(collection.site_id, fieldSchema.collection, wanted);
+    if (found.size < wanted.length) {
+      throw new ValidationError(`${fieldSchema.label} references an item that doesn't exist`);
+    }
+  }
+
+  const count = new Set(Object.keys(fieldErrors).map((key) => key.split('.')[0])).size;
+  if (count > 0) {
+    throw new ValidationError(
+      `${fieldSchema.label} can't be set on ${count} of the selected items - nothing was changed`,
+      fieldErrors
+    );
+  }
+
+  return updates;
+}
+
+/**
+ * Copy items after the collection's existing items
+ * Copies use the same images from the media library
+ */
+async function duplicateItems(
+  collection: Collection,
+  items: CollectionItem[]
+): Promise<CollectionItem[]> {
+  return importCollectionItems(
+    collection.id,
+    items.map((item) => ({
+      data: item.data,
+      is_visible: item.is_visible,
+      visible_from: item.visible_from,
+      visible_until: item.visible_until,
+      visibility_window: item.visibility_window,
+    })),
+    collection.max_items
+  );
+}
+
+/**
+ * Apply one action to many items of a collection
+ * Permissions are checked by the caller; every item must be in the collection
+ */
+export async function applyCollectionBulkAction(
+  params: CollectionBulkParams
+): Promise<CollectionBulkResult> {
+  const { collection, action, field, value, userId, userType, request } = params;
+  const itemIds = [...new Set(params.itemIds)];
+  const items = await getCollectionItemsByIds(collection.id, itemIds);
+
+  const result: CollectionBulkResult = { action, items: [], deleted: [] };
+  const changes: Record<string, { old: unknown; new: unknown }> = {};
+
+  switch (action) {
+    case 'show':
+    case 'hide': {
+      const isVisible = action === 'show';
+      result.items = await bulkUpdateCollectionItems(
+        collection.id,
+        itemIds.map((id) => ({ id, is_visible: isVisible }))
+      );
+      changes.is_visible = {
+        old: Object.fromEntries(items.map((item) => [item.id, item.is_visible])),
+        new: isVisible,
+      };
+      break;
+    }
+
+    case 'set_field': {
+      const updates = await setField(collection, items, field!, value);
+      result.items = await bulkUpdateCollectionItems(collection.id, updates);
+
+      changes[field!] = {
+        old: Object.fromEntries(items.map((item) => [item.id, item.data[field!] ?? null])),
+        new: result.items[0]?.data[field!] ?? null,
+      };
+      break;
+    }
+
+    case 'duplicate': {
+      result.items = await duplicateItems(collection, items);
+      changes.duplicated = {
+        old: items.map((item) => item.id),
+        new: result.items.map((item) => item.id),
+      };
+      break;
+    }
+
+    case 'delete': {
+      // Moved to the trash - uploads are kept until it's purged
+      const deleted = await deleteCollectionItems(collection.id, itemIds);
+      result.deleted = deleted;
+      changes.data = {
+        old: Object.fromEntries(items.map((item) => [item.id, item.data])),
+        new: null,
+      };
+      const cascaded = deleted.map((entry) => entry.id).filter((id) => !itemIds.includes(id));
+      if (cascaded.length > 0) {
+        changes.cascaded_items = { old: cascaded, new: null };
+      }
+      break;
+    }
+  }
+
+  // One entry for the whole operation
+  await logActivity({
+    siteId: collection.site_id,
+    userId,
+    userType,
+    action: 'bulk_collection_items',
+    entityType: 'collection',
+    entityId: collection.id,
+    changes: {
+      bulk: { old: null, new: { action, item_ids: itemIds, count: itemIds.length } },
+      ...changes,
+    },
+    request,
+  });
+
+  return result;
+}
@@ -0,0 +1,561 @@
+// Collection item import and export
+// Maps CSV or JSON rows onto a collection's item_schema, validates every row,
+// and imports them in one transaction; exports items in sort_order
+
+import type {
+  Collection,
+  CollectionFieldSchema,
+  CollectionItem,
+  ImageFieldValue,
+  PriceValue,
+  UserType,
+  VisibilityWindow,
+} from '@/lib/types/database';
+import {
+  validateItemData,
+  sanitizeItemData,
+  currencyDigits,
+  DEFAULT_CURRENCY,
+} from '@/lib/security/item-schema';
+import { MAX_IMPORT_ROWS, collectionItemScheduleSchema } from '@/lib/security/validation';
+import { ValidationError } from '@/lib/utils/errors';
+import { parseCsv, toCsv } from '@/lib/utils/csv';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getCollectionItems,
+  importCollectionItems,
+  findCollectionItemIds,
+} from '@/lib/db/collections';
+
+type ItemSchema = Record<string, CollectionFieldSchema>;
+
+// Column holding an item's visibility, alongside the schema fields
+const VISIBILITY_COLUMN = 'is_visible';
+
+// Columns holding an item's visibility schedule: ISO date-times with a
+// timezone, and the weekly window as JSON ({"days":[1,2],"start":"09:00","end":"17:00"})
+const SCHEDULE_COLUMNS = ['visible_from', 'visible_until', 'visibility_window'] as const;
+
+type ScheduleColumn = (typeof SCHEDULE_COLUMNS)[number];
+
+interface ItemSchedule {
+  visible_from: string | null;
+  visible_until: string | null;
+  visibility_window: VisibilityWindow | null;
+}
+
+// Separates the values of multi_select, list and multiple reference cells
+const LIST_SEPARATOR = '|';
+
+// Rows shown in a dry run's sample
+const SAMPLE_SIZE = 5;
+
+export type CollectionImportFormat = 'csv' | 'json';
+
+export interface CollectionImportRowError {
+  /** CSV: the spreadsheet row, counting the header as row 1. JSON: 1-based position */
+  row: number;
+  errors: Record<string, string>;
+}
+
+export interface CollectionImportPreview {
+  /** Column -> field key it's imported into, or null if it's ignored */
+  mapping: Record<string, string | null>;
+  total_rows: number;
+  valid_rows: number;
+  errors: CollectionImportRowError[];
+  /** Why the import can't run as a whole, e.g. it would exceed max_items */
+  blocked_reason: string | null;
+  can_import: boolean;
+  /** The first rows as they would be saved */
+  sample: Record<string, unknown>[];
+}
+
+export interface CollectionImportParams {
+  collection: Collection;
+  format: CollectionImportFormat;
+  content: string | unknown[];
+  mapping?: Record<string, string | null>;
+}
+
+interface ImportRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+type PlannedItem = { data: Record<string, unknown>; is_visible: boolean } & ItemSchedule;
+
+interface PlannedImport {
+  preview: CollectionImportPreview;
+  items: PlannedItem[];
+}
+
+// ============================================
+// READING ROWS
+// ============================================
+
+/**
+ * Read the columns and rows of an import file
+ */
+function readRows(
+  format: CollectionImportFormat,
+  content: string | unknown[]
+): { columns: string[]; rows: ImportRow[] } {
+  if (format === 'csv') {
+    if (typeof content !== 'string') {
+      throw new ValidationError('CSV content must be text');
+    }
+
+    const [header, ...records] = parseCsv(content);
+    if (!header) {
+      throw new ValidationError('The file is empty');
+    }
+
+    const columns = header.map((column) => column.trim());
+    const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+    if (duplicate !== undefined) {
+      throw new ValidationError(`Column "${duplicate}" appears more than once`);
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+    }
+
+    return {
+      columns,
+      rows: records.map((record, i) => ({
+        row: i + 2,
+        values: Object.fromEntries(columns.map((column, j) => [column, record[j] ?? ''])),
+      })),
+    };
+  }
+
+  let entries: unknown = content;
+  if (typeof content === 'string') {
+    try {
+      entries = JSON.parse(content);
+    } catch {
+      throw new ValidationError('The file is not valid JSON');
+    }
+  }
+
+  // Accept an export of the public API as well as a bare array
+  if (entries && typeof entries === 'object' && !Array.isArray(entries)) {
+    entries = (entries as { items?: unknown }).items;
+  }
+  if (!Array.isArray(entries)) {
+    throw new ValidationError('JSON content must be an array of items');
+  }
+  if (entries.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+  }
+
+  const columns = new Set<string>();
+  const rows = entries.map((entry, i) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new ValidationError(`Item ${i + 1} must be an object`);
+    }
+    Object.keys(entry).forEach((key) => columns.add(key));
+    return { row: i + 1, values: entry as Record<string, unknown> };
+  });
+
+  return { columns: [...columns], rows };
+}
+
+// Compare column names loosely: "Dish Name" matches dish_name
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Decide which field each column is imported into
+ * Explicit mappings win; other columns match a field key or label, ignoring
+ * case, spaces and punctuation. Unmatched columns are ignored.
+ */
+function resolveMapping(
+  columns: string[],
+  itemSchema: ItemSchema,
+  explicit: Record<string, string | null> = {}
+): Record<string, string | null> {
+  const targets = [...Object.keys(itemSchema), VISIBILITY_COLUMN, ...SCHEDULE_COLUMNS];
+  const mapping: Record<string, string | null> = {};
+
+  for (const column of columns) {
+    if (column in explicit) {
+      const target = explicit[column] ?? null;
+      if (target !== null && !targets.includes(target)) {
+        throw new ValidationError(`Column "${column}" is mapped to unknown field "${target}"`);
+      }
+      mapping[column] = target;
+      continue;
+    }
+
+    const name = normalizeName(column);
+    mapping[column] =
+      targets.find(
+        (key) =>
+          normalizeName(key) === name ||
+          (itemSchema[key] && normalizeName(itemSchema[key].label) === name)
+      ) ?? null;
+  }
+
+  // Two columns feeding one field would silently overwrite each other
+  const seen = new Map<string, string>();
+  for (const [column, target] of Object.entries(mapping)) {
+    if (target === null) continue;
+    if (seen.has(target)) {
+      throw new ValidationError(
+        `Columns "${seen.get(target)}" and "${column}" are both mapped to "${target}"`
+      );
+    }
+    seen.set(target, column);
+  }
+
+  return mapping;
+}
+
+// ============================================
+// CELL CONVERSION
+// ============================================
+
+// Booleans as spreadsheets tend to write them
+function parseBoolean(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return value;
+}
+
+// JSON cells for structured values, left as text if they don't parse
+function parseJsonCell(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Turn a CSV cell into a value for its field
+ * The item validation does the rest, so unparseable cells are passed on as text
+ * and get the field's usual error message
+ */
+function convertCell(field: CollectionFieldSchema, cell: string): unknown {
+  const value = cell.trim();
+  if (value === '') return undefined;
+
+  switch (field.type) {
+    case 'boolean':
+      return parseBoolean(value);
+
+    case 'multi_select':
+    case 'list':
+      return value.split(LIST_SEPARATOR).map((entry) => entry.trim());
+
+    case 'reference':
+      return field.multiple ? value.split(LIST_SEPARATOR).map((entry) => entry.trim()) : value;
+
+    case 'price': {
+      // "12.50" is in the field's currency; "12.50 EUR" names its own
+      const match = /^(.*\d)\s*([A-Za-z]{3})$/.exec(value);
+      if (!match) return value;
+      const currency = match[2]!.toUpperCase();
+      const amount = Number(match[1]!.replace(/[^0-9.\-]/g, ''));
+      return Number.isFinite(amount)
+        ? { amount: Math.round(amount * 10 ** currencyDigits(currency)), currency }
+        : value;
+    }
+
+    case 'image':
+      return value.startsWith('{') ? parseJsonCell(value) : value;
+
+    case 'group':
+      return parseJsonCell(value);
+
+    default:
+      return cell;
+  }
+}
+
+/**
+ * Turn a schedule cell into its value; empty cells clear the setting
+ */
+function convertScheduleCell(column: ScheduleColumn, cell: string): unknown {
+  const value = cell.trim();
+  if (value === '') return null;
+  return column === 'visibility_window' ? parseJsonCell(value) : value;
+}
+
+/**
+ * Format a stored value as a CSV cell, the inverse of convertCell
+ */
+function formatCell(field: CollectionFieldSchema, value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  switch (field.type) {
+    case 'multi_select':
+    case 'list':
+    case 'reference':
+      return Array.isArray(value)
+        ? value
+            .map((entry) =>
+              entry && typeof entry === 'object' ? (entry as ImageFieldValue).url : String(entry)
+            )
+            .join(LIST_SEPARATOR)
+        : String(value);
+
+    case 'price': {
+      const price = value as PriceValue;
+      const digits = currencyDigits(price.currency);
+      const amount = (price.amount / 10 ** digits).toFixed(digits);
+      return price.currency === (field.currency ?? DEFAULT_CURRENCY)
+        ? amount
+        : `${amount} ${price.currency}`;
+    }
+
+    case 'image': {
+      // Alt text only survives as JSON
+      const image = typeof value === 'string' ? { url: value } : (value as ImageFieldValue);
+      return image.alt ? JSON.stringify(image) : image.url;
+    }
+
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Map, convert and validate every row, and check the import as a whole
+ */
+async function planImport(params: CollectionImportParams): Promise<PlannedImport> {
+  const { collection, format, content } = params;
+  const itemSchema = collection.item_schema || {};
+
+  const { columns, rows } = readRows(format, content);
+  const mapping = resolveMapping(columns, itemSchema, params.mapping);
+
+  const errors = new Map<number, Record<string, string>>();
+  const valid: ({ row: number } & PlannedItem)[] = [];
+
+  for (const { row, values } of rows) {
+    const data: Record<string, unknown> = {};
+    const schedule: Record<string, unknown> = {};
+    let isVisible: unknown = true;
+
+    for (const [column, target] of Object.entries(mapping)) {
+      if (target === null) continue;
+      const raw = values[column];
+
+      if (target === VISIBILITY_COLUMN) {
+        const visible = typeof raw === 'string' ? (raw.trim() === '' ? true : parseBoolean(raw)) : raw;
+        isVisible = visible ?? true;
+        continue;
+      }
+
+      if ((SCHEDULE_COLUMNS as readonly string[]).includes(target)) {
+        schedule[target] =
+          format === 'csv' && typeof raw === 'string'
+            ? convertScheduleCell(target as ScheduleColumn, raw)
+            : raw ?? null;
+        continue;
+      }
+
+      const field = itemSchema[target]!;
+      const value = format === 'csv' && typeof raw === 'string' ? convertCell(field, raw) : raw;
+      if (value !== undefined) data[target] = value;
+    }
+
+    const rowErrors: Record<string, string> = {};
+    if (typeof isVisible !== 'boolean') {
+      rowErrors[VISIBILITY_COLUMN] = 'Visibility must be true or false';
+    }
+
+    const scheduleResult = collectionItemScheduleSchema.safeParse(schedule);
+    if (!scheduleResult.success) {
+      for (const issue of scheduleResult.error.issues) {
+        const column = String(issue.path[0] ?? '_');
+        rowErrors[column] ??=
+          column === 'visibility_window' && issue.code === 'invalid_type'
+            ? 'Weekly window must be JSON like {"days":[1,2],"start":"09:00","end":"17:00"}'
+            : issue.message;
+      }
+    }
+
+    try {
+      const validated = validateItemData(itemSchema, sanitizeItemData(itemSchema, data));
+      if (Object.keys(rowErrors).length === 0 && scheduleResult.success) {
+        valid.push({
+          row,
+          data: validated,
+          is_visible: isVisible as boolean,
+          visible_from: scheduleResult.data.visible_from ?? null,
+          visible_until: scheduleResult.data.visible_until ?? null,
+          visibility_window: scheduleResult.data.visibility_window ?? null,
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      Object.assign(rowErrors, error.fieldErrors ?? { _: error.message });
+    }
+
+    if (Object.keys(rowErrors).length > 0) {
+      errors.set(row, rowErrors);
+    }
+  }
+
+  // Referenced items are looked up once per field for all rows
+  for (const [key, field] of Object.entries(itemSchema)) {
+    if (field.type !== 'reference' || !field.collection) continue;
+
+    const idsOf = (data: Record<string, unknown>) =>
+      data[key] === undefined ? [] : ([] as string[]).concat(data[key] as string | string[]);
+    const found = await findCollectionItemIds(
+      collection.site_id,
+      field.collection,
+      [...new Set(valid.flatMap((entry) => idsOf(entry.data)))]
+    );
+
+    for (const entry of valid) {
+      if (idsOf(entry.data).some((id) => !found.has(id))) {
+        errors.set(entry.row, {
+          ...errors.get(entry.row),
+          [key]: `${field.label} references an item that doesn't exist`,
+        });
+      }
+    }
+  }
+
+  const items = valid.filter((entry) => !errors.has(entry.row));
+
+  let blockedReason: string | null = null;
+  if (rows.length === 0) {
+    blockedReason = 'The file has no rows to import';
+  } else if (collection.max_items) {
+    const existing = (await getCollectionItems(collection.id)).length;
+    if (existing + rows.length > collection.max_items) {
+      blockedReason = `The collection holds at most ${collection.max_items} items - it has ${existing}, and the file has ${rows.length} rows`;
+    }
+  }
+
+  return {
+    preview: {
+      mapping,
+      total_rows: rows.length,
+      valid_rows: items.length,
+      errors: [...errors.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([row, rowErrors]) => ({ row, errors: rowErrors })),
+      blocked_reason: blockedReason,
+      can_import: errors.size === 0 && blockedReason === null,
+      sample: items.slice(0, SAMPLE_SIZE).map((entry) => entry.data),
+    },
+    items: items.map(({ data, is_visible, visible_from, visible_until, visibility_window }) => ({
+      data,
+      is_visible,
+      visible_from,
+      visible_until,
+      visibility_window,
+    })),
+  };
+}
+
+/**
+ * Dry run: report the column mapping and every row's errors without saving
+ */
+export async function previewCollectionImport(
+  params: CollectionImportParams
+): Promise<CollectionImportPreview> {
+  return (await planImport(params)).preview;
+}
+
+/**
+ * Import every row, or none if any row is invalid
+ * Row errors are thrown as a ValidationError keyed "<row>.<field>"
+ */
+export async function applyCollectionImport(
+  params: CollectionImportParams & {
+    userId: string;
+    userType: UserType;
+    request?: Request;
+  }
+): Promise<CollectionImportPreview & { items: CollectionItem[] }> {
+  const { collection, userId, userType, request } = params;
+  const { preview, items } = await planImport(params);
+
+  if (preview.errors.length > 0) {
+    const fieldErrors = Object.fromEntries(
+      preview.errors.flatMap(({ row, errors }) =>
+        Object.entries(errors).map(([field, message]) => [`${row}.${field}`, message])
+      )
+    );
+    const count = preview.errors.length;
+    throw new ValidationError(
+      `${count} ${count === 1 ? 'row is' : 'rows are'} invalid - nothing was imported`,
+      fieldErrors
+    );
+  }
+
+  if (preview.blocked_reason) {
+    throw new ValidationError(preview.blocked_reason);
+  }
+
+  const imported = await importCollectionItems(collection.id, items, collection.max_items);
+
+  await logActivity({
+    siteId: collection.site_id,
+    userId,
+    userType,
+    action: 'import_collection_items',
+    entityType: 'collection',
+    entityId: collection.id,
+    changes: {
+      items: { old: null, new: imported.length },
+      mapping: { old: null, new: preview.mapping },
+    },
+    request,
+  });
+
+  return { ...preview, items: imported };
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Export a collection's items in sort_order
+ * CSV has a column per schema field plus is_visible and the schedule columns,
+ * in the format import reads
+ */
+export async function exportCollectionItems(
+  collection: Collection,
+  format: CollectionImportFormat
+): Promise<string> {
+  const itemSchema = collection.item_schema || {};
+  const items = await getCollectionItems(collection.id);
+
+  if (format === 'json') {
+    return JSON.stringify(
+      items.map((item) => ({
+        ...item.data,
+        [VISIBILITY_COLUMN]: item.is_visible,
+        ...Object.fromEntries(SCHEDULE_COLUMNS.map((column) => [column, item[column] ?? null])),
+      })),
+      null,
+      2
+    );
+  }
+
+  const keys = Object.keys(itemSchema);
+  return toCsv([
+    [...keys, VISIBILITY_COLUMN, ...SCHEDULE_COLUMNS],
+    ...items.map((item) => [
+      ...keys.map((key) => formatCell(itemSchema[key]!, item.data[key])),
+      String(item.is_visible),
+      item.visible_from ?? '',
+      item.visible_until ?? '',
+      item.visibility_window ? JSON.stringify(item.visibility_window) : '',
+    ]),
+  ]);
+}
@@ -0,0 +1,233 @@
+// Content snapshot diffing
+// Compares two content snapshots key by key so clients can see what a publish changes
+
+import type { CollectionItem, ContentSnapshot } from '@/lib/types/database';
+
+export interface ValueChange {
+  old: unknown;
+  new: unknown;
+}
+
+export interface CollectionItemChange {
+  id: string;
+  data: Record<string, unknown>;
+  fields: Record<string, ValueChange>;
+  visibility?: ValueChange;
+  schedule?: ValueChange;
+}
+
+export interface ImageChange {
+  url?: ValueChange;
+  alt_text?: ValueChange;
+  focal_point?: ValueChange;
+  crop?: ValueChange;
+}
+
+export interface CollectionDiff {
+  label: string;
+  added: CollectionItem[];
+  removed: CollectionItem[];
+  edited: CollectionItemChange[];
+  reordered: boolean;
+}
+
+export interface ContentDiff {
+  text: Record<string, ValueChange>;
+  business: Record<string, ValueChange>;
+  images: Record<string, ImageChange>;
+  collections: Record<string, CollectionDiff>;
+  has_changes: boolean;
+}
+
+// Business info columns that are bookkeeping rather than content
+const BUSINESS_IGNORED_KEYS = new Set(['id', 'site_id', 'created_at', 'updated_at']);
+
+/**
+ * Structural equality for JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    // Treat null, undefined and missing as the same "empty" value
+    return (a ?? null) === (b ?? null);
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+
+  for (const key of keys) {
+    if (!isEqual(aRecord[key], bRecord[key])) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Compare two flat records, returning changed keys
+ */
+function diffRecords(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  ignoredKeys: Set<string> = new Set()
+): Record<string, ValueChange> {
+  const changes: Record<string, ValueChange> = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  for (const key of keys) {
+    if (ignoredKeys.has(key)) continue;
+    if (!isEqual(from[key], to[key])) {
+      changes[key] = { old: from[key] ?? null, new: to[key] ?? null };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Schedule fields of an item (missing in snapshots published before scheduling)
+ */
+function scheduleOf(item: CollectionItem) {
+  return {
+    visible_from: item.visible_from ?? null,
+    visible_until: item.visible_until ?? null,
+    visibility_window: item.visibility_window ?? null,
+  };
+}
+
+/**
+ * Compare the items of one collection
+ */
+function diffCollectionItems(
+  label: string,
+  fromItems: CollectionItem[],
+  toItems: CollectionItem[]
+): CollectionDiff {
+  const bySortOrder = (a: CollectionItem, b: CollectionItem) => a.sort_order - b.sort_order;
+  const fromSorted = [...fromItems].sort(bySortOrder);
+  const toSorted = [...toItems].sort(bySortOrder);
+
+  const fromById = new Map(fromSorted.map((item) => [item.id, item]));
+  const toById = new Map(toSorted.map((item) => [item.id, item]));
+
+  const added = toSorted.filter((item) => !fromById.has(item.id));
+  const removed = fromSorted.filter((item) => !toById.has(item.id));
+
+  const edited: CollectionItemChange[] = [];
+  for (const item of toSorted) {
+    const previous = fromById.get(item.id);
+    if (!previous) continue;
+
+    const fields = diffRecords(previous.data || {}, item.data || {});
+    const change: CollectionItemChange = { id: item.id, data: item.data, fields };
+
+    if (previous.is_visible !== item.is_visible) {
+      change.visibility = { old: previous.is_visible, new: item.is_visible };
+    }
+
+    const previousSchedule = scheduleOf(previous);
+    const schedule = scheduleOf(item);
+    if (!isEqual(previousSchedule, schedule)) {
+      change.schedule = { old: previousSchedule, new: schedule };
+    }
+
+    if (Object.keys(fields).length > 0 || change.visibility || change.schedule) {
+      edited.push(change);
+    }
+  }
+
+  // Reordered if the items present in both versions appear in a different order
+  const fromOrder = fromSorted.filter((item) => toById.has(item.id)).map((item) => item.id);
+  const toOrder = toSorted.filter((item) => fromById.has(item.id)).map((item) => item.id);
+  const reordered = !isEqual(fromOrder, toOrder);
+
+  return { label, added, removed, edited, reordered };
+}
+
+/**
+ * Compare two content snapshots
+ * A null `from` is treated as an empty site, so everything in `to` shows as added
+ */
+export function diffSnapshots(
+  from: ContentSnapshot | null,
+  to: ContentSnapshot
+): ContentDiff {
+  // Text fields
+  const fromText = Object.fromEntries(
+    (from?.text_content || []).map((t) => [t.content_key, t.content])
+  );
+  const toText = Object.fromEntries(
+    (to.text_content || []).map((t) => [t.content_key, t.content])
+  );
+  const text = diffRecords(fromText, toText);
+
+  // Business info
+  const business = diffRecords(
+    (from?.business_info || {}) as unknown as Record<string, unknown>,
+    (to.business_info || {}) as unknown as Record<string, unknown>,
+    BUSINESS_IGNORED_KEYS
+  );
+
+  // Images
+  const images: ContentDiff['images'] = {};
+  const fromImages = new Map((from?.images || []).map((i) => [i.image_key, i]));
+  const toImages = new Map((to.images || []).map((i) => [i.image_key, i]));
+
+  for (const key of new Set([...fromImages.keys(), ...toImages.keys()])) {
+    const previous = fromImages.get(key);
+    const current = toImages.get(key);
+    const change: ImageChange = {};
+
+    for (const field of ['url', 'alt_text', 'focal_point', 'crop'] as const) {
+      if (!isEqual(previous?.[field], current?.[field])) {
+        change[field] = { old: previous?.[field] ?? null, new: current?.[field] ?? null };
+      }
+    }
+
+    if (Object.keys(change).length > 0) {
+      images[key] = change;
+    }
+  }
+
+  // Collections
+  const collections: ContentDiff['collections'] = {};
+  const fromCollections = new Map((from?.collections || []).map((c) => [c.collection_key, c]));
+  const toCollections = new Map((to.collections || []).map((c) => [c.collection_key, c]));
+
+  for (const key of new Set([...fromCollections.keys(), ...toCollections.keys()])) {
+    const previous = fromCollections.get(key);
+    const current = toCollections.get(key);
+    const collectionDiff = diffCollectionItems(
+      current?.label ?? previous?.label ?? key,
+      previous?.items || [],
+      current?.items || []
+    );
+
+    if (
+      collectionDiff.added.length > 0 ||
+      collectionDiff.removed.length > 0 ||
+      collectionDiff.edited.length > 0 ||
+      collectionDiff.reordered
+    ) {
+      collections[key] = collectionDiff;
+    }
+  }
+
+  return {
+    text,
+    business,
+    images,
+    collections,
+    has_changes:
+      Object.keys(text).length > 0 ||
+      Object.keys(business).length > 0 ||
+      Object.keys(images).length > 0 ||
+      Object.keys(collections).length > 0,
+  };
+}
@@ -0,0 +1,127 @@
+// Image framing
+// Saves a client's alt text, focal point and crop for a slot's upload. The
+// original file is never changed - a new crop re-renders the responsive
+// variants and placeholder from the cropped area instead. A slot can also be switched to
+// another asset from the media library.
+
+import type { Image, ImageCrop, UserType } from '@/lib/types/database';
+import type { UpdateImageRequest } from '@/lib/types/api';
+import { sanitizeText } from '@/lib/security/sanitize';
+import { ValidationError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import { getImageByKey, updateImageDetails } from '@/lib/db/content';
+import { getMediaAsset } from '@/lib/db/media';
+import { removeSlotCropVariants } from '@/lib/content/media';
+import {
+  downloadImage,
+  renderImageVariants,
+  uploadImageVariants,
+  renderImagePlaceholder,
+  checkImageDimensions,
+} from '@/lib/storage/images';
+
+export interface UpdateSiteImageParams {
+  siteId: string;
+  imageKey: string;
+  input: UpdateImageRequest;
+  userId: string;
+  userType: UserType;
+  request?: Request;
+}
+
+const sameCrop = (a: ImageCrop | null, b: ImageCrop | null) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Update the alt text, focal point and crop of a slot's current upload, or
+ * switch the slot to an asset from the media library
+ * Focal point and crop are fractions of the original upload
+ */
+export async function updateSiteImage(params: UpdateSiteImageParams): Promise<Image> {
+  const { siteId, imageKey, input, userId, userType, request } = params;
+
+  const current = await getImageByKey(siteId, imageKey);
+  const update: Parameters<typeof updateImageDetails>[2] = {};
+  let source: Pick<Image, 'url' | 'variants' | 'crop'> = current;
+
+  if (input.media_id) {
+    // The asset's own alt text and variants; framing starts over
+    const asset = await getMediaAsset(siteId, input.media_id);
+    if (asset.width && asset.height) {
+      // Only enforced sizes matter here - the picker shows each asset's size
+      checkImageDimensions(current, asset.width, asset.height);
+    }
+    Object.assign(update, {
+      url: asset.url,
+      alt_text: asset.alt_text,
+      width: asset.width,
+      height: asset.height,
+      variants: asset.variants,
+      placeholder: asset.placeholder,
+      focal_point: null,
+      crop: null,
+    });
+    source = { url: asset.url, variants: asset.variants, crop: null };
+  }
+
+  if (input.alt_text !== undefined) {
+    update.alt_text = input.alt_text ? sanitizeText(input.alt_text, 255) : null;
+  }
+
+  if ((input.focal_point || input.crop) && !source.url) {
+    throw new ValidationError('Upload an image before framing it');
+  }
+
+  if (input.focal_point !== undefined) {
+    update.focal_point = input.focal_point;
+  }
+
+  const crop = input.crop === undefined ? source.crop : input.crop;
+
+  if (source.url && !sameCrop(crop, source.crop)) {
+    // GIFs keep no variants, so there's nothing to crop
+    if (source.variants.length === 0) {
+      throw new ValidationError('This image cannot be cropped');
+    }
+
+    // Rendered from the stored original, which readImage already cleaned
+    const image = await downloadImage(source.url);
+
+    // New names so caches holding the previous variants can't serve them
+    const tag = `c${Date.now().toString(36)}`;
+    update.variants = await uploadImageVariants(
+      source.url,
+      await renderImageVariants(image, crop),
+      tag
+    );
+    update.placeholder = await renderImagePlaceholder(image, crop);
+    update.crop = crop;
+  }
+
+  const updated = await updateImageDetails(siteId, imageKey, update);
+
+  // The previous crop's variants, unless a published version still shows them
+  if (update.variants) {
+    await removeSlotCropVariants(siteId, current);
+  }
+
+  const changes: Record<string, { old: unknown; new: unknown }> = {};
+  for (const key of ['url', 'alt_text', 'focal_point', 'crop'] as const) {
+    if (key in update && JSON.stringify(current[key]) !== JSON.stringify(updated[key])) {
+      changes[key] = { old: current[key], new: updated[key] };
+    }
+  }
+
+  await logActivity({
+    siteId,
+    userId,
+    userType,
+    action: 'update_image',
+    entityType: 'image',
+    entityId: updated.id,
+    changes,
+    request,
+  });
+
+  return updated;
+}
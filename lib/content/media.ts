@@ -0,0 +1,182 @@
+// Media library
+// Every upload is stored once per site and can be used by any image slot or
+// collection image field. Replacing an image keeps the old file in the
+// library; files are only removed by deleting an asset nothing uses anymore.
+// Uploads to a collection item are stored in the item's folder but are
+// library assets like any other, so other items and slots can reuse them.
+
+import type {
+  Image,
+  MediaAsset,
+  MediaAssetWithUsage,
+  MediaUsage,
+  UserType,
+} from '@/lib/types/database';
+import { sanitizeText } from '@/lib/security/sanitize';
+import { ConflictError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getMediaAssets,
+  getMediaAsset,
+  getMediaAssetByUrl,
+  createMediaAsset,
+  deleteMediaAsset,
+  getMediaReferences,
+} from '@/lib/db/media';
+import {
+  uploadImage,
+  renderImageVariants,
+  uploadImageVariants,
+  renderImagePlaceholder,
+  imageSlotFiles,
+  removeImages,
+  type ReadImage,
+} from '@/lib/storage/images';
+
+/**
+ * Folder holding a site's library uploads
+ */
+export function mediaFolder(siteId: string): string {
+  return `${siteId}/media`;
+}
+
+/**
+ * Folder holding the uploads made to a collection item
+ */
+export function collectionItemImageFolder(
+  siteId: string,
+  collectionKey: string,
+  itemId: string
+): string {
+  return `${siteId}/collections/${collectionKey}/${itemId}`;
+}
+
+export interface AddMediaAssetParams {
+  siteId: string;
+  image: ReadImage; // checked and stripped by readImage
+  filename: string;
+  extension: string;
+  altText?: string | null;
+  folder?: string; // defaults to mediaFolder
+  userId: string;
+  userType: UserType;
+}
+
+/**
+ * Store an upload with its responsive variants and placeholder and add it to
+ * the library
+ */
+export async function addMediaAsset(params: AddMediaAssetParams): Promise<MediaAsset> {
+  const { siteId, image, filename, extension, altText, folder, userId, userType } = params;
+
+  const rendered = await renderImageVariants(image);
+  const placeholder = await renderImagePlaceholder(image);
+  const url = await uploadImage(folder ?? mediaFolder(siteId), image, extension);
+  const variants = await uploadImageVariants(url, rendered);
+
+  try {
+    return await createMediaAsset({
+      site_id: siteId,
+      url,
+      filename: sanitizeText(filename, 255) || null,
+      content_type: image.type,
+      size_bytes: image.data.length,
+      width: image.width,
+      height: image.height,
+      variants,
+      placeholder,
+      alt_text: altText ? sanitizeText(altText, 255) : null,
+      uploaded_by: userId,
+      uploader_type: userType,
+    });
+  } catch (error) {
+    // Don't leave files behind that the library doesn't know about
+    await removeImages(siteId, imageSlotFiles({ url, variants }));
+    throw error;
+  }
+}
+
+// Usage of each URL in a site
+async function getUsageByUrl(siteId: string): Promise<Map<string, MediaUsage[]>> {
+  const usage = new Map<string, MediaUsage[]>();
+
+  for (const reference of await getMediaReferences(siteId)) {
+    const entries = usage.get(reference.url) ?? [];
+    // An item can point at the same image from several fields
+    if (!entries.some((entry) => JSON.stringify(entry) === JSON.stringify(reference.usage))) {
+      entries.push(reference.usage);
+    }
+    usage.set(reference.url, entries);
+  }
+
+  return usage;
+}
+
+/**
+ * Get a site's media library with what uses each asset
+ */
+export async function getMediaLibrary(siteId: string): Promise<MediaAssetWithUsage[]> {
+  const [assets, usage] = await Promise.all([getMediaAssets(siteId), getUsageByUrl(siteId)]);
+  return assets.map((asset) => ({ ...asset, usage: usage.get(asset.url) ?? [] }));
+}
+
+export interface RemoveMediaAssetParams {
+  siteId: string;
+  id: string;
+  userId: string;
+  userType: UserType;
+  request?: Request;
+}
+
+/**
+ * Delete an asset and its files
+ * Refused while anything uses it - including content in the trash, which
+ * could still be restored, and the published site
+ */
+export async function removeMediaAsset(params: RemoveMediaAssetParams): Promise<void> {
+  const { siteId, id, userId, userType, request } = params;
+
+  const asset = await getMediaAsset(siteId, id);
+  const usage = (await getUsageByUrl(siteId)).get(asset.url) ?? [];
+
+  if (usage.length > 0) {
+    const labels = usage.map((entry) => (entry.in_trash ? `${entry.label} (in trash)` : entry.label));
+    throw new ConflictError(`This image is still used by: ${labels.join(', ')}`);
+  }
+
+  await deleteMediaAsset(siteId, id);
+  await removeImages(siteId, imageSlotFiles(asset));
+
+  await logActivity({
+    siteId,
+    userId,
+    userType,
+    action: 'delete_media',
+    entityType: 'media_asset',
+    entityId: id,
+    changes: { url: { old: asset.url, new: null } },
+    request,
+  });
+}
+
+/**
+ * Remove the variants a slot rendered from its own crop
+ * The asset's variants stay - other slots may use them - and so do crop
+ * variants a published version still shows, until no snapshot points at them
+ */
+export async function removeSlotCropVariants(
+  siteId: string,
+  slot: Pick<Image, 'url' | 'variants'>
+): Promise<void> {
+  const asset = slot.url ? await getMediaAssetByUrl(siteId, slot.url) : null;
+  if (!asset) return;
+
+  const shared = new Set(asset.variants.map((variant) => variant.url));
+  await removeImages(
+    siteId,
+    imageSlotFiles({
+      url: null,
+      variants: slot.variants.filter((variant) => !shared.has(variant.url)),
+    })
+  );
+}
@@ -0,0 +1,249 @@
+// Public API request handling
+// Shared by every route under /api/public/sites/[slug] so they apply the same
+// API key, published-status, preview, caching and CORS rules
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabase/admin';
+import {
+  rateLimit,
+  getClientIp,
+  getRateLimitHeaders,
+  type RateLimitResult,
+} from '@/lib/security/rate-limit';
+import { logSecurityEvent, getRequestContext } from '@/lib/security/logging';
+import { errorResponse } from '@/lib/utils/response';
+import { UnauthorizedError, NotFoundError, RateLimitError, ValidationError } from '@/lib/utils/errors';
+import { verifyPreviewToken } from '@/lib/auth/preview-token';
+import { getLatestPublishedVersion, createContentSnapshot } from '@/lib/db/activity';
+import {
+  buildPublicContent,
+  getCollectionSchemas,
+  getContentEtag,
+  isNotModified,
+  type PublicCollectionSchemas,
+} from './public';
+import { getVisibilityChanges } from './visibility';
+import type { PublicSiteContent } from '@/lib/types/api';
+
+// Sites call these routes from the browser, so conditional request headers
+// must be allowed and the validators exposed to JavaScript
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, x-api-key, x-preview-token, If-None-Match, If-Modified-Since',
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified',
+};
+
+export interface LoadedPublicContent {
+  content: PublicSiteContent;
+  // Collection item schemas, used to expand reference fields
+  schemas: PublicCollectionSchemas;
+  preview: boolean;
+  lastModified: Date | null;
+  // When a scheduled collection item next appears or disappears
+  nextVisibilityChange: Date | null;
+  rateLimitResult: RateLimitResult;
+}
+
+/**
+ * Authenticate a public API request and load the content it may read
+ * Serves the draft for a valid preview token, otherwise the latest published version
+ */
+export async function loadPublicContent(
+  request: NextRequest,
+  slug: string
+): Promise<LoadedPublicContent> {
+  const context = getRequestContext(request);
+  const ip = getClientIp(request);
+
+  // 1. Rate limiting
+  const rateLimitResult = await rateLimit('public', ip);
+  if (!rateLimitResult.success) {
+    await logSecurityEvent({
+      event_type: 'rate_limit_exceeded',
+      ...context,
+      details: { slug },
+      severity: 'warning',
+    });
+    throw new RateLimitError();
+  }
+
+  // 2. Validate API key
+  const apiKey = request.headers.get('x-api-key');
+  if (!apiKey) {
+    throw new UnauthorizedError('API key required');
+  }
+
+  // 3. Validate slug format
+  if (!/^[a-z0-9][a-z0-9-]*[a-z0-9]$/.test(slug) || slug.length < 2) {
+    throw new ValidationError('Invalid site identifier');
+  }
+
+  const supabase = getAdminClient();
+
+  // 4. Verify API key and get site
+  const { data: site, error: siteError } = await supabase
+    .from('sites')
+    .select('id, name, slug, status, published_at, timezone')
+    .eq('slug', slug)
+    .eq('api_key', apiKey)
+    .single() as { data: { id: string; name: string; slug: string; status: string; published_at: string | null; timezone: string } | null; error: Error | null };
+
+  if (siteError || !site) {
+    await logSecurityEvent({
+      event_type: 'invalid_api_key',
+      ...context,
+      details: { slug },
+      severity: 'warning',
+    });
+    // Don't reveal whether site exists - always return same error
+    throw new NotFoundError('Site not found or invalid API key');
+  }
+
+  // 5. Check for a draft preview token
+  const previewToken =
+    request.headers.get('x-preview-token') || request.nextUrl.searchParams.get('preview');
+
+  if (previewToken && !verifyPreviewToken(previewToken, site.id)) {
+    await logSecurityEvent({
+      event_type: 'invalid_token',
+      ...context,
+      details: { slug, token_type: 'preview' },
+      severity: 'warning',
+    });
+    throw new UnauthorizedError('Invalid or expired preview token');
+  }
+
+  // 6a. Preview: serve the current draft, even for unpublished sites
+  if (previewToken) {
+    const snapshot = await createContentSnapshot(site.id);
+    return {
+      content: buildPublicContent(site, snapshot),
+      schemas: getCollectionSchemas(snapshot),
+      preview: true,
+      lastModified: null,
+      nextVisibilityChange: null,
+      rateLimitResult,
+    };
+  }
+
+  // 6b. Published: the site must be live
+  if (site.status !== 'published') {
+    throw new NotFoundError('Site not found or invalid API key');
+  }
+
+  // 7. Load the latest published snapshot (live tables are the draft workspace)
+  const publishedVersion = await getLatestPublishedVersion(site.id);
+  if (!publishedVersion) {
+    throw new NotFoundError('Site not found or invalid API key');
+  }
+
+  // 8. Scheduled items change the response without a publish, so they move
+  // Last-Modified forward and limit how long it can be cached
+  const now = new Date();
+  const snapshot = publishedVersion.content_snapshot;
+  const visibilityChanges = getVisibilityChanges(
+    (snapshot.collections || []).flatMap((c) => c.items || []),
+    now,
+    site.timezone || 'UTC'
+  );
+
+  const publishedAt = new Date(site.published_at ?? publishedVersion.created_at);
+  const lastModified =
+    visibilityChanges.last && visibilityChanges.last > publishedAt
+      ? visibilityChanges.last
+      : publishedAt;
+
+  return {
+    content: buildPublicContent(site, snapshot, now),
+    schemas: getCollectionSchemas(snapshot),
+    preview: false,
+    lastModified,
+    nextVisibilityChange: visibilityChanges.next,
+    rateLimitResult,
+  };
+}
+
+// Seconds the CDN may cache a published response, and serve it stale while revalidating
+const CDN_MAX_AGE = 60;
+const CDN_STALE_WHILE_REVALIDATE = 300;
+
+/**
+ * Cache-Control for a public content response
+ * max-age=0 keeps browsers revalidating while the CDN caches for a minute,
+ * but never past the moment a scheduled item appears or disappears
+ */
+function getCacheControl(loaded: Pick<LoadedPublicContent, 'preview' | 'nextVisibilityChange'>): string {
+  if (loaded.preview) {
+    return 'no-store';
+  }
+
+  if (loaded.nextVisibilityChange) {
+    const untilChange = Math.floor((loaded.nextVisibilityChange.getTime() - Date.now()) / 1000);
+    if (untilChange < CDN_MAX_AGE + CDN_STALE_WHILE_REVALIDATE) {
+      return `public, max-age=0, s-maxage=${Math.max(0, Math.min(untilChange, CDN_MAX_AGE))}`;
+    }
+  }
+
+  return `public, max-age=0, s-maxage=${CDN_MAX_AGE}, stale-while-revalidate=${CDN_STALE_WHILE_REVALIDATE}`;
+}
+
+/**
+ * Respond with public content, honouring conditional GETs
+ * Draft content must never be cached by the CDN or browser
+ */
+export function publicContentResponse(
+  request: NextRequest,
+  body: unknown,
+  loaded: Omit<LoadedPublicContent, 'content' | 'schemas'>,
+  startTime: number
+): NextResponse {
+  const headers = new Headers(getRateLimitHeaders(loaded.rateLimitResult));
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    headers.set(name, value);
+  }
+  headers.set('Cache-Control', getCacheControl(loaded));
+  headers.set('X-Response-Time', `${Date.now() - startTime}ms`);
+
+  if (loaded.preview) {
+    return NextResponse.json(body, { headers });
+  }
+
+  // Pollers that already have this version get an empty 304
+  const etag = getContentEtag(body);
+  headers.set('ETag', etag);
+  if (loaded.lastModified) {
+    headers.set('Last-Modified', loaded.lastModified.toUTCString());
+  }
+
+  if (isNotModified(request, etag, loaded.lastModified)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return NextResponse.json(body, { headers });
+}
+
+/**
+ * Error response with CORS headers so browsers can read the error
+ */
+export function publicErrorResponse(error: unknown, request: NextRequest): NextResponse {
+  const errorRes = errorResponse(error, request);
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    errorRes.headers.set(name, value);
+  }
+  return errorRes;
+}
+
+/**
+ * CORS preflight response
+ */
+export function publicOptionsResponse(): NextResponse {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...CORS_HEADERS,
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
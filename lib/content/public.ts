@@ -0,0 +1,393 @@
+// Public content formatting
+// Builds the payload served to Replit sites from a published content snapshot
+//
+// Since sites are served from snapshots rather than the draft, the published
+// versions own their files: every stored image a publish_history snapshot
+// points at stays in storage as long as that version exists, so the live
+// site and rollbacks keep working however the draft changes - as do the files
+// of a publish request's snapshot while it awaits approval. Draft edits
+// never delete files themselves - all storage deletes go through
+// removeImages (lib/storage/images.ts), which skips snapshot files.
+
+import { createHash } from 'crypto';
+import type {
+  CollectionFieldSchema,
+  ContentSnapshot,
+  Image,
+  ImageFieldValue,
+  PriceValue,
+  Site,
+} from '@/lib/types/database';
+import type { PublicImageValue, PublicSiteContent, PublicSiteImage } from '@/lib/types/api';
+import { formatPrice } from '@/lib/security/item-schema';
+import { cropRegion } from '@/lib/storage/images';
+import { isItemVisibleAt } from './visibility';
+
+/**
+ * Image values as { url, alt }, like site image slots
+ * Older items stored a bare URL string
+ */
+function formatImage(value: unknown): PublicImageValue | null {
+  if (typeof value === 'string') {
+    return { url: value, alt: null };
+  }
+  if (value && typeof value === 'object') {
+    const image = value as ImageFieldValue;
+    return { url: image.url, alt: image.alt ?? null };
+  }
+  return null;
+}
+
+/**
+ * Site image slot as { url, alt, width, height, srcset, focal_point, crop, placeholder }
+ * Snapshots published before variants existed have no size or srcset, ones
+ * from before framing no focal point or crop, and older ones no placeholder
+ */
+function formatSiteImage(image: Image): PublicSiteImage {
+  const crop = image.crop ?? null;
+  const size =
+    image.width && image.height ? cropRegion(image.width, image.height, crop) : null;
+
+  // The focal point is stored against the original; sites show the cropped image
+  const clamp = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 10000) / 10000;
+  const focalPoint = image.focal_point
+    ? crop
+      ? {
+          x: clamp((image.focal_point.x - crop.x) / crop.width),
+          y: clamp((image.focal_point.y - crop.y) / crop.height),
+        }
+      : image.focal_point
+    : null;
+
+  const variants = [...(image.variants || [])].sort((a, b) => a.width - b.width);
+  const srcsetOf = (format: string) =>
+    variants
+      .filter((variant) => variant.format === format)
+      .map((variant) => `${variant.url} ${variant.width}w`)
+      .join(', ');
+
+  return {
+    url: image.url,
+    alt: image.alt_text,
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+    srcset: variants.length > 0 ? { avif: srcsetOf('avif'), webp: srcsetOf('webp') } : null,
+    focal_point: focalPoint,
+    crop,
+    placeholder: image.placeholder ?? null,
+  };
+}
+
+/**
+ * Format stored item data for the public payload
+ * Prices gain a display string and images become { url, alt }; other values
+ * are already normalised on write.
+ * Groups keep their nesting, with prices inside them formatted the same way
+ */
+function formatItemData(
+  itemSchema: Record<string, CollectionFieldSchema>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => {
+      const field = itemSchema[key];
+
+      if (field?.type === 'price' && value && typeof value === 'object') {
+        const price = value as PriceValue;
+        return [key, { amount: price.amount, currency: price.currency, formatted: formatPrice(price) }];
+      }
+
+      if (field?.type === 'image' || (field?.type === 'list' && field.item_type === 'image')) {
+        return [key, Array.isArray(value) ? value.map(formatImage) : formatImage(value)];
+      }
+
+      if (field?.type === 'group' && value && typeof value === 'object') {
+        const formatEntry = (entry: unknown) =>
+          entry && typeof entry === 'object' && !Array.isArray(entry)
+            ? formatItemData(field.fields ?? {}, entry as Record<string, unknown>)
+            : entry;
+        return [key, Array.isArray(value) ? value.map(formatEntry) : formatEntry(value)];
+      }
+
+      return [key, value];
+    })
+  );
+}
+
+/**
+ * Format a content snapshot as the public site content payload
+ * Collection items are filtered by their schedule at `at`, in the site's timezone
+ */
+export function buildPublicContent(
+  site: Pick<Site, 'name' | 'slug' | 'timezone'>,
+  snapshot: ContentSnapshot,
+  at: Date = new Date()
+): PublicSiteContent {
+  const businessInfo = snapshot.business_info;
+
+  return {
+    site: {
+      name: site.name,
+      slug: site.slug,
+    },
+    business: businessInfo
+      ? {
+          business_name: businessInfo.business_name,
+          phone: businessInfo.phone,
+          email: businessInfo.email,
+          address: {
+            street: businessInfo.address_street,
+            city: businessInfo.address_city,
+            state: businessInfo.address_state,
+            zip: businessInfo.address_zip,
+            country: businessInfo.address_country,
+          },
+          hours: businessInfo.hours || {},
+          social: businessInfo.social_links || {},
+          logo_url: businessInfo.logo_url,
+        }
+      : null,
+    text: Object.fromEntries(
+      (snapshot.text_content || []).map((t) => [t.content_key, t.content])
+    ),
+    collections: Object.fromEntries(
+      (snapshot.collections || []).map((c) => [
+        c.collection_key,
+        (c.items || [])
+          .filter((item) => isItemVisibleAt(item, at, site.timezone || 'UTC'))
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map((item) => ({ id: item.id, ...formatItemData(c.item_schema || {}, item.data) })),
+      ])
+    ),
+    images: Object.fromEntries(
+      (snapshot.images || []).map((i) => [i.image_key, formatSiteImage(i)])
+    ),
+  };
+}
+
+/**
+ * Strong ETag for a public content payload
+ * Hashes the serialized body so anything that changes the response changes the tag
+ */
+export function getContentEtag(content: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(content)).digest('base64url');
+  return `"${hash.slice(0, 32)}"`;
+}
+
+/**
+ * Check a conditional GET against the current ETag and Last-Modified date
+ * If-None-Match takes precedence over If-Modified-Since when both are sent
+ */
+export function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified: Date | null
+): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') {
+      return true;
+    }
+
+    // Weak comparison - a CDN may have weakened the tag (W/"...")
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .includes(etag);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have one-second precision
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+type PublicCollectionItem = PublicSiteContent['collections'][string][number];
+
+// Item schema of each collection in a snapshot, by collection key
+export type PublicCollectionSchemas = Record<string, Record<string, CollectionFieldSchema>>;
+
+/**
+ * Item schemas of the collections in a content snapshot
+ */
+export function getCollectionSchemas(snapshot: ContentSnapshot): PublicCollectionSchemas {
+  return Object.fromEntries(
+    (snapshot.collections || []).map((c) => [c.collection_key, c.item_schema || {}])
+  );
+}
+
+/**
+ * Field names from a list that apply to a collection
+ * Unscoped names apply to every collection; "collection.field" entries to one
+ */
+function scopedFieldNames(collectionKey: string, names: string[]): string[] {
+  return names.flatMap((field) => {
+    const [scope, name] = field.includes('.') ? field.split('.') : [null, field];
+    return scope === null || scope === collectionKey ? [name!] : [];
+  });
+}
+
+/**
+ * Replace reference ids with the referenced items
+ * Only references to visible items expand: a missing single reference becomes
+ * null and missing entries of a multiple reference are dropped. Referenced
+ * items are not expanded further.
+ */
+export function expandReferences(
+  content: PublicSiteContent,
+  schemas: PublicCollectionSchemas,
+  collectionKey: string,
+  items: PublicCollectionItem[],
+  expand?: string[]
+): PublicCollectionItem[] {
+  const schema = schemas[collectionKey] ?? {};
+  const expanded = scopedFieldNames(collectionKey, expand ?? []).filter(
+    (name) => schema[name]?.type === 'reference'
+  );
+
+  if (expanded.length === 0) {
+    return items;
+  }
+
+  // Index the referenced collections once
+  const targets = new Map(
+    expanded.map((name) => {
+      const targetKey = schema[name]!.collection!;
+      const targetItems = Object.hasOwn(content.collections, targetKey)
+        ? content.collections[targetKey]!
+        : [];
+      return [name, new Map(targetItems.map((item) => [item.id, item]))];
+    })
+  );
+
+  return items.map((item) => {
+    const result: PublicCollectionItem = { ...item };
+
+    for (const name of expanded) {
+      const value = item[name];
+      const target = targets.get(name)!;
+
+      if (Array.isArray(value)) {
+        result[name] = value.flatMap((id) => target.get(String(id)) ?? []);
+      } else if (value !== undefined && value !== null) {
+        result[name] = target.get(String(value)) ?? null;
+      }
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Keep only the requested fields of collection items
+ * Unscoped fields apply to every collection; "collection.field" entries to one.
+ * The item id is always kept.
+ */
+export function selectItemFields(
+  collectionKey: string,
+  items: PublicCollectionItem[],
+  fields?: string[]
+): PublicCollectionItem[] {
+  if (!fields || fields.length === 0) {
+    return items;
+  }
+
+  const selected = scopedFieldNames(collectionKey, fields);
+
+  if (selected.length === 0) {
+    return items;
+  }
+
+  return items.map((item) =>
+    Object.fromEntries(
+      Object.entries(item).filter(([key]) => key === 'id' || selected.includes(key))
+    ) as PublicCollectionItem
+  );
+}
+
+/**
+ * Keep only the requested sections and keys of a public content payload
+ * "text" includes the whole section, "text.hero_headline" a single key.
+ * Site metadata is always included.
+ */
+export function selectPublicContent(
+  content: PublicSiteContent,
+  options: {
+    include?: string[];
+    fields?: string[];
+    expand?: string[];
+    schemas?: PublicCollectionSchemas;
+  }
+): Partial<PublicSiteContent> & Pick<PublicSiteContent, 'site'> {
+  const { include, fields, expand, schemas = {} } = options;
+  const result: Partial<PublicSiteContent> & Pick<PublicSiteContent, 'site'> = {
+    site: content.site,
+  };
+
+  // Keys requested per section; null means the whole section
+  const sections = new Map<string, Set<string> | null>();
+  for (const path of include ?? ['business', 'text', 'collections', 'images']) {
+    const [section, key] = path.split('.') as [string, string | undefined];
+    const keys = sections.get(section);
+
+    if (!key) {
+      sections.set(section, null);
+    } else if (keys !== null) {
+      sections.set(section, (keys ?? new Set<string>()).add(key));
+    }
+  }
+
+  const pick = <T>(record: Record<string, T>, keys: Set<string> | null) =>
+    keys === null
+      ? record
+      : Object.fromEntries(Object.entries(record).filter(([key]) => keys.has(key)));
+
+  if (sections.has('business')) {
+    result.business = content.business;
+  }
+  if (sections.has('text')) {
+    result.text = pick(content.text, sections.get('text')!);
+  }
+  if (sections.has('collections')) {
+    result.collections = Object.fromEntries(
+      Object.entries(pick(content.collections, sections.get('collections')!)).map(
+        ([key, items]) => [
+          key,
+          selectItemFields(key, expandReferences(content, schemas, key, items, expand), fields),
+        ]
+      )
+    );
+  }
+  if (sections.has('images')) {
+    result.images = pick(content.images, sections.get('images')!);
+  }
+
+  return result;
+}
+
+/**
+ * Filter collection items by exact field values
+ * Array fields match when they contain the value
+ */
+export function filterCollectionItems(
+  items: PublicCollectionItem[],
+  filters: Record<string, string>
+): PublicCollectionItem[] {
+  const entries = Object.entries(filters);
+  if (entries.length === 0) {
+    return items;
+  }
+
+  return items.filter((item) =>
+    entries.every(([field, value]) => {
+      const itemValue = item[field];
+      return Array.isArray(itemValue)
+        ? itemValue.some((v) => String(v) === value)
+        : itemValue !== undefined && itemValue !== null && String(itemValue) === value;
+    })
+  );
+}
@@ -0,0 +1,236 @@
+// Publishing
+// Shared publish path used by the publish route and the scheduled publish
+// runner, and rollback to a previous version
+
+import type { ContentSnapshot, PublishHistory, ScheduledPublish, UserType } from '@/lib/types/database';
+import { ValidationError, NotFoundError } from '@/lib/utils/errors';
+import { validateItemData } from '@/lib/security/item-schema';
+import { getSitePermissions, updateSite } from '@/lib/db/sites';
+import { getCollections } from '@/lib/db/collections';
+import {
+  createPublishEntry,
+  createContentSnapshot,
+  getPublishVersion,
+  restoreContentSnapshot,
+  logActivity,
+} from '@/lib/db/activity';
+import {
+  claimNextDueScheduledPublish,
+  completeScheduledPublish,
+  failScheduledPublish,
+} from '@/lib/db/publishing';
+import { triggerWebhookEvent } from '@/lib/webhooks/dispatch';
+
+export interface PublishSiteParams {
+  siteId: string;
+  userId: string;
+  userType: UserType;
+  // Content taken earlier, e.g. when a publish request was submitted; defaults to the draft
+  snapshot?: ContentSnapshot;
+  notes?: string;
+  changes?: Record<string, { old: unknown; new: unknown }>;
+  request?: Request;
+}
+
+/**
+ * Snapshot the draft content and publish it as a new version
+ */
+export async function publishSite(params: PublishSiteParams): Promise<PublishHistory> {
+  const { siteId, userId, userType, notes, changes, request } = params;
+
+  // Create content snapshot
+  const snapshot = params.snapshot ?? (await createContentSnapshot(siteId));
+
+  // Create publish history entry
+  const publishEntry = await createPublishEntry(siteId, userId, userType, snapshot, notes);
+
+  // Update site status to published if it was draft
+  await updateSite(siteId, { status: 'published' });
+
+  // Log activity
+  await logActivity({
+    siteId,
+    userId,
+    userType,
+    action: 'publish_site',
+    entityType: 'site',
+    entityId: siteId,
+    changes: {
+      version: { old: publishEntry.version_number - 1, new: publishEntry.version_number },
+      ...changes,
+    },
+    request,
+  });
+
+  await triggerWebhookEvent(siteId, 'site.published', {
+    version: publishEntry.version_number,
+    published_at: publishEntry.created_at,
+    notes: publishEntry.notes,
+  });
+
+  return publishEntry;
+}
+
+export interface RestoreSiteVersionParams {
+  siteId: string;
+  version: number;
+  userId: string;
+  userType: UserType;
+  request?: Request;
+}
+
+/**
+ * Check a snapshot's items against each collection's current item_schema
+ * Collections that changed fields since must still accept the old items;
+ * otherwise the restore is refused with an error per item
+ */
+async function prepareSnapshotForRestore(
+  siteId: string,
+  snapshot: ContentSnapshot
+): Promise<ContentSnapshot> {
+  const liveCollections = new Map(
+    (await getCollections(siteId)).map((collection) => [collection.collection_key, collection])
+  );
+  const fieldErrors: Record<string, string> = {};
+
+  const collections = (snapshot.collections || []).flatMap((collection) => {
+    const live = liveCollections.get(collection.collection_key);
+    if (!live) {
+      return [];
+    }
+
+    const items = collection.items.map((item, index) => {
+      try {
+        return { ...item, data: validateItemData(live.item_schema, item.data) };
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        fieldErrors[`${collection.collection_key}.${index}`] = `${live.label}: ${error.message}`;
+        return item;
+      }
+    });
+
+    return [{ ...collection, item_schema: live.item_schema, items }];
+  });
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(
+      `This version has items that don't fit the current collection fields`,
+      fieldErrors
+    );
+  }
+
+  return { ...snapshot, collections };
+}
+
+/**
+ * Restore a previous version into the draft and publish it as a new version
+ */
+export async function restoreSiteVersion(
+  params: RestoreSiteVersionParams
+): Promise<PublishHistory> {
+  const { siteId, version, userId, userType, request } = params;
+
+  // Load the version to restore
+  const targetVersion = await getPublishVersion(siteId, version);
+  if (!targetVersion) {
+    throw new NotFoundError('Publish version not found');
+  }
+
+  // Restore its content into the draft tables
+  await restoreContentSnapshot(
+    siteId,
+    await prepareSnapshotForRestore(siteId, targetVersion.content_snapshot)
+  );
+
+  // Publish the restored content as a new version
+  const snapshot = await createContentSnapshot(siteId);
+  const publishEntry = await createPublishEntry(
+    siteId,
+    userId,
+    userType,
+    snapshot,
+    `Rolled back from v${version}`
+  );
+
+  // Update site status to published if it was draft
+  await updateSite(siteId, { status: 'published' });
+
+  // Log activity
+  await logActivity({
+    siteId,
+    userId,
+    userType,
+    action: 'rollback_site',
+    entityType: 'site',
+    entityId: siteId,
+    changes: {
+      version: { old: publishEntry.version_number - 1, new: publishEntry.version_number },
+      restored_from: { old: null, new: version },
+    },
+    request,
+  });
+
+  await triggerWebhookEvent(siteId, 'site.published', {
+    version: publishEntry.version_number,
+    published_at: publishEntry.created_at,
+    restored_from: version,
+  });
+
+  return publishEntry;
+}
+
+// How long a runner has to publish a claimed schedule before another run retries it
+const CLAIM_LEASE = 5 * 60; // 5 minutes in seconds
+
+export interface ScheduledPublishRunResult {
+  published: number;
+  failed: number;
+}
+
+/**
+ * Publish every scheduled publish that is due
+ * Each schedule runs as the user who created it, so client schedules are
+ * re-checked against the site's current publish permission
+ */
+export async function runDueScheduledPublishes(
+  now: Date = new Date()
+): Promise<ScheduledPublishRunResult> {
+  const result: ScheduledPublishRunResult = { published: 0, failed: 0 };
+
+  // One at a time, each claimed right before it's published
+  let schedule: ScheduledPublish | null;
+  while ((schedule = await claimNextDueScheduledPublish(CLAIM_LEASE, now))) {
+    try {
+      if (schedule.scheduler_type === 'client') {
+        const permissions = await getSitePermissions(schedule.site_id);
+        if (!permissions.can_publish) {
+          throw new Error('Publishing is no longer permitted for this site');
+        }
+      }
+
+      const publishEntry = await publishSite({
+        siteId: schedule.site_id,
+        userId: schedule.scheduled_by,
+        userType: schedule.scheduler_type,
+        notes: schedule.notes || undefined,
+        changes: {
+          scheduled_at: { old: null, new: schedule.scheduled_at },
+        },
+      });
+
+      if (!(await completeScheduledPublish(schedule, publishEntry.id))) {
+        console.error('Scheduled publish lease expired before it was recorded:', schedule.id);
+      }
+      result.published++;
+    } catch (error) {
+      console.error('Scheduled publish failed:', schedule.id, error);
+      await failScheduledPublish(
+        schedule,
+        error instanceof Error ? error.message : 'Publish failed'
+      );
+      result.failed++;
+    }
+  }
+
+  return result;
+}
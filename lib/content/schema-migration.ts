@@ -0,0 +1,463 @@
+// Collection schema migrations
+// Plans how a change to a collection's item_schema affects existing items,
+// previews the rewritten item data, and applies or undoes it atomically
+
+import type {
+  Collection,
+  CollectionFieldSchema,
+  CollectionItem,
+  CollectionSchemaChange,
+  CollectionSchemaMigration,
+  ImageFieldValue,
+  PriceValue,
+} from '@/lib/types/database';
+import {
+  validateItemData,
+  isValidFieldValue,
+  currencyDigits,
+  formatPrice,
+} from '@/lib/security/item-schema';
+import { ValidationError } from '@/lib/utils/errors';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getCollectionById,
+  getCollectionItems,
+  applyCollectionSchemaMigration,
+  getCollectionSchemaMigration,
+  undoCollectionSchemaMigration,
+} from '@/lib/db/collections';
+
+type ItemSchema = Record<string, CollectionFieldSchema>;
+
+export interface SchemaMigrationOptions {
+  /** Explicit renames, old key -> new key */
+  renames?: Record<string, string>;
+  /** Values for new required fields and for values that can't be converted */
+  defaults?: Record<string, unknown>;
+}
+
+export interface SchemaMigrationItemPreview {
+  id: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  /** Field errors that block the migration */
+  errors: Record<string, string>;
+}
+
+export interface SchemaMigrationPreview {
+  changes: CollectionSchemaChange[];
+  total_items: number;
+  /** Items whose data changes or can't be migrated */
+  items: SchemaMigrationItemPreview[];
+  can_apply: boolean;
+}
+
+// Value that couldn't be converted to the new field type
+const UNCONVERTIBLE = Symbol('unconvertible');
+
+/**
+ * Detect the differences between two item schemas
+ * A removed and an added field with the same label and type are treated as a
+ * rename unless explicit renames are given for them
+ */
+export function planSchemaChanges(
+  oldSchema: ItemSchema,
+  newSchema: ItemSchema,
+  renames: Record<string, string> = {}
+): CollectionSchemaChange[] {
+  const changes: CollectionSchemaChange[] = [];
+
+  // Explicit renames first, ignoring any that don't match both schemas
+  const renamed = new Map(
+    Object.entries(renames).filter(
+      ([from, to]) => from !== to && from in oldSchema && !(from in newSchema) && to in newSchema
+    )
+  );
+  const renamedTo = new Set(renamed.values());
+
+  const removed = Object.keys(oldSchema).filter((key) => !(key in newSchema) && !renamed.has(key));
+  const added = Object.keys(newSchema).filter((key) => !(key in oldSchema) && !renamedTo.has(key));
+
+  // Detect unambiguous renames
+  for (const from of [...removed]) {
+    const matches = added.filter(
+      (to) =>
+        newSchema[to]!.label === oldSchema[from]!.label &&
+        newSchema[to]!.type === oldSchema[from]!.type
+    );
+    if (matches.length === 1) {
+      renamed.set(from, matches[0]!);
+      removed.splice(removed.indexOf(from), 1);
+      added.splice(added.indexOf(matches[0]!), 1);
+    }
+  }
+
+  for (const [from, to] of renamed) {
+    changes.push({ type: 'rename_field', from, to });
+  }
+  for (const field of removed) {
+    changes.push({ type: 'remove_field', field });
+  }
+  for (const field of added) {
+    changes.push({ type: 'add_field', field, required: newSchema[field]!.required ?? false });
+  }
+
+  // Changes to fields that exist in both schemas (under either key)
+  const pairs: Array<[string, string]> = [
+    ...Object.keys(newSchema)
+      .filter((key) => key in oldSchema && !renamed.has(key))
+      .map((key): [string, string] => [key, key]),
+    ...renamed,
+  ];
+
+  for (const [oldKey, newKey] of pairs) {
+    const before = oldSchema[oldKey]!;
+    const after = newSchema[newKey]!;
+
+    if (before.type !== after.type) {
+      changes.push({ type: 'change_type', field: newKey, from: before.type, to: after.type });
+    }
+
+    if (after.required && !before.required) {
+      changes.push({ type: 'make_required', field: newKey });
+    }
+
+    const hasOptions = (type: string) => type === 'select' || type === 'multi_select';
+    if (hasOptions(after.type) && hasOptions(before.type) && after.options?.length) {
+      const removedOptions = (before.options ?? []).filter(
+        (option) => !after.options!.includes(option)
+      );
+      if (removedOptions.length > 0) {
+        changes.push({ type: 'restrict_options', field: newKey, removed: removedOptions });
+      }
+    }
+
+    if (after.max_length && (!before.max_length || after.max_length < before.max_length)) {
+      changes.push({ type: 'shorten_max_length', field: newKey, max_length: after.max_length });
+    }
+
+    // Group entries are re-validated against the new sub-schema as a whole
+    if (
+      after.type === 'group' &&
+      before.type === 'group' &&
+      (JSON.stringify(after.fields) !== JSON.stringify(before.fields) ||
+        !!after.repeatable !== !!before.repeatable)
+    ) {
+      changes.push({ type: 'change_group_fields', field: newKey });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Convert a value to a field type
+ */
+function convertValue(value: unknown, field: CollectionFieldSchema): unknown {
+  switch (field.type) {
+    case 'number': {
+      if (typeof value === 'number') return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      // Prices become their major-unit amount
+      if (isPriceValue(value)) return value.amount / 10 ** currencyDigits(value.currency);
+      // Tolerate currency symbols and thousands separators ("$1,200.50")
+      const stripped = typeof value === 'string' ? value.replace(/[^0-9.\-]/g, '') : '';
+      const parsed = Number(stripped);
+      return /[0-9]/.test(stripped) && Number.isFinite(parsed) ? parsed : UNCONVERTIBLE;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const normalized = String(value).trim().toLowerCase();
+      if (['true', 'yes', 'on', '1'].includes(normalized)) return true;
+      if (['false', 'no', 'off', '0'].includes(normalized)) return false;
+      return UNCONVERTIBLE;
+    }
+
+    case 'select': {
+      // A one-entry selection collapses to its value
+      if (Array.isArray(value) && value.length === 1) return convertValue(value[0], field);
+      const text = String(value).trim();
+      const options = field.options ?? [];
+      if (options.length === 0 || options.includes(text)) return text;
+      // Match options case-insensitively before giving up
+      return options.find((option) => option.toLowerCase() === text.toLowerCase()) ?? UNCONVERTIBLE;
+    }
+
+    case 'image': {
+      const image = typeof value === 'string' ? { url: value.trim() } : value;
+      return isImageValue(image) && isValidFieldValue(field, image) ? image : UNCONVERTIBLE;
+    }
+
+    case 'multi_select': {
+      // Options that no longer exist are dropped from each selection
+      const values = Array.isArray(value) ? value : typeof value === 'object' ? [] : [value];
+      const options = field.options ?? [];
+      const selected = values
+        .map((entry) => String(entry).trim())
+        .map((entry) =>
+          options.length === 0
+            ? entry
+            : options.find((option) => option.toLowerCase() === entry.toLowerCase())
+        )
+        .filter((entry): entry is string => !!entry);
+      return selected.length > 0 ? [...new Set(selected)] : UNCONVERTIBLE;
+    }
+
+    case 'list': {
+      const values = Array.isArray(value) ? value : typeof value === 'object' ? [] : [value];
+      const entryField: CollectionFieldSchema = { ...field, type: field.item_type ?? 'text' };
+      const entries = values.map((entry) => convertValue(entry, entryField));
+      return entries.length > 0 && !entries.includes(UNCONVERTIBLE) ? entries : UNCONVERTIBLE;
+    }
+
+    case 'group': {
+      // Entries are checked against the sub-schema by the item validation
+      if (typeof value !== 'object') return UNCONVERTIBLE;
+      if (field.repeatable) return Array.isArray(value) ? value : [value];
+      return Array.isArray(value) ? (value.length === 1 ? value[0] : UNCONVERTIBLE) : value;
+    }
+
+    case 'reference': {
+      // Ids are checked for format only - the referenced items aren't looked up
+      const ids = Array.isArray(value) ? value : [value];
+      if (!field.multiple && ids.length !== 1) return UNCONVERTIBLE;
+      const converted = field.multiple ? ids : ids[0];
+      return isValidFieldValue(field, converted) ? converted : UNCONVERTIBLE;
+    }
+
+    case 'price': {
+      // Numbers and strings are read as major units in the field's currency
+      const price = isPriceValue(value) ? value : typeof value === 'object' ? UNCONVERTIBLE : value;
+      return price !== UNCONVERTIBLE && isValidFieldValue(field, price) ? price : UNCONVERTIBLE;
+    }
+
+    case 'date':
+    case 'datetime':
+    case 'url':
+    case 'email':
+    case 'phone':
+    case 'color':
+    case 'rich_text': {
+      // Images convert to their URL
+      if (isImageValue(value)) return convertValue(value.url, field);
+      if (typeof value === 'object') return UNCONVERTIBLE;
+      const text = String(value).trim();
+      return isValidFieldValue(field, text) ? text : UNCONVERTIBLE;
+    }
+
+    case 'text':
+    case 'textarea':
+    default: {
+      if (isPriceValue(value)) return formatPrice(value);
+      if (isImageValue(value)) return convertValue(value.url, field);
+      // Selections and lists of text become a comma-separated string
+      if (Array.isArray(value) && value.every((entry) => typeof entry !== 'object')) {
+        return convertValue(value.join(', '), field);
+      }
+      if (typeof value === 'object') return UNCONVERTIBLE;
+      const text = String(value);
+      return field.max_length ? text.slice(0, field.max_length) : text;
+    }
+  }
+}
+
+function isImageValue(value: unknown): value is ImageFieldValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as ImageFieldValue).url === 'string'
+  );
+}
+
+function isPriceValue(value: unknown): value is PriceValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PriceValue).amount === 'number' &&
+    typeof (value as PriceValue).currency === 'string'
+  );
+}
+
+/**
+ * Rewrite one item's data for the new schema
+ */
+export function migrateItemData(
+  data: Record<string, unknown>,
+  changes: CollectionSchemaChange[],
+  newSchema: ItemSchema,
+  defaults: Record<string, unknown> = {}
+): { data: Record<string, unknown>; errors: Record<string, string> } {
+  const result: Record<string, unknown> = { ...data };
+
+  // Move renamed values before anything reads the new keys
+  const renames = changes.filter(
+    (change): change is Extract<CollectionSchemaChange, { type: 'rename_field' }> =>
+      change.type === 'rename_field'
+  );
+  const moved = Object.fromEntries(renames.map(({ from }) => [from, result[from]]));
+  for (const { from } of renames) {
+    delete result[from];
+  }
+  for (const { from, to } of renames) {
+    if (moved[from] !== undefined) {
+      result[to] = moved[from];
+    } else {
+      delete result[to];
+    }
+  }
+
+  // Drop keys the new schema doesn't know about
+  for (const key of Object.keys(result)) {
+    if (!(key in newSchema)) {
+      delete result[key];
+    }
+  }
+
+  // Convert values to the new field definitions, falling back to defaults
+  for (const [key, field] of Object.entries(newSchema)) {
+    const value = result[key];
+    const isEmpty = value === undefined || value === null || value === '';
+
+    const converted = isEmpty ? UNCONVERTIBLE : convertValue(value, field);
+
+    if (converted !== UNCONVERTIBLE) {
+      result[key] = converted;
+    } else if (defaults[key] !== undefined && defaults[key] !== '') {
+      result[key] = defaults[key];
+    } else {
+      delete result[key];
+    }
+  }
+
+  try {
+    return { data: validateItemData(newSchema, result), errors: {} };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { data: result, errors: error.fieldErrors ?? { _: error.message } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Preview a schema change against a collection's current items
+ */
+export function previewSchemaMigration(
+  collection: Pick<Collection, 'item_schema'>,
+  items: Pick<CollectionItem, 'id' | 'data'>[],
+  newSchema: ItemSchema,
+  options: SchemaMigrationOptions = {}
+): SchemaMigrationPreview {
+  const changes = planSchemaChanges(collection.item_schema, newSchema, options.renames);
+
+  const previews = items.map((item) => {
+    const { data, errors } = migrateItemData(item.data, changes, newSchema, options.defaults);
+    return { id: item.id, before: item.data, after: data, errors };
+  });
+
+  const affected = previews.filter(
+    (item) =>
+      Object.keys(item.errors).length > 0 || JSON.stringify(item.before) !== JSON.stringify(item.after)
+  );
+
+  return {
+    changes,
+    total_items: items.length,
+    items: affected,
+    can_apply: affected.every((item) => Object.keys(item.errors).length === 0),
+  };
+}
+
+export interface ApplySchemaMigrationParams extends SchemaMigrationOptions {
+  collectionId: string;
+  newSchema: ItemSchema;
+  userId: string;
+  request?: Request;
+}
+
+/**
+ * Apply a schema change and rewrite item data in one transaction
+ */
+export async function applySchemaMigration(
+  params: ApplySchemaMigrationParams
+): Promise<CollectionSchemaMigration> {
+  const { collectionId, newSchema, renames, defaults, userId, request } = params;
+
+  const collection = await getCollectionById(collectionId);
+  // Items in the trash are migrated too, so they still fit the schema if restored
+  const items = await getCollectionItems(collectionId, true);
+
+  const changes = planSchemaChanges(collection.item_schema, newSchema, renames);
+  const migrated = items.map((item) => ({
+    id: item.id,
+    before: item.data,
+    ...migrateItemData(item.data, changes, newSchema, defaults),
+  }));
+
+  const blocked = migrated.filter((item) => Object.keys(item.errors).length > 0);
+  if (blocked.length > 0) {
+    throw new ValidationError(
+      `${blocked.length} ${blocked.length === 1 ? 'item' : 'items'} can't be migrated - provide defaults for the missing values`,
+      Object.assign({}, ...blocked.map((item) => item.errors))
+    );
+  }
+
+  const migration = await applyCollectionSchemaMigration({
+    collectionId,
+    oldSchema: collection.item_schema,
+    newSchema,
+    changes,
+    items: migrated.map(({ id, before, data }) => ({ id, before, after: data })),
+    performedBy: userId,
+  });
+
+  await logActivity({
+    siteId: collection.site_id,
+    userId,
+    userType: 'admin',
+    action: 'migrate_collection_schema',
+    entityType: 'collection',
+    entityId: collectionId,
+    changes: {
+      item_schema: { old: collection.item_schema, new: newSchema },
+      migration: { old: null, new: { id: migration.id, changes, affected_items: migration.affected_items } },
+    },
+    request,
+  });
+
+  return migration;
+}
+
+/**
+ * Restore the schema and item data from before a migration
+ */
+export async function undoSchemaMigration(params: {
+  collectionId: string;
+  migrationId: string;
+  userId: string;
+  request?: Request;
+}): Promise<CollectionSchemaMigration> {
+  const { collectionId, migrationId, userId, request } = params;
+
+  // Confirms the migration belongs to the collection
+  const migration = await getCollectionSchemaMigration(collectionId, migrationId);
+  const undone = await undoCollectionSchemaMigration(migration.id, userId);
+
+  await logActivity({
+    siteId: migration.site_id,
+    userId,
+    userType: 'admin',
+    action: 'undo_collection_schema_migration',
+    entityType: 'collection',
+    entityId: collectionId,
+    changes: {
+      item_schema: { old: migration.new_schema, new: migration.old_schema },
+      migration: { old: migration.id, new: null },
+    },
+    request,
+  });
+
+  return undone;
+}
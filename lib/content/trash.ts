@@ -0,0 +1,130 @@
+// Trash
+// Deleted text fields, image slots and collection items are kept until
+// they're restored or the retention period runs out. Their images stay in the
+// media library either way.
+
+import type { TextContent, Image, DeletedCollectionItem, UserType } from '@/lib/types/database';
+import { logActivity } from '@/lib/db/activity';
+import {
+  getDeletedTextFields,
+  getDeletedImageSlots,
+  restoreTextField,
+  restoreImageSlot,
+  purgeDeletedTextFields,
+  purgeDeletedImageSlots,
+} from '@/lib/db/content';
+import {
+  getDeletedCollectionItems,
+  restoreCollectionItem,
+  purgeDeletedCollectionItems,
+} from '@/lib/db/collections';
+import { removeSlotCropVariants } from '@/lib/content/media';
+
+// Days deleted content stays restorable before purgeTrash removes it
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+export type TrashItemType = 'text_field' | 'image_slot' | 'collection_item';
+
+export interface SiteTrash {
+  text_fields: TextContent[];
+  image_slots: Image[];
+  collection_items: DeletedCollectionItem[];
+  retention_days: number;
+}
+
+/**
+ * Get what's in a site's trash
+ * Clients only see collection items - fields and slots are managed by admins
+ */
+export async function getSiteTrash(
+  siteId: string,
+  types: TrashItemType[] = ['text_field', 'image_slot', 'collection_item']
+): Promise<SiteTrash> {
+  const [textFields, imageSlots, collectionItems] = await Promise.all([
+    types.includes('text_field') ? getDeletedTextFields(siteId) : [],
+    types.includes('image_slot') ? getDeletedImageSlots(siteId) : [],
+    types.includes('collection_item') ? getDeletedCollectionItems(siteId) : [],
+  ]);
+
+  return {
+    text_fields: textFields,
+    image_slots: imageSlots,
+    collection_items: collectionItems,
+    retention_days: TRASH_RETENTION_DAYS,
+  };
+}
+
+export interface RestoreFromTrashParams {
+  siteId: string;
+  type: TrashItemType;
+  id: string;
+  userId: string;
+  userType: UserType;
+  request?: Request;
+}
+
+/**
+ * Take a text field, image slot or collection item out of a site's trash
+ * Restored collection items go after the collection's existing items
+ */
+export async function restoreFromTrash(
+  params: RestoreFromTrashParams
+): Promise<TextContent | Image | DeletedCollectionItem> {
+  const { siteId, type, id, userId, userType, request } = params;
+
+  let restored: TextContent | Image | DeletedCollectionItem;
+  let entityType: string;
+
+  switch (type) {
+    case 'text_field':
+      restored = await restoreTextField(siteId, id);
+      entityType = 'text_content';
+      break;
+    case 'image_slot':
+      restored = await restoreImageSlot(siteId, id);
+      entityType = 'image';
+      break;
+    case 'collection_item':
+      restored = await restoreCollectionItem(siteId, id);
+      entityType = 'collection_item';
+      break;
+  }
+
+  await logActivity({
+    siteId,
+    userId,
+    userType,
+    action: `restore_${type}`,
+    entityType,
+    entityId: id,
+    request,
+  });
+
+  return restored;
+}
+
+/**
+ * Permanently remove everything that has been in the trash longer than the
+ * retention period, with the variants removed image slots rendered for a
+ * crop - except ones a published version of the site still shows
+ */
+export async function purgeTrash(
+  retentionDays: number = TRASH_RETENTION_DAYS
+): Promise<{ text_fields: number; image_slots: number; collection_items: number }> {
+  const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const textFields = await purgeDeletedTextFields(before);
+
+  const imageSlots = await purgeDeletedImageSlots(before);
+  for (const slot of imageSlots) {
+    await removeSlotCropVariants(slot.site_id, slot);
+  }
+
+  const items = await purgeDeletedCollectionItems(before);
+
+  return {
+    text_fields: textFields,
+    image_slots: imageSlots.length,
+    collection_items: items.length,
+  };
+}
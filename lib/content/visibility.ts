@@ -0,0 +1,220 @@
+// Collection item visibility scheduling
+// Items can be limited to a date range (visible_from / visible_until) and a
+// recurring weekly window, evaluated in the site's timezone at request time.
+// No server dependencies - the dashboard uses this for its status badges.
+
+import type { CollectionItem, VisibilityWindow } from '@/lib/types/database';
+
+export type ScheduledItem = Pick<
+  CollectionItem,
+  'is_visible' | 'visible_from' | 'visible_until' | 'visibility_window'
+>;
+
+// 'hidden' is the manual toggle; the others come from the schedule
+export type VisibilityStatus = 'visible' | 'hidden' | 'scheduled' | 'expired' | 'outside_window';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a string is a timezone the runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formatters are slow to create and every public request needs many
+// conversions, so each timezone's is kept
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock parts of an instant in a timezone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    zonedFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  ) as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+
+  return parts;
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function zoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Instant of a wall-clock time in a timezone (the later one across a DST gap)
+function zonedTime(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffset(new Date(guess), timeZone));
+}
+
+// "HH:MM" to minutes after midnight
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours! * 60 + minutes!;
+}
+
+/**
+ * Whether the weekly window is open at an instant
+ * A window whose end is before its start runs past midnight and belongs to
+ * the day it starts on
+ */
+function isInWindow(window: VisibilityWindow, at: Date, timeZone: string): boolean {
+  const p = zonedParts(at, timeZone);
+  const weekday = new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay();
+  const now = p.hour * 60 + p.minute;
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+
+  if (start < end) {
+    return window.days.includes(weekday) && now >= start && now < end;
+  }
+
+  // Overnight: the evening of a listed day, or the early hours after one
+  return (
+    (window.days.includes(weekday) && now >= start) ||
+    (window.days.includes((weekday + 6) % 7) && now < end)
+  );
+}
+
+/**
+ * Visibility status of an item at an instant
+ */
+export function getVisibilityStatus(
+  item: ScheduledItem,
+  at: Date,
+  timeZone: string
+): VisibilityStatus {
+  if (!item.is_visible) return 'hidden';
+  if (item.visible_from && at < new Date(item.visible_from)) return 'scheduled';
+  if (item.visible_until && at >= new Date(item.visible_until)) return 'expired';
+  if (item.visibility_window && !isInWindow(item.visibility_window, at, timeZone)) {
+    return 'outside_window';
+  }
+  return 'visible';
+}
+
+/**
+ * Whether an item is shown to the public at an instant
+ */
+export function isItemVisibleAt(item: ScheduledItem, at: Date, timeZone: string): boolean {
+  return getVisibilityStatus(item, at, timeZone) === 'visible';
+}
+
+type ZonedDate = { year: number; month: number; day: number };
+
+/**
+ * Local dates from a week before `at` to a week after, which every weekly
+ * window's openings and closings fall on
+ */
+function datesAround(at: Date, timeZone: string): ZonedDate[] {
+  const dates: ZonedDate[] = [];
+  for (let offset = -8; offset <= 8; offset++) {
+    const { year, month, day } = zonedParts(new Date(at.getTime() + offset * DAY_MS), timeZone);
+    dates.push({ year, month, day });
+  }
+  return dates;
+}
+
+/**
+ * Instants around `at` where the item's schedule may change its visibility
+ * Covers the date range and the weekly window's openings and closings on
+ * the given dates. Items with the same window share its instants.
+ */
+function scheduleBoundaries(
+  item: ScheduledItem,
+  dates: () => ZonedDate[],
+  windowBoundaries: Map<string, Date[]>,
+  timeZone: string
+): Date[] {
+  const boundaries: Date[] = [];
+  if (item.visible_from) boundaries.push(new Date(item.visible_from));
+  if (item.visible_until) boundaries.push(new Date(item.visible_until));
+
+  const window = item.visibility_window;
+  if (window) {
+    const key = `${window.start}-${window.end}`;
+    let times = windowBoundaries.get(key);
+    if (!times) {
+      times = dates().flatMap(({ year, month, day }) =>
+        [window.start, window.end].map((time) =>
+          zonedTime(year, month, day, minutesOf(time), timeZone)
+        )
+      );
+      windowBoundaries.set(key, times);
+    }
+    boundaries.push(...times);
+  }
+
+  return boundaries;
+}
+
+/**
+ * When the visibility of any of the items last changed and next changes
+ * Public responses use these to keep caches from serving stale visibility
+ */
+export function getVisibilityChanges(
+  items: ScheduledItem[],
+  at: Date,
+  timeZone: string
+): { last: Date | null; next: Date | null } {
+  let last: Date | null = null;
+  let next: Date | null = null;
+
+  // Worked out once per request, and only if an item has a window
+  let dates: ZonedDate[] | null = null;
+  const getDates = () => (dates ??= datesAround(at, timeZone));
+  const windowBoundaries = new Map<string, Date[]>();
+
+  for (const item of items) {
+    if (!item.is_visible) continue;
+
+    for (const boundary of scheduleBoundaries(item, getDates, windowBoundaries, timeZone)) {
+      // Only instants where the item actually appears or disappears count
+      const before = new Date(boundary.getTime() - 1);
+      if (isItemVisibleAt(item, before, timeZone) === isItemVisibleAt(item, boundary, timeZone)) {
+        continue;
+      }
+
+      if (boundary <= at) {
+        if (!last || boundary > last) last = boundary;
+      } else if (!next || boundary < next) {
+        next = boundary;
+      }
+    }
+  }
+
+  return { last, next };
+}
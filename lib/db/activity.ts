@@ -1,8 +1,15 @@
 // Activity logging database operations
 
 import { getAdminClient } from '@/lib/supabase/admin';
-import type { ActivityLog, PublishHistory, UserType } from '@/lib/types/database';
+import type {
+  ActivityLog,
+  CollectionItem,
+  ContentSnapshot,
+  PublishHistory,
+  UserType,
+} from '@/lib/types/database';
 import type { ActivityLogFilters, PaginationParams } from '@/lib/types/api';
+import { ValidationError, ConflictError } from '@/lib/utils/errors';
 
 const supabase = getAdminClient();
 
@@ -155,7 +162,7 @@ export async function createPublishEntry(
   siteId: string,
   publishedBy: string,
   publisherType: UserType,
-  contentSnapshot: Record<string, unknown>,
+  contentSnapshot: ContentSnapshot,
   notes?: string
 ): Promise<PublishHistory> {
   const { data, error } = await (supabase.from('publish_history') as any)
@@ -237,6 +244,22 @@ export async function getPublishVersion(
   return data;
 }
 
+/**
+ * Get every stored image URL a site's publish snapshots point at, with the
+ * version of each snapshot (null for a publish request awaiting approval)
+ */
+export async function getPublishedImageUrls(
+  siteId: string
+): Promise<Array<{ url: string; version_number: number | null }>> {
+  const { data, error } = await supabase.rpc('published_image_urls', { p_site_id: siteId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
 // ============================================
 // CONTENT SNAPSHOT HELPERS
 // ============================================
@@ -246,23 +269,32 @@ export async function getPublishVersion(
  */
 export async function createContentSnapshot(
   siteId: string
-): Promise<Record<string, unknown>> {
-  // Fetch all content in parallel
+): Promise<ContentSnapshot> {
+  // Fetch all content in parallel (anything in the trash is left out)
   const [businessInfo, textContent, collections, images] = await Promise.all([
     (supabase.from('business_info') as any).select('*').eq('site_id', siteId).single(),
-    (supabase.from('text_content') as any).select('*').eq('site_id', siteId).order('sort_order'),
+    (supabase.from('text_content') as any)
+      .select('*')
+      .eq('site_id', siteId)
+      .is('deleted_at', null)
+      .order('sort_order'),
     (supabase.from('collections') as any).select('*').eq('site_id', siteId).order('sort_order'),
-    (supabase.from('images') as any).select('*').eq('site_id', siteId).order('sort_order'),
+    (supabase.from('images') as any)
+      .select('*')
+      .eq('site_id', siteId)
+      .is('deleted_at', null)
+      .order('sort_order'),
   ]);
 
   // Fetch collection items for each collection
-  const collectionItems: Record<string, unknown[]> = {};
+  const collectionItems: Record<string, CollectionItem[]> = {};
 
   if (collections.data) {
     for (const collection of collections.data as any[]) {
       const { data: items } = await (supabase.from('collection_items') as any)
         .select('*')
         .eq('collection_id', collection.id)
+        .is('deleted_at', null)
         .order('sort_order');
 
       collectionItems[collection.collection_key] = items || [];
@@ -280,3 +312,38 @@ export async function createContentSnapshot(
     snapshot_at: new Date().toISOString(),
   };
 }
+
+/**
+ * Restore a content snapshot into the live (draft) tables, in one transaction
+ * Fields, slots and collections removed since the snapshot was taken are
+ * skipped rather than recreated. Each collection's items are replaced with the
+ * snapshot's, the others going to the trash with the usual reference rules.
+ * Item data must already be validated against each collection's current
+ * item_schema, which the snapshot's collections carry in place of their own.
+ */
+export async function restoreContentSnapshot(
+  siteId: string,
+  snapshot: ContentSnapshot
+): Promise<void> {
+  const { error } = await supabase.rpc('restore_content_snapshot', {
+    p_site_id: siteId,
+    p_snapshot: snapshot,
+  });
+
+  if (error) {
+    if (error.message?.includes('collection_full')) {
+      throw new ValidationError(
+        `${error.details} holds fewer items than this version has - raise its item limit first`
+      );
+    }
+    if (error.message?.includes('reference_conflict')) {
+      throw new ConflictError(
+        `Items in ${error.details} reference items this version doesn't have - remove those references first`
+      );
+    }
+    if (error.message?.includes('restore_conflict')) {
+      throw new ConflictError(`The fields of ${error.details} changed while restoring - try again`);
+    }
+    throw error;
+  }
+}
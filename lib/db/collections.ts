@@ -2,7 +2,14 @@
 
 import { getAdminClient } from '@/lib/supabase/admin';
 import { NotFoundError, ConflictError, ValidationError } from '@/lib/utils/errors';
-import type { Collection, CollectionItem } from '@/lib/types/database';
+import { validateItemData } from '@/lib/security/item-schema';
+import type {
+  Collection,
+  CollectionItem,
+  CollectionSchemaChange,
+  CollectionSchemaMigration,
+  DeletedCollectionItem,
+} from '@/lib/types/database';
 import type {
   CreateCollectionRequest,
   UpdateCollectionRequest,
@@ -148,15 +155,22 @@ export async function deleteCollection(id: string): Promise<void> {
 
 /**
  * Get all items in a collection
+ * Items in the trash are left out unless includeDeleted is set
  */
 export async function getCollectionItems(
-  collectionId: string
+  collectionId: string,
+  includeDeleted = false
 ): Promise<CollectionItem[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from('collection_items')
     .select('*')
-    .eq('collection_id', collectionId)
-    .order('sort_order');
+    .eq('collection_id', collectionId);
+
+  if (!includeDeleted) {
+    query = query.is('deleted_at', null);
+  }
+
+  const { data, error } = await query.order('sort_order');
 
   if (error) {
     throw error;
@@ -184,6 +198,7 @@ export async function getCollectionItem(id: string): Promise<CollectionItem> {
     .from('collection_items')
     .select('*')
     .eq('id', id)
+    .is('deleted_at', null)
     .single();
 
   if (error || !data) {
@@ -195,23 +210,32 @@ export async function getCollectionItem(id: string): Promise<CollectionItem> {
 
 /**
  * Create a collection item
+ * Item data is validated and coerced against the collection's item_schema
  */
 export async function createCollectionItem(
   collectionId: string,
   input: CreateCollectionItemRequest
 ): Promise<CollectionItem> {
-  // Get collection to check max_items
+  // Get collection to check max_items and the item schema
   const { data: collection } = await supabase
     .from('collections')
-    .select('max_items')
+    .select('site_id, max_items, item_schema')
     .eq('id', collectionId)
-    .single();
+    .single() as { data: Pick<Collection, 'site_id' | 'max_items' | 'item_schema'> | null };
+
+  if (!collection) {
+    throw new NotFoundError('Collection not found');
+  }
 
-  if (collection?.max_items) {
+  const itemData = validateItemData(collection.item_schema, input.data);
+  await verifyItemReferences(collection.site_id, collection.item_schema, itemData);
+
+  if (collection.max_items) {
     const { count } = await supabase
       .from('collection_items')
       .select('*', { count: 'exact', head: true })
-      .eq('collection_id', collectionId);
+      .eq('collection_id', collectionId)
+      .is('deleted_at', null);
 
     if (count && count >= collection.max_items) {
       throw new ValidationError(`Collection is at maximum capacity (${collection.max_items} items)`);
@@ -236,9 +260,12 @@ export async function createCollectionItem(
     .from('collection_items')
     .insert({
       collection_id: collectionId,
-      data: input.data,
+      data: itemData,
       sort_order: sortOrder,
       is_visible: input.is_visible ?? true,
+      visible_from: input.visible_from ?? null,
+      visible_until: input.visible_until ?? null,
+      visibility_window: input.visibility_window ?? null,
     })
     .select()
     .single();
@@ -252,19 +279,46 @@ export async function createCollectionItem(
 
 /**
  * Update a collection item
+ * New item data replaces the old and is validated against the collection's item_schema
  */
 export async function updateCollectionItem(
   id: string,
   input: UpdateCollectionItemRequest
 ): Promise<CollectionItem> {
+  const update = { ...input };
+
+  if (input.data) {
+    const { data: item } = await supabase
+      .from('collection_items')
+      .select('collections(site_id, item_schema)')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single() as { data: { collections: Pick<Collection, 'site_id' | 'item_schema'> | null } | null };
+
+    if (!item?.collections) {
+      throw new NotFoundError('Collection item not found');
+    }
+
+    const { site_id: siteId, item_schema: itemSchema } = item.collections;
+    update.data = validateItemData(itemSchema, input.data);
+    await verifyItemReferences(siteId, itemSchema, update.data);
+  }
+
   const { data, error } = await supabase
     .from('collection_items')
-    .update(input)
+    .update(update)
     .eq('id', id)
+    .is('deleted_at', null)
     .select()
     .single();
 
   if (error) {
+    // The new end of the visibility range is before the existing start, or vice versa
+    if (error.code === '23514') {
+      throw new ValidationError('Visible until must be after visible from', {
+        visible_until: 'Visible until must be after visible from',
+      });
+    }
     throw error;
   }
 
@@ -276,17 +330,115 @@ export async function updateCollectionItem(
 }
 
 /**
- * Delete a collection item
+ * Import validated items after a collection's existing items, all or nothing
+ * Throws ValidationError if they would take the collection past max_items
  */
-export async function deleteCollectionItem(id: string): Promise<void> {
-  const { error } = await supabase
+export async function importCollectionItems(
+  collectionId: string,
+  items: ({ id?: string; data: Record<string, unknown>; is_visible: boolean } & Partial<
+    Pick<CollectionItem, 'visible_from' | 'visible_until' | 'visibility_window'>
+  >)[],
+  maxItems: number | null
+): Promise<CollectionItem[]> {
+  const { data, error } = await supabase.rpc('import_collection_items', {
+    p_collection_id: collectionId,
+    p_items: items,
+  });
+
+  if (error) {
+    if (error.message?.includes('collection_full')) {
+      throw new ValidationError(`Collection is at maximum capacity (${maxItems} items)`);
+    }
+    if (error.message?.includes('collection_not_found')) {
+      throw new NotFoundError('Collection not found');
+    }
+    throw error;
+  }
+
+  return ((data || []) as CollectionItem[]).sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/**
+ * Which of the given ids belong to items of a collection on the site
+ */
+export async function findCollectionItemIds(
+  siteId: string,
+  collectionKey: string,
+  ids: string[]
+): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+
+  const { data, error } = await supabase
     .from('collection_items')
-    .delete()
-    .eq('id', id);
+    .select('id, collections!inner(site_id, collection_key)')
+    .in('id', ids)
+    .is('deleted_at', null)
+    .eq('collections.site_id', siteId)
+    .eq('collections.collection_key', collectionKey);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Set((data || []).map((item: { id: string }) => item.id));
+}
+
+/**
+ * Check that reference fields point at existing items of their collection
+ * Throws ValidationError naming each field with a missing item
+ */
+async function verifyItemReferences(
+  siteId: string,
+  itemSchema: Collection['item_schema'],
+  data: Record<string, unknown>
+): Promise<void> {
+  const fieldErrors: Record<string, string> = {};
+
+  for (const [key, field] of Object.entries(itemSchema)) {
+    const value = data[key];
+    if (field.type !== 'reference' || !field.collection || value === undefined) {
+      continue;
+    }
+
+    const ids = Array.isArray(value) ? (value as string[]) : [value as string];
+    const found = await findCollectionItemIds(siteId, field.collection, ids);
+
+    if (found.size < ids.length) {
+      fieldErrors[key] = `${field.label} references an item that doesn't exist`;
+    }
+  }
+
+  const count = Object.keys(fieldErrors).length;
+  if (count > 0) {
+    throw new ValidationError(
+      count === 1 ? Object.values(fieldErrors)[0]! : `${count} fields are invalid`,
+      fieldErrors
+    );
+  }
+}
+
+/**
+ * Delete a collection item (moves it to the trash)
+ * References to it are resolved by each reference field's on_delete setting:
+ * 'block' (the default) throws ConflictError, 'cascade' deletes the referencing items.
+ * Returns every deleted item with its collection key, the requested one first.
+ */
+export async function deleteCollectionItem(
+  id: string
+): Promise<{ id: string; collection_key: string }[]> {
+  const { data, error } = await supabase.rpc('delete_collection_item', { p_item_id: id });
 
   if (error) {
+    if (error.message?.includes('reference_conflict')) {
+      throw new ConflictError('Other items reference this item - remove those references first');
+    }
+    if (error.message?.includes('collection_item_not_found')) {
+      throw new NotFoundError('Collection item not found');
+    }
     throw error;
   }
+
+  return data || [];
 }
 
 /**
@@ -300,7 +452,8 @@ export async function reorderCollectionItems(
   const { data: items } = await supabase
     .from('collection_items')
     .select('id')
-    .eq('collection_id', collectionId);
+    .eq('collection_id', collectionId)
+    .is('deleted_at', null);
 
   const existingIds = new Set(items?.map((i: any) => i.id) || []);
 
@@ -342,3 +495,293 @@ export async function getCollectionWithItems(
     items,
   };
 }
+
+// ============================================
+// BULK OPERATIONS
+// ============================================
+
+/**
+ * Get items of a collection by id
+ * Throws NotFoundError unless every id is an item of the collection
+ */
+export async function getCollectionItemsByIds(
+  collectionId: string,
+  ids: string[]
+): Promise<CollectionItem[]> {
+  const { data, error } = await supabase
+    .from('collection_items')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .in('id', ids)
+    .is('deleted_at', null)
+    .order('sort_order');
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data?.length ?? 0) !== new Set(ids).size) {
+    throw new NotFoundError('Some items were not found in this collection');
+  }
+
+  return data;
+}
+
+/**
+ * Update the data and/or visibility of many items in one transaction
+ * Data must already be validated against the item_schema
+ */
+export async function bulkUpdateCollectionItems(
+  collectionId: string,
+  items: { id: string; data?: Record<string, unknown>; is_visible?: boolean }[]
+): Promise<CollectionItem[]> {
+  const { data, error } = await supabase.rpc('bulk_update_collection_items', {
+    p_collection_id: collectionId,
+    p_items: items,
+  });
+
+  if (error) {
+    if (error.message?.includes('collection_item_not_found')) {
+      throw new NotFoundError('Some items were not found in this collection');
+    }
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Delete many items of a collection in one transaction (moves them to the trash)
+ * Reference rules apply as in deleteCollectionItem; if any item can't be
+ * deleted, none are. Returns every deleted item, cascades included.
+ */
+export async function deleteCollectionItems(
+  collectionId: string,
+  ids: string[]
+): Promise<{ id: string; collection_key: string }[]> {
+  const { data, error } = await supabase.rpc('delete_collection_items', {
+    p_collection_id: collectionId,
+    p_item_ids: ids,
+  });
+
+  if (error) {
+    if (error.message?.includes('reference_conflict')) {
+      throw new ConflictError('Other items reference these items - remove those references first');
+    }
+    if (error.message?.includes('collection_item_not_found')) {
+      throw new NotFoundError('Some items were not found in this collection');
+    }
+    throw error;
+  }
+
+  return data || [];
+}
+
+// ============================================
+// TRASH OPERATIONS
+// ============================================
+
+/**
+ * Get the collection items in a site's trash, most recently deleted first
+ */
+export async function getDeletedCollectionItems(siteId: string): Promise<DeletedCollectionItem[]> {
+  const { data, error } = await supabase
+    .from('collection_items')
+    .select('*, collections!inner(site_id, collection_key, label)')
+    .eq('collections.site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(
+    ({ collections, ...item }: CollectionItem & { collections: Pick<Collection, 'collection_key' | 'label'> }) => ({
+      ...item,
+      collection_key: collections.collection_key,
+      collection_label: collections.label,
+    })
+  );
+}
+
+/**
+ * Take a collection item out of a site's trash, after the collection's items
+ * Throws ValidationError if it references items that are gone or its
+ * collection is full
+ */
+export async function restoreCollectionItem(siteId: string, id: string): Promise<DeletedCollectionItem> {
+  const { data: item } = await supabase
+    .from('collection_items')
+    .select('*, collections!inner(site_id, collection_key, label, item_schema, max_items)')
+    .eq('id', id)
+    .eq('collections.site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .single() as { data: (CollectionItem & { collections: Collection }) | null };
+
+  if (!item) {
+    throw new NotFoundError('Collection item not found in the trash');
+  }
+
+  const { collections: collection } = item;
+  await verifyItemReferences(siteId, collection.item_schema, item.data);
+
+  const { data, error } = await supabase.rpc('restore_collection_item', { p_item_id: id });
+
+  if (error) {
+    if (error.message?.includes('collection_full')) {
+      throw new ValidationError(`Collection is at maximum capacity (${collection.max_items} items)`);
+    }
+    if (error.message?.includes('collection_item_not_found')) {
+      throw new NotFoundError('Collection item not found in the trash');
+    }
+    throw error;
+  }
+
+  return { ...data, collection_key: collection.collection_key, collection_label: collection.label };
+}
+
+/**
+ * Permanently remove collection items deleted before a cutoff
+ * Returns the removed items' sites and collections so their uploads can be removed too
+ */
+export async function purgeDeletedCollectionItems(
+  before: Date
+): Promise<{ id: string; site_id: string; collection_key: string }[]> {
+  const { data: items, error: selectError } = await supabase
+    .from('collection_items')
+    .select('id, collections(site_id, collection_key)')
+    .lt('deleted_at', before.toISOString());
+
+  if (selectError) {
+    throw selectError;
+  }
+
+  if (!items || items.length === 0) {
+    return [];
+  }
+
+  const { error } = await supabase
+    .from('collection_items')
+    .delete()
+    .in('id', items.map((item: { id: string }) => item.id));
+
+  if (error) {
+    throw error;
+  }
+
+  return items.map(
+    (item: { id: string; collections: Pick<Collection, 'site_id' | 'collection_key'> }) => ({
+      id: item.id,
+      site_id: item.collections.site_id,
+      collection_key: item.collections.collection_key,
+    })
+  );
+}
+
+// ============================================
+// SCHEMA MIGRATION OPERATIONS
+// ============================================
+
+/**
+ * Map errors raised by the schema migration functions
+ */
+function schemaMigrationError(error: { message?: string }): Error {
+  if (error.message?.includes('schema_migration_conflict')) {
+    return new ConflictError('The collection changed since this migration was planned - preview it again');
+  }
+  if (error.message?.includes('schema_migration_not_found')) {
+    return new NotFoundError('Schema migration not found');
+  }
+  if (error.message?.includes('collection_not_found')) {
+    return new NotFoundError('Collection not found');
+  }
+  return error as Error;
+}
+
+/**
+ * Get the schema migration history of a collection, newest first
+ */
+export async function getCollectionSchemaMigrations(
+  collectionId: string
+): Promise<CollectionSchemaMigration[]> {
+  const { data, error } = await supabase
+    .from('collection_schema_migrations')
+    .select('id, collection_id, site_id, performed_by, old_schema, new_schema, changes, affected_items, status, undone_by, undone_at, created_at')
+    .eq('collection_id', collectionId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a schema migration belonging to a collection
+ */
+export async function getCollectionSchemaMigration(
+  collectionId: string,
+  id: string
+): Promise<CollectionSchemaMigration> {
+  const { data, error } = await supabase
+    .from('collection_schema_migrations')
+    .select('*')
+    .eq('collection_id', collectionId)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Schema migration not found');
+  }
+
+  return data;
+}
+
+/**
+ * Replace the item schema and rewrite item data in one transaction
+ * Fails with ConflictError if the schema or items changed since they were read
+ */
+export async function applyCollectionSchemaMigration(params: {
+  collectionId: string;
+  oldSchema: Collection['item_schema'];
+  newSchema: Collection['item_schema'];
+  changes: CollectionSchemaChange[];
+  items: CollectionSchemaMigration['items'];
+  performedBy: string;
+}): Promise<CollectionSchemaMigration> {
+  const { data, error } = await supabase.rpc('apply_collection_schema_migration', {
+    p_collection_id: params.collectionId,
+    p_old_schema: params.oldSchema,
+    p_new_schema: params.newSchema,
+    p_changes: params.changes,
+    p_items: params.items,
+    p_performed_by: params.performedBy,
+  });
+
+  if (error) {
+    throw schemaMigrationError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Restore the schema and item data from before a migration in one transaction
+ */
+export async function undoCollectionSchemaMigration(
+  id: string,
+  undoneBy: string
+): Promise<CollectionSchemaMigration> {
+  const { data, error } = await supabase.rpc('undo_collection_schema_migration', {
+    p_migration_id: id,
+    p_undone_by: undoneBy,
+  });
+
+  if (error) {
+    throw schemaMigrationError(error);
+  }
+
+  return data;
+}
@@ -2,7 +2,7 @@
 
 import { getAdminClient } from '@/lib/supabase/admin';
 import { NotFoundError, ConflictError } from '@/lib/utils/errors';
-import type { TextContent, BusinessInfo, Image } from '@/lib/types/database';
+import type { TextContent, BusinessInfo, Image, ImagePlaceholder } from '@/lib/types/database';
 import type {
   CreateTextFieldRequest,
   UpdateTextFieldRequest,
@@ -25,6 +25,7 @@ export async function getTextContent(siteId: string): Promise<TextContent[]> {
     .from('text_content')
     .select('*')
     .eq('site_id', siteId)
+    .is('deleted_at', null)
     .order('sort_order');
 
   if (error) {
@@ -46,6 +47,7 @@ export async function getTextContentByKey(
     .select('*')
     .eq('site_id', siteId)
     .eq('content_key', contentKey)
+    .is('deleted_at', null)
     .single();
 
   if (error || !data) {
@@ -62,16 +64,20 @@ export async function createTextField(
   siteId: string,
   input: CreateTextFieldRequest
 ): Promise<TextContent> {
-  // Check if key already exists
+  // Check if key already exists (keys stay taken while a field is in the trash)
   const { data: existing } = await supabase
     .from('text_content')
-    .select('id')
+    .select('id, deleted_at')
     .eq('site_id', siteId)
     .eq('content_key', input.content_key)
     .single();
 
   if (existing) {
-    throw new ConflictError('Text field with this key already exists');
+    throw new ConflictError(
+      existing.deleted_at
+        ? 'A deleted text field with this key is in the trash - restore it instead'
+        : 'Text field with this key already exists'
+    );
   }
 
   const { data, error } = await supabase
@@ -101,6 +107,7 @@ export async function updateTextField(
     .from('text_content')
     .update(input)
     .eq('id', id)
+    .is('deleted_at', null)
     .select()
     .single();
 
@@ -129,6 +136,7 @@ export async function updateTextContent(
     .select('max_length')
     .eq('site_id', siteId)
     .eq('content_key', contentKey)
+    .is('deleted_at', null)
     .single();
 
   if (!existing) {
@@ -145,6 +153,7 @@ export async function updateTextContent(
     .update({ content })
     .eq('site_id', siteId)
     .eq('content_key', contentKey)
+    .is('deleted_at', null)
     .select()
     .single();
 
@@ -156,13 +165,14 @@ export async function updateTextContent(
 }
 
 /**
- * Delete text content field
+ * Delete text content field (moves it to the trash)
  */
 export async function deleteTextField(id: string): Promise<void> {
   const { error } = await supabase
     .from('text_content')
-    .delete()
-    .eq('id', id);
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('deleted_at', null);
 
   if (error) {
     throw error;
@@ -227,6 +237,7 @@ export async function getImages(siteId: string): Promise<Image[]> {
     .from('images')
     .select('*')
     .eq('site_id', siteId)
+    .is('deleted_at', null)
     .order('sort_order');
 
   if (error) {
@@ -248,6 +259,7 @@ export async function getImageByKey(
     .select('*')
     .eq('site_id', siteId)
     .eq('image_key', imageKey)
+    .is('deleted_at', null)
     .single();
 
   if (error || !data) {
@@ -264,16 +276,20 @@ export async function createImageSlot(
   siteId: string,
   input: CreateImageSlotRequest
 ): Promise<Image> {
-  // Check if key already exists
+  // Check if key already exists (keys stay taken while a slot is in the trash)
   const { data: existing } = await supabase
     .from('images')
-    .select('id')
+    .select('id, deleted_at')
     .eq('site_id', siteId)
     .eq('image_key', input.image_key)
     .single();
 
   if (existing) {
-    throw new ConflictError('Image slot with this key already exists');
+    throw new ConflictError(
+      existing.deleted_at
+        ? 'A deleted image slot with this key is in the trash - restore it instead'
+        : 'Image slot with this key already exists'
+    );
   }
 
   const { data, error } = await supabase
@@ -303,6 +319,7 @@ export async function updateImageSlot(
     .from('images')
     .update(input)
     .eq('id', id)
+    .is('deleted_at', null)
     .select()
     .single();
 
@@ -319,18 +336,61 @@ export async function updateImageSlot(
 
 /**
  * Update image URL and alt text (client)
+ * The upload's pixel size, responsive variants and placeholder are replaced
+ * along with the URL, and the previous upload's focal point and crop are cleared
  */
 export async function updateImageContent(
   siteId: string,
   imageKey: string,
   url: string,
-  altText?: string
+  altText?: string,
+  file: Pick<Image, 'width' | 'height' | 'variants' | 'placeholder'> = {
+    width: null,
+    height: null,
+    variants: [],
+    placeholder: null,
+  }
+): Promise<Image> {
+  const { data, error } = await supabase
+    .from('images')
+    .update({ url, alt_text: altText || null, ...file, focal_point: null, crop: null })
+    .eq('site_id', siteId)
+    .eq('image_key', imageKey)
+    .is('deleted_at', null)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new NotFoundError('Image slot not found');
+  }
+
+  return data;
+}
+
+/**
+ * Update the alt text and framing of a slot's current upload, or point it at
+ * another library asset (client)
+ */
+export async function updateImageDetails(
+  siteId: string,
+  imageKey: string,
+  input: Partial<
+    Pick<
+      Image,
+      'url' | 'alt_text' | 'width' | 'height' | 'variants' | 'placeholder' | 'focal_point' | 'crop'
+    >
+  >
 ): Promise<Image> {
   const { data, error } = await supabase
     .from('images')
-    .update({ url, alt_text: altText || null })
+    .update(input)
     .eq('site_id', siteId)
     .eq('image_key', imageKey)
+    .is('deleted_at', null)
     .select()
     .single();
 
@@ -346,12 +406,201 @@ export async function updateImageContent(
 }
 
 /**
- * Delete image slot
+ * Get image slots with an upload that has no recorded size or variants yet
+ */
+export async function getUnprocessedImages(): Promise<Image[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('*')
+    .not('url', 'is', null)
+    .is('width', null)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record the pixel size and responsive variants of an image slot's upload
+ */
+export async function updateImageVariants(
+  id: string,
+  file: Pick<Image, 'width' | 'height' | 'variants'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('images')
+    .update(file)
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get image slots with an upload that has no placeholder yet (trash included)
+ */
+export async function getImagesWithoutPlaceholder(): Promise<Image[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('*')
+    .not('url', 'is', null)
+    .is('placeholder', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record the placeholder of an image slot's upload
+ */
+export async function updateImagePlaceholder(
+  id: string,
+  placeholder: ImagePlaceholder
+): Promise<void> {
+  const { error } = await supabase
+    .from('images')
+    .update({ placeholder })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete image slot (moves it to the trash; the uploaded file is kept)
  */
 export async function deleteImageSlot(id: string): Promise<void> {
-  const { error } = await supabase.from('images').delete().eq('id', id);
+  const { error } = await supabase
+    .from('images')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('deleted_at', null);
 
   if (error) {
     throw error;
   }
 }
+
+// ============================================
+// TRASH OPERATIONS
+// ============================================
+
+/**
+ * Get the text fields in a site's trash, most recently deleted first
+ */
+export async function getDeletedTextFields(siteId: string): Promise<TextContent[]> {
+  const { data, error } = await supabase
+    .from('text_content')
+    .select('*')
+    .eq('site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get the image slots in a site's trash, most recently deleted first
+ */
+export async function getDeletedImageSlots(siteId: string): Promise<Image[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .select('*')
+    .eq('site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Take a text field out of a site's trash
+ */
+export async function restoreTextField(siteId: string, id: string): Promise<TextContent> {
+  const { data, error } = await supabase
+    .from('text_content')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .eq('site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Text field not found in the trash');
+  }
+
+  return data;
+}
+
+/**
+ * Take an image slot out of a site's trash
+ */
+export async function restoreImageSlot(siteId: string, id: string): Promise<Image> {
+  const { data, error } = await supabase
+    .from('images')
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .eq('site_id', siteId)
+    .not('deleted_at', 'is', null)
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Image slot not found in the trash');
+  }
+
+  return data;
+}
+
+/**
+ * Permanently remove text fields deleted before a cutoff
+ * Returns how many were removed
+ */
+export async function purgeDeletedTextFields(before: Date): Promise<number> {
+  const { data, error } = await supabase
+    .from('text_content')
+    .delete()
+    .lt('deleted_at', before.toISOString())
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return data.length;
+}
+
+/**
+ * Permanently remove image slots deleted before a cutoff
+ * Returns the removed slots so their uploads can be removed too
+ */
+export async function purgeDeletedImageSlots(before: Date): Promise<Image[]> {
+  const { data, error } = await supabase
+    .from('images')
+    .delete()
+    .lt('deleted_at', before.toISOString())
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,254 @@
+// Media library database operations
+
+import { getAdminClient } from '@/lib/supabase/admin';
+import { NotFoundError } from '@/lib/utils/errors';
+import { getPublishedImageUrls } from '@/lib/db/activity';
+import type { ImagePlaceholder, MediaAsset, MediaUsage } from '@/lib/types/database';
+
+const supabase = getAdminClient();
+
+// ============================================
+// MEDIA ASSET OPERATIONS
+// ============================================
+
+/**
+ * Get a site's media assets, newest first
+ */
+export async function getMediaAssets(siteId: string): Promise<MediaAsset[]> {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a media asset of a site
+ */
+export async function getMediaAsset(siteId: string, id: string): Promise<MediaAsset> {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Media asset not found');
+  }
+
+  return data;
+}
+
+/**
+ * Get the media asset stored at a URL, or null if the URL isn't in the library
+ */
+export async function getMediaAssetByUrl(siteId: string, url: string): Promise<MediaAsset | null> {
+  const { data } = await supabase
+    .from('media_assets')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('url', url)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Add an uploaded file to a site's media library
+ */
+export async function createMediaAsset(
+  input: Omit<MediaAsset, 'id' | 'created_at' | 'updated_at'>
+): Promise<MediaAsset> {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .insert(input)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update a media asset's alt text
+ */
+export async function updateMediaAsset(
+  siteId: string,
+  id: string,
+  input: Partial<Pick<MediaAsset, 'alt_text'>>
+): Promise<MediaAsset> {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .update(input)
+    .eq('site_id', siteId)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new NotFoundError('Media asset not found');
+  }
+
+  return data;
+}
+
+/**
+ * Remove a media asset from the library (its files are removed by the caller)
+ */
+export async function deleteMediaAsset(siteId: string, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('media_assets')
+    .delete()
+    .eq('site_id', siteId)
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get media assets without a placeholder yet, across all sites
+ */
+export async function getMediaAssetsWithoutPlaceholder(): Promise<MediaAsset[]> {
+  const { data, error } = await supabase
+    .from('media_assets')
+    .select('*')
+    .is('placeholder', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Record the placeholder of a media asset
+ */
+export async function updateMediaAssetPlaceholder(
+  id: string,
+  placeholder: ImagePlaceholder
+): Promise<void> {
+  const { error } = await supabase
+    .from('media_assets')
+    .update({ placeholder })
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+export interface MediaReference {
+  url: string;
+  usage: MediaUsage;
+}
+
+// Every string inside a JSON value
+function collectStrings(value: unknown, strings: Set<string>): Set<string> {
+  if (typeof value === 'string') {
+    strings.add(value);
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((child) => collectStrings(child, strings));
+  }
+  return strings;
+}
+
+/**
+ * Everything in a site that points at an image URL
+ * Covers image slots, the business logo, collection items (trash included)
+ * and every published version, which keeps URLs after the draft moves on
+ */
+export async function getMediaReferences(siteId: string): Promise<MediaReference[]> {
+  const [images, businessInfo, items, published] = await Promise.all([
+    supabase
+      .from('images')
+      .select('label, url, deleted_at')
+      .eq('site_id', siteId)
+      .not('url', 'is', null),
+    supabase.from('business_info').select('logo_url').eq('site_id', siteId).maybeSingle(),
+    supabase
+      .from('collection_items')
+      .select('data, deleted_at, collections!inner(site_id, label)')
+      .eq('collections.site_id', siteId),
+    getPublishedImageUrls(siteId),
+  ]);
+
+  for (const result of [images, businessInfo, items]) {
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  const references: MediaReference[] = [];
+
+  for (const image of images.data || []) {
+    references.push({
+      url: image.url,
+      usage: { type: 'image_slot', label: image.label, in_trash: image.deleted_at !== null },
+    });
+  }
+
+  if (businessInfo.data?.logo_url) {
+    references.push({
+      url: businessInfo.data.logo_url,
+      usage: { type: 'business_logo', label: 'Business logo', in_trash: false },
+    });
+  }
+
+  for (const item of items.data || []) {
+    const name = item.data?.name ?? item.data?.title;
+    const label = typeof name === 'string' && name ? `${item.collections.label}: ${name}` : item.collections.label;
+    for (const url of collectStrings(item.data, new Set())) {
+      references.push({
+        url,
+        usage: { type: 'collection_item', label, in_trash: item.deleted_at !== null },
+      });
+    }
+  }
+
+  // Every version, not just the live one - rolling back needs its files.
+  // No version means a publish request awaiting approval.
+  const versionsByUrl = new Map<string, number[]>();
+  for (const { url, version_number } of published) {
+    if (version_number === null) {
+      references.push({
+        url,
+        usage: { type: 'published_site', label: 'Publish request awaiting approval', in_trash: false },
+      });
+      continue;
+    }
+    versionsByUrl.set(url, [...(versionsByUrl.get(url) ?? []), version_number]);
+  }
+  for (const [url, versions] of versionsByUrl) {
+    references.push({
+      url,
+      usage: {
+        type: 'published_site',
+        label: `Published version${versions.length > 1 ? 's' : ''} ${versions.join(', ')}`,
+        in_trash: false,
+      },
+    });
+  }
+
+  return references;
+}
@@ -0,0 +1,371 @@
+// Publishing workflow database operations
+
+import { getAdminClient } from '@/lib/supabase/admin';
+import { NotFoundError, ConflictError } from '@/lib/utils/errors';
+import type {
+  ContentSnapshot,
+  PublishApprovalRequest,
+  PublishApprovalStatus,
+  ScheduledPublish,
+  UserType,
+} from '@/lib/types/database';
+
+const supabase = getAdminClient();
+
+// ============================================
+// SCHEDULED PUBLISH OPERATIONS
+// ============================================
+
+/**
+ * Schedule a publish for a future time
+ */
+export async function createScheduledPublish(
+  siteId: string,
+  scheduledBy: string,
+  schedulerType: UserType,
+  scheduledAt: string,
+  notes?: string
+): Promise<ScheduledPublish> {
+  const { data, error } = await (supabase.from('scheduled_publishes') as any)
+    .insert({
+      site_id: siteId,
+      scheduled_by: scheduledBy,
+      scheduler_type: schedulerType,
+      scheduled_at: scheduledAt,
+      notes: notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get pending scheduled publishes for a site, soonest first
+ */
+export async function getPendingScheduledPublishes(
+  siteId: string
+): Promise<ScheduledPublish[]> {
+  const { data, error } = await supabase
+    .from('scheduled_publishes')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('status', 'pending')
+    .order('scheduled_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a scheduled publish belonging to a site
+ */
+export async function getScheduledPublish(
+  siteId: string,
+  id: string
+): Promise<ScheduledPublish> {
+  const { data, error } = await supabase
+    .from('scheduled_publishes')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Scheduled publish not found');
+  }
+
+  return data;
+}
+
+/**
+ * Cancel a pending scheduled publish
+ * Returns null if the schedule already ran or was cancelled
+ */
+export async function cancelScheduledPublish(
+  id: string
+): Promise<ScheduledPublish | null> {
+  const { data, error } = await (supabase.from('scheduled_publishes') as any)
+    .update({ status: 'cancelled', processed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Claim the earliest due scheduled publish for processing
+ * Moving it to 'processing' keeps concurrent runners from publishing the same
+ * schedule twice. Each schedule is claimed right before it's published and
+ * leased until claimed_until, so a crashed runner's schedule is picked up
+ * again once its lease expires - and a long run can't outlast the leases of
+ * schedules it hasn't reached yet. Returns null when nothing is due.
+ */
+export async function claimNextDueScheduledPublish(
+  leaseSeconds: number,
+  dueBy: Date = new Date()
+): Promise<ScheduledPublish | null> {
+  // Another runner may claim the candidate first; then try the next one
+  for (;;) {
+    const now = new Date();
+    const claimable = `status.eq.pending,and(status.eq.processing,claimed_until.lte."${now.toISOString()}")`;
+
+    const { data: candidate, error: selectError } = await supabase
+      .from('scheduled_publishes')
+      .select('id')
+      .or(claimable)
+      .lte('scheduled_at', dueBy.toISOString())
+      .order('scheduled_at')
+      .limit(1)
+      .maybeSingle();
+
+    if (selectError) {
+      throw selectError;
+    }
+
+    if (!candidate) {
+      return null;
+    }
+
+    const { data, error } = await (supabase.from('scheduled_publishes') as any)
+      .update({
+        status: 'processing',
+        claimed_until: new Date(now.getTime() + leaseSeconds * 1000).toISOString(),
+      })
+      .eq('id', (candidate as { id: string }).id)
+      .or(claimable)
+      .select();
+
+    if (error) {
+      throw error;
+    }
+
+    if (data && data.length > 0) {
+      return data[0] as ScheduledPublish;
+    }
+  }
+}
+
+/**
+ * Mark a claimed scheduled publish as completed
+ * Only while the runner still holds the claim; returns false if the lease ran
+ * out and the schedule was claimed again
+ */
+export async function completeScheduledPublish(
+  schedule: Pick<ScheduledPublish, 'id' | 'claimed_until'>,
+  publishHistoryId: string
+): Promise<boolean> {
+  const { data, error } = await (supabase.from('scheduled_publishes') as any)
+    .update({
+      status: 'published',
+      publish_history_id: publishHistoryId,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('status', 'processing')
+    .eq('claimed_until', schedule.claimed_until)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Mark a claimed scheduled publish as failed
+ * Only while the runner still holds the claim; returns false if the lease ran
+ * out and the schedule was claimed again
+ */
+export async function failScheduledPublish(
+  schedule: Pick<ScheduledPublish, 'id' | 'claimed_until'>,
+  errorMessage: string
+): Promise<boolean> {
+  const { data, error } = await (supabase.from('scheduled_publishes') as any)
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', schedule.id)
+    .eq('status', 'processing')
+    .eq('claimed_until', schedule.claimed_until)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+// ============================================
+// PUBLISH REQUEST OPERATIONS
+// ============================================
+
+// Columns of a publish request without its snapshot, which can be large -
+// only the time the snapshot was taken
+const PUBLISH_REQUEST_SUMMARY_COLUMNS =
+  'id, site_id, requested_by, notes, status, reviewed_by, review_comment, reviewed_at, publish_history_id, created_at, updated_at, snapshot_at:content_snapshot->>snapshot_at';
+
+export type PublishApprovalRequestSummary = Omit<PublishApprovalRequest, 'content_snapshot'> & {
+  snapshot_at: string | null; // null for requests from before snapshots were kept
+};
+
+export type PublishApprovalRequestWithSite = PublishApprovalRequestSummary & {
+  sites: { id: string; name: string; slug: string } | null;
+  clients: { id: string; name: string; email: string } | null;
+};
+
+/**
+ * Submit a publish request for admin approval, with the draft as submitted
+ */
+export async function createPublishRequest(
+  siteId: string,
+  requestedBy: string,
+  contentSnapshot: ContentSnapshot,
+  notes?: string
+): Promise<PublishApprovalRequestSummary> {
+  const { data, error } = await (supabase.from('publish_requests') as any)
+    .insert({
+      site_id: siteId,
+      requested_by: requestedBy,
+      content_snapshot: contentSnapshot,
+      notes: notes || null,
+    })
+    .select(PUBLISH_REQUEST_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    // Unique violation on the one-pending-request-per-site index
+    if (error.code === '23505') {
+      throw new ConflictError('A publish request is already awaiting review');
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get recent publish requests for a site, newest first
+ */
+export async function getSitePublishRequests(
+  siteId: string,
+  limit = 10
+): Promise<PublishApprovalRequestSummary[]> {
+  const { data, error } = await supabase
+    .from('publish_requests')
+    .select(PUBLISH_REQUEST_SUMMARY_COLUMNS)
+    .eq('site_id', siteId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get publish requests across all sites with site and client info
+ */
+export async function getPublishRequests(
+  status?: PublishApprovalStatus
+): Promise<PublishApprovalRequestWithSite[]> {
+  let query = supabase
+    .from('publish_requests')
+    .select(`${PUBLISH_REQUEST_SUMMARY_COLUMNS}, sites(id, name, slug), clients(id, name, email)`);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: status === 'pending' });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a publish request by ID
+ */
+export async function getPublishRequest(id: string): Promise<PublishApprovalRequest> {
+  const { data, error } = await supabase
+    .from('publish_requests')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Publish request not found');
+  }
+
+  return data;
+}
+
+/**
+ * Record an admin's decision on a pending publish request
+ * Returns null if the request was already reviewed, so two admins can't
+ * both act on the same request
+ */
+export async function reviewPublishRequest(
+  id: string,
+  review: {
+    status: Exclude<PublishApprovalStatus, 'pending'>;
+    reviewedBy: string;
+    comment?: string;
+  }
+): Promise<PublishApprovalRequestSummary | null> {
+  const { data, error } = await (supabase.from('publish_requests') as any)
+    .update({
+      status: review.status,
+      reviewed_by: review.reviewedBy,
+      review_comment: review.comment || null,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(PUBLISH_REQUEST_SUMMARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update a publish request
+ */
+export async function updatePublishRequest(
+  id: string,
+  input: Partial<Omit<PublishApprovalRequest, 'id' | 'site_id' | 'created_at' | 'updated_at'>>
+): Promise<void> {
+  const { error } = await (supabase.from('publish_requests') as any)
+    .update(input)
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -217,6 +217,7 @@ export async function getSitePermissions(siteId: string, _clientId?: string): Pr
       can_delete_collection_items: false,
       can_reorder_collection_items: false,
       can_publish: false,
+      can_request_publish: false,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     } as SitePermissions;
@@ -0,0 +1,302 @@
+// Webhook database operations
+
+import { getAdminClient } from '@/lib/supabase/admin';
+import { NotFoundError } from '@/lib/utils/errors';
+import { generateWebhookSecret } from '@/lib/webhooks/signature';
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/types/database';
+import type {
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+  PaginationParams,
+} from '@/lib/types/api';
+
+const supabase = getAdminClient();
+
+// ============================================
+// WEBHOOK ENDPOINT OPERATIONS
+// ============================================
+
+// An endpoint as returned after creation - the signing secret is only shown
+// when it is generated, then just its last characters
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'> & { secret_hint: string };
+
+/**
+ * Mask an endpoint's signing secret
+ */
+export function toWebhookEndpointSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  const { secret, ...summary } = endpoint;
+  return { ...summary, secret_hint: `whsec_…${secret.slice(-4)}` };
+}
+
+/**
+ * Get all webhook endpoints for a site
+ */
+export async function getWebhookEndpoints(siteId: string): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('site_id', siteId)
+    .order('created_at');
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a webhook endpoint belonging to a site
+ */
+export async function getWebhookEndpoint(
+  siteId: string,
+  id: string
+): Promise<WebhookEndpoint> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  return data;
+}
+
+/**
+ * Get active endpoints subscribed to an event
+ * An endpoint with no events selected receives every event
+ */
+export async function getSubscribedWebhookEndpoints(
+  siteId: string,
+  event: string
+): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as WebhookEndpoint[]) || []).filter(
+    (endpoint) => endpoint.events.length === 0 || endpoint.events.includes(event)
+  );
+}
+
+/**
+ * Create a webhook endpoint with a generated signing secret
+ */
+export async function createWebhookEndpoint(
+  siteId: string,
+  input: CreateWebhookEndpointRequest
+): Promise<WebhookEndpoint> {
+  const { data, error } = await (supabase.from('webhook_endpoints') as any)
+    .insert({
+      site_id: siteId,
+      url: input.url,
+      description: input.description || null,
+      events: input.events || [],
+      is_active: input.is_active ?? true,
+      secret: generateWebhookSecret(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update a webhook endpoint
+ */
+export async function updateWebhookEndpoint(
+  id: string,
+  input: UpdateWebhookEndpointRequest & { secret?: string }
+): Promise<WebhookEndpoint> {
+  const { data, error } = await (supabase.from('webhook_endpoints') as any)
+    .update(input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  return data;
+}
+
+/**
+ * Replace an endpoint's signing secret
+ * Deliveries are signed with the new secret from the next attempt on
+ */
+export async function rotateWebhookSecret(id: string): Promise<WebhookEndpoint> {
+  return updateWebhookEndpoint(id, { secret: generateWebhookSecret() });
+}
+
+/**
+ * Delete a webhook endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+}
+
+// ============================================
+// WEBHOOK DELIVERY OPERATIONS
+// ============================================
+
+/**
+ * Queue deliveries
+ */
+export async function createWebhookDeliveries(
+  deliveries: Array<
+    Pick<WebhookDelivery, 'endpoint_id' | 'site_id' | 'event' | 'payload' | 'next_attempt_at'> &
+      Partial<Pick<WebhookDelivery, 'replay_of'>>
+  >
+): Promise<WebhookDelivery[]> {
+  if (deliveries.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await (supabase.from('webhook_deliveries') as any)
+    .insert(deliveries)
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Get the delivery log for a site, newest first
+ */
+export async function getWebhookDeliveries(
+  siteId: string,
+  filters: { endpointId?: string; status?: string } = {},
+  pagination: PaginationParams = {}
+): Promise<{ data: WebhookDelivery[]; total: number }> {
+  const { page = 1, limit = 20 } = pagination;
+  const offset = (page - 1) * limit;
+
+  let query = supabase
+    .from('webhook_deliveries')
+    .select('*', { count: 'exact' })
+    .eq('site_id', siteId);
+
+  if (filters.endpointId) {
+    query = query.eq('endpoint_id', filters.endpointId);
+  }
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    data: data || [],
+    total: count || 0,
+  };
+}
+
+/**
+ * Get a delivery belonging to a site
+ */
+export async function getWebhookDelivery(
+  siteId: string,
+  id: string
+): Promise<WebhookDelivery> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) {
+    throw new NotFoundError('Webhook delivery not found');
+  }
+
+  return data;
+}
+
+/**
+ * Claim pending deliveries that are due
+ * Claiming pushes next_attempt_at out by the lease, so a crashed worker's
+ * deliveries are picked up again once the lease expires
+ */
+export async function claimDueWebhookDeliveries(
+  leaseSeconds: number,
+  now: Date = new Date()
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await (supabase.from('webhook_deliveries') as any)
+    .update({ next_attempt_at: new Date(now.getTime() + leaseSeconds * 1000).toISOString() })
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export async function updateWebhookDelivery(
+  id: string,
+  input: Partial<
+    Pick<
+      WebhookDelivery,
+      | 'status'
+      | 'attempt_count'
+      | 'next_attempt_at'
+      | 'last_attempt_at'
+      | 'response_status'
+      | 'response_body'
+      | 'error_message'
+    >
+  >
+): Promise<WebhookDelivery> {
+  const { data, error } = await (supabase.from('webhook_deliveries') as any)
+    .update(input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,512 @@
+// Collection item validation
+// Compiles a collection's item_schema into a zod validator so item data is
+// checked server-side, not just by the dashboard form
+
+import { z } from 'zod';
+import { ValidationError } from '@/lib/utils/errors';
+import { sanitizeHtml, sanitizeText, sanitizeObject } from './sanitize';
+import type { CollectionFieldSchema, PriceValue } from '@/lib/types/database';
+
+// Empty form inputs arrive as '', null or [] - treat them as missing
+const emptyToUndefined = (val: unknown) =>
+  val === null ||
+  (typeof val === 'string' && val.trim() === '') ||
+  (Array.isArray(val) && val.length === 0)
+    ? undefined
+    : val;
+
+// A repeated entry the form left blank, e.g. an added but unfilled row
+const isBlankEntry = (val: unknown): boolean =>
+  emptyToUndefined(val) === undefined ||
+  (typeof val === 'object' &&
+    !Array.isArray(val) &&
+    Object.values(val as Record<string, unknown>).every(isBlankEntry));
+
+/**
+ * Array validator for repeatable fields
+ * Blank entries are dropped before the entries and item counts are checked
+ */
+function repeated(field: CollectionFieldSchema, entry: z.ZodTypeAny): z.ZodTypeAny {
+  let list = z.array(entry, { invalid_type_error: `${field.label} must be a list` });
+  if (field.min_items) {
+    list = list.min(field.min_items, `${field.label} needs at least ${field.min_items} entries`);
+  }
+  if (field.max_items) {
+    list = list.max(field.max_items, `${field.label} can have at most ${field.max_items} entries`);
+  }
+
+  return z.preprocess(
+    (val) => (Array.isArray(val) ? val.filter((item) => !isBlankEntry(item)) : val),
+    list
+  );
+}
+
+// Drop optional fields that were left empty
+const dropUndefined = (data: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Number of minor units in a currency's major unit (2 for USD, 0 for JPY)
+ */
+export function currencyDigits(currency: string): number {
+  return (
+    new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions()
+      .maximumFractionDigits ?? 2
+  );
+}
+
+/**
+ * Format a price stored in minor units for display
+ */
+export function formatPrice(price: PriceValue, locale = 'en-US'): string {
+  const digits = currencyDigits(price.currency);
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: price.currency }).format(
+    price.amount / 10 ** digits
+  );
+}
+
+// Calendar date (YYYY-MM-DD) that actually exists, e.g. not 2025-02-30
+function isCalendarDate(val: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(val);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === val;
+}
+
+/**
+ * Price validator - stored as { amount, currency } with amount in minor units
+ * Objects are taken as minor units; numbers and strings ("12.50", "$12.50") as
+ * major units in the field's currency
+ */
+function priceValidator(field: CollectionFieldSchema): z.ZodTypeAny {
+  const fieldCurrency = field.currency ?? DEFAULT_CURRENCY;
+  const message = `${field.label} must be a valid amount`;
+
+  const currency = z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, `${field.label} must have a 3-letter currency code`);
+
+  const minorUnits = z.object({
+    amount: z.coerce.number({ invalid_type_error: message }).int(message).min(0, message),
+    currency: currency.optional().default(fieldCurrency),
+  });
+
+  const majorUnits = z
+    .union([z.number(), z.string()], { invalid_type_error: message })
+    .transform((val, ctx) => {
+      const amount = typeof val === 'number' ? val : Number(val.replace(/[^0-9.\-]/g, ''));
+      if (!Number.isFinite(amount) || amount < 0 || (typeof val === 'string' && !/[0-9]/.test(val))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        return z.NEVER;
+      }
+      return { amount: Math.round(amount * 10 ** currencyDigits(fieldCurrency)), currency: fieldCurrency };
+    });
+
+  return z.union([minorUnits, majorUnits], { errorMap: () => ({ message }) });
+}
+
+/**
+ * Build the validator for a single field
+ */
+function compileField(field: CollectionFieldSchema): z.ZodTypeAny {
+  let validator: z.ZodTypeAny;
+
+  switch (field.type) {
+    case 'number':
+      validator = z.coerce
+        .number({ invalid_type_error: `${field.label} must be a number` })
+        .finite(`${field.label} must be a number`);
+      break;
+
+    case 'boolean':
+      validator = z.preprocess(
+        (val) => (val === 'true' || val === 1 ? true : val === 'false' || val === 0 ? false : val),
+        z.boolean({ invalid_type_error: `${field.label} must be true or false` })
+      );
+      break;
+
+    case 'select': {
+      const options = field.options ?? [];
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be text` })
+        .refine(
+          (val) => options.length === 0 || options.includes(val),
+          `${field.label} must be one of: ${options.join(', ')}`
+        );
+      break;
+    }
+
+    case 'image': {
+      // Stored as { url, alt } - a bare URL is accepted as an image without alt text
+      const image = z
+        .object(
+          {
+            url: z
+              .string({ invalid_type_error: `${field.label} must be an image URL` })
+              .trim()
+              .url(`${field.label} must be an image URL`)
+              .max(2000),
+            alt: z
+              .string({ invalid_type_error: `${field.label} alt text must be text` })
+              .trim()
+              .max(500, `${field.label} alt text must be at most 500 characters`)
+              .optional(),
+          },
+          { invalid_type_error: `${field.label} must be an image` }
+        )
+        .transform(({ url, alt }) => (alt ? { url, alt } : { url }));
+
+      validator = z.preprocess((val) => (typeof val === 'string' ? { url: val } : val), image);
+      break;
+    }
+
+    case 'date':
+      // Full ISO timestamps are cut down to their date
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be a date` })
+        .transform((val) => val.trim().slice(0, 10))
+        .refine(isCalendarDate, `${field.label} must be a date (YYYY-MM-DD)`);
+      break;
+
+    case 'datetime':
+      // Stored in UTC - the offset is required so the time isn't ambiguous
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be a date and time` })
+        .trim()
+        .datetime({ offset: true, message: `${field.label} must be an ISO date and time with a timezone` })
+        .transform((val) => new Date(val).toISOString());
+      break;
+
+    case 'url':
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be a URL` })
+        .trim()
+        .max(2000)
+        .url(`${field.label} must be a URL`)
+        .refine((val) => /^https?:\/\//i.test(val), `${field.label} must be an http or https URL`);
+      break;
+
+    case 'email':
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be an email address` })
+        .trim()
+        .toLowerCase()
+        .max(255)
+        .email(`${field.label} must be an email address`);
+      break;
+
+    case 'phone':
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be a phone number` })
+        .trim()
+        .max(50)
+        .regex(/^[\d\s\-\+\(\)\.]+$/, `${field.label} must be a phone number`)
+        .refine((val) => {
+          const digits = val.replace(/\D/g, '').length;
+          return digits >= 5 && digits <= 15;
+        }, `${field.label} must be a phone number`)
+        .transform((val) => val.replace(/\s+/g, ' '));
+      break;
+
+    case 'price':
+      validator = priceValidator(field);
+      break;
+
+    case 'color':
+      // Normalised to lowercase #rrggbb
+      validator = z
+        .string({ invalid_type_error: `${field.label} must be a hex color` })
+        .trim()
+        .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, `${field.label} must be a hex color like #1a2b3c`)
+        .transform((val) => {
+          const hex = val.replace('#', '').toLowerCase();
+          return `#${hex.length === 3 ? hex.replace(/./g, '$&$&') : hex}`;
+        });
+      break;
+
+    case 'rich_text': {
+      // Markup left with no text (e.g. "<p></p>") counts as empty
+      const html = z
+        .string({ invalid_type_error: `${field.label} must be text` })
+        .transform((val) => {
+          const clean = sanitizeHtml(val, { allowLinks: true });
+          return clean.replace(/<[^>]*>/g, '').trim() ? clean : undefined;
+        });
+
+      validator = field.max_length
+        ? html.pipe(
+            z
+              .string()
+              .max(field.max_length, `${field.label} must be at most ${field.max_length} characters`)
+              .optional()
+          )
+        : html;
+      break;
+    }
+
+    case 'multi_select': {
+      // A single value is accepted as a one-entry selection; duplicates are dropped
+      const options = field.options ?? [];
+      const option = z
+        .string({ invalid_type_error: `${field.label} must be a list of options` })
+        .refine(
+          (val) => options.length === 0 || options.includes(val),
+          `${field.label} must only contain: ${options.join(', ')}`
+        );
+      validator = z.preprocess(
+        (val) => (typeof val === 'string' ? [val] : val),
+        repeated(field, option).transform((val: string[]) => [...new Set(val)])
+      );
+      break;
+    }
+
+    case 'list':
+      // Entries are validated as a required field of the list's item type
+      validator = repeated(
+        field,
+        compileField({
+          type: field.item_type ?? 'text',
+          label: `${field.label} entry`,
+          required: true,
+          max_length: field.max_length,
+          options: field.options,
+        })
+      );
+      break;
+
+    case 'group': {
+      const group = compileItemSchema(field.fields ?? {});
+      validator = field.repeatable
+        ? repeated(field, group)
+        : z.preprocess((val) => (isBlankEntry(val) ? undefined : val), group);
+      break;
+    }
+
+    case 'reference': {
+      // Item ids - whether they exist is checked against the database on write
+      const id = z
+        .string({ invalid_type_error: `${field.label} must reference an item` })
+        .uuid(`${field.label} must reference an item`);
+      validator = field.multiple
+        ? z.preprocess(
+            (val) => (typeof val === 'string' ? [val] : val),
+            repeated(field, id).transform((val: string[]) => [...new Set(val)])
+          )
+        : id;
+      break;
+    }
+
+    case 'text':
+    case 'textarea':
+    default: {
+      // Numbers are accepted and stored as text
+      const text = z
+        .union([z.string(), z.number()], { invalid_type_error: `${field.label} must be text` })
+        .transform((val) => String(val).trim());
+
+      validator = field.max_length
+        ? text.pipe(
+            z.string().max(field.max_length, `${field.label} must be at most ${field.max_length} characters`)
+          )
+        : text;
+      break;
+    }
+  }
+
+  const value = z.preprocess(emptyToUndefined, validator.optional());
+
+  return field.required
+    ? value.refine((val) => val !== undefined, `${field.label} is required`)
+    : value;
+}
+
+/**
+ * Check whether a single value is valid for a field, ignoring required
+ */
+export function isValidFieldValue(field: CollectionFieldSchema, value: unknown): boolean {
+  return compileField({ ...field, required: false }).safeParse(value).success;
+}
+
+/**
+ * Compile a collection's item_schema into a strict object validator
+ * Values are coerced to their field type and unknown keys are rejected
+ */
+export function compileItemSchema(
+  itemSchema: Record<string, CollectionFieldSchema>
+): z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown> {
+  const shape = Object.fromEntries(
+    Object.entries(itemSchema).map(([key, field]) => [key, compileField(field)])
+  );
+
+  return z.object(shape).strict().transform(dropUndefined);
+}
+
+/**
+ * Sanitize item data using the collection's item_schema
+ * rich_text is left to the validator, which cleans it with sanitizeHtml;
+ * everything else, including nested groups and lists, is stripped to plain text
+ */
+export function sanitizeItemData(
+  itemSchema: Record<string, CollectionFieldSchema>,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const field = itemSchema[key];
+
+    if (field?.type === 'rich_text' && typeof value === 'string') {
+      result[key] = value;
+    } else if (field?.type === 'group' && value && typeof value === 'object') {
+      const sanitizeEntry = (entry: unknown) =>
+        entry && typeof entry === 'object' && !Array.isArray(entry)
+          ? sanitizeItemData(field.fields ?? {}, entry as Record<string, unknown>)
+          : entry;
+      result[key] = Array.isArray(value) ? value.map(sanitizeEntry) : sanitizeEntry(value);
+    } else if (typeof value === 'string') {
+      result[key] = sanitizeText(value, 10000);
+    } else if (value && typeof value === 'object') {
+      result[key] = sanitizeObject({ value }).value;
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate item data against a collection's item_schema
+ * Throws ValidationError with a message per invalid field
+ */
+export function validateItemData(
+  itemSchema: Record<string, CollectionFieldSchema>,
+  data: unknown
+): Record<string, unknown> {
+  const result = compileItemSchema(itemSchema).safeParse(data);
+
+  if (result.success) {
+    return result.data;
+  }
+
+  // Nested errors are keyed by path, e.g. "sizes.0.price"
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    if (issue.code === 'unrecognized_keys') {
+      for (const key of issue.keys) {
+        fieldErrors[[...issue.path, key].join('.')] ??= 'Unknown field';
+      }
+    } else {
+      const key = issue.path.length > 0 ? issue.path.join('.') : '_';
+      fieldErrors[key] ??= issue.message;
+    }
+  }
+
+  const count = Object.keys(fieldErrors).length;
+  throw new ValidationError(
+    count === 1 ? Object.values(fieldErrors)[0]! : `${count} fields are invalid`,
+    fieldErrors
+  );
+}
+
+// Keys and entry indexes leading to a value in item data
+export type ItemDataPath = (string | number)[];
+
+/**
+ * Resolve a dot path to an image in item data, keyed like validation errors
+ * "photo" is an image field, "gallery.2" an entry of an image list,
+ * "details.photo" a field in a group and "team.0.photo" one in a repeatable
+ * group's entry. Returns the field holding the image (whose upload limits
+ * apply) and the path, or null if the path doesn't lead to an image.
+ */
+export function resolveImagePath(
+  itemSchema: Record<string, CollectionFieldSchema>,
+  dotPath: string
+): { field: CollectionFieldSchema; path: ItemDataPath } | null {
+  const parts = dotPath.split('.');
+  const path: ItemDataPath = [];
+  let schema = itemSchema;
+  let i = 0;
+
+  const nextIndex = () => {
+    const part = parts[i + 1];
+    return part !== undefined && /^\d+$/.test(part) ? Number(part) : null;
+  };
+
+  while (i < parts.length) {
+    const key = parts[i]!;
+    const field = Object.hasOwn(schema, key) ? schema[key] : undefined;
+    if (!field) return null;
+    path.push(key);
+
+    if (field.type === 'image') {
+      return i === parts.length - 1 ? { field, path } : null;
+    }
+
+    if (field.type === 'list' && field.item_type === 'image') {
+      const index = nextIndex();
+      return index !== null && i + 2 === parts.length ? { field, path: [...path, index] } : null;
+    }
+
+    if (field.type !== 'group') return null;
+
+    if (field.repeatable) {
+      const index = nextIndex();
+      if (index === null) return null;
+      path.push(index);
+      i++;
+    }
+
+    schema = field.fields ?? {};
+    i++;
+  }
+
+  return null;
+}
+
+/**
+ * Read the value at a path in item data
+ */
+export function getItemDataValue(data: Record<string, unknown>, path: ItemDataPath): unknown {
+  let value: unknown = data;
+  for (const segment of path) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string | number, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Copy of item data with the value at a path replaced
+ * Missing groups are created; an index past the end of a list adds an entry
+ */
+export function setItemDataValue(
+  data: Record<string, unknown>,
+  path: ItemDataPath,
+  value: unknown
+): Record<string, unknown> {
+  const set = (container: unknown, depth: number): unknown => {
+    const segment = path[depth]!;
+    const last = depth === path.length - 1;
+
+    if (typeof segment === 'number') {
+      const entries = Array.isArray(container) ? [...container] : [];
+      const index = Math.min(segment, entries.length);
+      entries[index] = last ? value : set(entries[index], depth + 1);
+      return entries;
+    }
+
+    const entry =
+      container && typeof container === 'object' && !Array.isArray(container)
+        ? { ...(container as Record<string, unknown>) }
+        : {};
+    entry[segment] = last ? value : set(entry[segment], depth + 1);
+    return entry;
+  };
+
+  return set(data, 0) as Record<string, unknown>;
+}
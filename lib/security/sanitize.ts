@@ -35,6 +35,22 @@ function escapeHtml(str: string): string {
     .replace(/'/g, '&#39;');
 }
 
+/**
+ * Decode the entities escapeHtml writes, and numeric ones
+ * Attribute values are decoded before they're checked and escaped again, so
+ * sanitizing stored markup a second time leaves it unchanged
+ */
+function decodeHtmlEntities(str: string): string {
+  return str.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|#39);/gi, (entity, code: string) => {
+    const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"' };
+    if (code.toLowerCase() in named) return named[code.toLowerCase()]!;
+
+    const point =
+      code[1]?.toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
 /**
  * Check if a tag is allowed
  */
@@ -55,7 +71,7 @@ function sanitizeAttributes(attrs: string, allowedAttrs: string[]): string {
 
   while ((match = attrRegex.exec(attrs)) !== null) {
     const attrName = match[1].toLowerCase();
-    const attrValue = match[2] || match[3] || match[4] || '';
+    const attrValue = decodeHtmlEntities(match[2] || match[3] || match[4] || '');
 
     if (allowedAttrs.includes(attrName)) {
       // Extra validation for href to prevent javascript: URLs
@@ -221,8 +237,25 @@ export function sanitizeContent(
   }
 }
 
+/**
+ * Sanitize a value of any shape, descending into arrays and objects
+ */
+function sanitizeValue(value: unknown, maxStringLength: number): unknown {
+  if (typeof value === 'string') {
+    return sanitizeText(value, maxStringLength);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeValue(item, maxStringLength));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return sanitizeObject(value as Record<string, unknown>, maxStringLength);
+  }
+  return value;
+}
+
 /**
  * Sanitize an object's string values recursively
+ * Handles any nesting of objects and arrays, including arrays of arrays
  */
 export function sanitizeObject<T extends Record<string, unknown>>(
   obj: T,
@@ -233,21 +266,7 @@ export function sanitizeObject<T extends Record<string, unknown>>(
   const result: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'string') {
-      result[key] = sanitizeText(value, maxStringLength);
-    } else if (Array.isArray(value)) {
-      result[key] = value.map((item) =>
-        typeof item === 'string'
-          ? sanitizeText(item, maxStringLength)
-          : typeof item === 'object' && item !== null
-          ? sanitizeObject(item as Record<string, unknown>, maxStringLength)
-          : item
-      );
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = sanitizeObject(value as Record<string, unknown>, maxStringLength);
-    } else {
-      result[key] = value;
-    }
+    result[key] = sanitizeValue(value, maxStringLength);
   }
 
   return result as T;
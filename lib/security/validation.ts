@@ -2,6 +2,11 @@
 // CRITICAL: Validate ALL user input to prevent injection attacks
 
 import { z } from 'zod';
+import { ValidationError } from '@/lib/utils/errors';
+import { WEBHOOK_EVENT_NAMES } from '@/lib/webhooks/events';
+import { getWebhookUrlError } from '@/lib/webhooks/destination';
+import { isValidTimeZone } from '@/lib/content/visibility';
+import type { CollectionFieldSchema } from '@/lib/types/database';
 
 // ============================================
 // COMMON VALIDATORS
@@ -103,6 +108,9 @@ export const refreshTokenSchema = z.object({
 // SITE SCHEMAS
 // ============================================
 
+// IANA timezone, e.g. "Europe/Berlin"
+const timezone = z.string().max(64).refine(isValidTimeZone, 'Unknown timezone');
+
 export const createSiteSchema = z.object({
   name: safeString
     .pipe(z.string().min(2, 'Name must be at least 2 characters'))
@@ -111,6 +119,7 @@ export const createSiteSchema = z.object({
   replit_url: replitUrl,
   custom_domain: z.string().max(255).optional().nullable(),
   client_id: uuid.optional().nullable(),
+  timezone: timezone.optional(),
 });
 
 export const updateSiteSchema = z.object({
@@ -123,6 +132,7 @@ export const updateSiteSchema = z.object({
   custom_domain: z.string().max(255).optional().nullable(),
   client_id: uuid.optional().nullable(),
   status: z.enum(['draft', 'published', 'archived']).optional(),
+  timezone: timezone.optional(),
 });
 
 // ============================================
@@ -209,14 +219,76 @@ export const updateBusinessInfoSchema = z.object({
 // COLLECTION SCHEMAS
 // ============================================
 
-const collectionFieldSchema = z.object({
-  type: z.enum(['text', 'textarea', 'number', 'select', 'image', 'boolean']),
-  label: z.string().min(1).max(255),
-  required: z.boolean().optional(),
-  max_length: z.number().int().positive().optional(),
-  options: z.array(z.string().max(255)).optional(),
-  placeholder: z.string().max(255).optional(),
-});
+// Group fields nest their own sub-schema, up to this many levels deep
+const MAX_FIELD_DEPTH = 3;
+
+function fieldDepth(field: CollectionFieldSchema): number {
+  const children = Object.values(field.fields ?? {});
+  return 1 + (children.length > 0 ? Math.max(...children.map(fieldDepth)) : 0);
+}
+
+const collectionFieldSchema: z.ZodType<CollectionFieldSchema> = z.lazy(() =>
+  z
+    .object({
+      type: z.enum([
+        'text',
+        'textarea',
+        'number',
+        'select',
+        'image',
+        'boolean',
+        'date',
+        'datetime',
+        'url',
+        'email',
+        'phone',
+        'price',
+        'color',
+        'rich_text',
+        'multi_select',
+        'list',
+        'group',
+        'reference',
+      ]),
+      label: z.string().min(1).max(255),
+      required: z.boolean().optional(),
+      max_length: z.number().int().positive().optional(),
+      options: z.array(z.string().max(255)).optional(),
+      placeholder: z.string().max(255).optional(),
+      currency: z
+        .string()
+        .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+        .optional(),
+      item_type: z
+        .enum(['text', 'number', 'date', 'url', 'email', 'phone', 'color', 'image'])
+        .optional(),
+      fields: z.record(contentKey, collectionFieldSchema).optional(),
+      repeatable: z.boolean().optional(),
+      min_items: z.number().int().min(0).optional(),
+      max_items: z.number().int().positive().optional(),
+      collection: contentKey.optional(),
+      multiple: z.boolean().optional(),
+      on_delete: z.enum(['block', 'cascade']).optional(),
+      max_file_size_kb: z.number().int().positive().max(10240).optional(),
+    })
+    .refine((field) => field.type !== 'group' || Object.keys(field.fields ?? {}).length > 0, {
+      message: 'Group fields need at least one sub-field',
+      path: ['fields'],
+    })
+    .refine((field) => field.type !== 'reference' || !!field.collection, {
+      message: 'Reference fields need the key of the collection they point to',
+      path: ['collection'],
+    })
+    // Deletes are checked against top-level references only
+    .refine((field) => Object.values(field.fields ?? {}).every((sub) => sub.type !== 'reference'), {
+      message: 'Reference fields cannot be nested in groups',
+      path: ['fields'],
+    })
+    .refine((field) => fieldDepth(field) <= MAX_FIELD_DEPTH, {
+      message: `Groups can be nested at most ${MAX_FIELD_DEPTH} levels deep`,
+      path: ['fields'],
+    })
+);
 
 export const createCollectionSchema = z.object({
   collection_key: contentKey,
@@ -246,22 +318,111 @@ export const updateCollectionSchema = z.object({
   sort_order: z.number().int().min(0).optional(),
 });
 
-export const createCollectionItemSchema = z.object({
-  data: z.record(z.string(), z.unknown()),
-  sort_order: z.number().int().min(0).optional(),
-  is_visible: z.boolean().optional().default(true),
+export const collectionSchemaMigrationSchema = z.object({
+  item_schema: z.record(z.string(), collectionFieldSchema),
+  // Old key -> new key, for renames that can't be detected from labels
+  renames: z.record(contentKey, contentKey).optional(),
+  // Values for new required fields and values that can't be converted
+  defaults: z.record(z.string(), z.unknown()).optional(),
 });
 
-export const updateCollectionItemSchema = z.object({
-  data: z.record(z.string(), z.unknown()).optional(),
-  sort_order: z.number().int().min(0).optional(),
-  is_visible: z.boolean().optional(),
-});
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a time as HH:MM');
+
+// Recurring weekly window in the site's timezone; days are 0 (Sunday) to 6
+const visibilityWindow = z
+  .object({
+    days: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, 'Pick at least one day')
+      .transform((days) => [...new Set(days)].sort()),
+    start: timeOfDay,
+    end: timeOfDay,
+  })
+  .refine((window) => window.start !== window.end, {
+    message: 'Start and end must differ',
+    path: ['end'],
+  });
+
+const scheduleTime = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO date and time with a timezone' })
+  .nullable()
+  .optional();
+
+// Visibility schedule on top of is_visible; null clears a setting
+const itemSchedule = {
+  visible_from: scheduleTime,
+  visible_until: scheduleTime,
+  visibility_window: visibilityWindow.nullable().optional(),
+};
+
+const validScheduleRange = (item: { visible_from?: string | null; visible_until?: string | null }) =>
+  !item.visible_from || !item.visible_until || new Date(item.visible_until) > new Date(item.visible_from);
+
+const scheduleRangeMessage = {
+  message: 'Visible until must be after visible from',
+  path: ['visible_until'],
+};
+
+// Schedule columns of an imported row
+export const collectionItemScheduleSchema = z
+  .object(itemSchedule)
+  .refine(validScheduleRange, scheduleRangeMessage);
+
+export const createCollectionItemSchema = z
+  .object({
+    data: z.record(z.string(), z.unknown()),
+    sort_order: z.number().int().min(0).optional(),
+    is_visible: z.boolean().optional().default(true),
+    ...itemSchedule,
+  })
+  .refine(validScheduleRange, scheduleRangeMessage);
+
+export const updateCollectionItemSchema = z
+  .object({
+    data: z.record(z.string(), z.unknown()).optional(),
+    sort_order: z.number().int().min(0).optional(),
+    is_visible: z.boolean().optional(),
+    ...itemSchedule,
+  })
+  .refine(validScheduleRange, scheduleRangeMessage);
 
 export const reorderCollectionItemsSchema = z.object({
   item_ids: z.array(uuid).min(1),
 });
 
+export const collectionBulkActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.enum(['show', 'hide', 'delete', 'duplicate']),
+    item_ids: z.array(uuid).min(1).max(500),
+  }),
+  z.object({
+    action: z.literal('set_field'),
+    item_ids: z.array(uuid).min(1).max(500),
+    field: contentKey,
+    // Checked against the field's type; null or '' clears the field
+    value: z.unknown(),
+  }),
+]);
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const collectionImportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  // CSV text, JSON text, or the parsed JSON array
+  content: z.union([
+    z.string().min(1, 'The file is empty').max(2_000_000, 'The file is too large (2MB maximum)'),
+    z.array(z.unknown()).max(MAX_IMPORT_ROWS, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`),
+  ]),
+  // Column -> field key; null ignores the column. Unlisted columns are matched by key or label
+  mapping: z.record(z.string().max(200), contentKey.nullable()).optional(),
+  dry_run: z.boolean().optional().default(false),
+});
+
+export const collectionExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional().default('csv'),
+});
+
 // ============================================
 // IMAGE SCHEMAS
 // ============================================
@@ -274,6 +435,9 @@ export const createImageSlotSchema = z.object({
   description: z.string().max(1000).optional().nullable(),
   recommended_width: z.number().int().positive().optional().nullable(),
   recommended_height: z.number().int().positive().optional().nullable(),
+  min_width: z.number().int().positive().optional().nullable(),
+  min_height: z.number().int().positive().optional().nullable(),
+  enforce_dimensions: z.boolean().optional().default(false),
   max_file_size_kb: z.number().int().positive().max(10240).optional().default(2048),
   sort_order: z.number().int().min(0).optional().default(0),
 });
@@ -288,10 +452,52 @@ export const updateImageSlotSchema = z.object({
   alt_text: z.string().max(255).optional().nullable(),
   recommended_width: z.number().int().positive().optional().nullable(),
   recommended_height: z.number().int().positive().optional().nullable(),
+  min_width: z.number().int().positive().optional().nullable(),
+  min_height: z.number().int().positive().optional().nullable(),
+  enforce_dimensions: z.boolean().optional(),
   max_file_size_kb: z.number().int().positive().max(10240).optional(),
   sort_order: z.number().int().min(0).optional(),
 });
 
+// Positions within an image, as fractions of its width and height
+const fraction = z.number().min(0).max(1);
+
+export const updateImageSchema = z.object({
+  media_id: uuid.optional(),
+  alt_text: z.string().max(255).optional().nullable(),
+  focal_point: z.object({ x: fraction, y: fraction }).optional().nullable(),
+  crop: z
+    .object({
+      x: fraction,
+      y: fraction,
+      width: fraction.refine((value) => value > 0, 'Must be greater than 0'),
+      height: fraction.refine((value) => value > 0, 'Must be greater than 0'),
+    })
+    // Allow for rounding in the fractions
+    .refine((crop) => crop.x + crop.width <= 1.0001 && crop.y + crop.height <= 1.0001, {
+      message: 'Crop must lie within the image',
+    })
+    .optional()
+    .nullable(),
+});
+
+// ============================================
+// MEDIA LIBRARY SCHEMAS
+// ============================================
+
+export const updateMediaAssetSchema = z.object({
+  alt_text: z.string().max(255).optional().nullable(),
+});
+
+// ============================================
+// TRASH SCHEMAS
+// ============================================
+
+export const restoreFromTrashSchema = z.object({
+  type: z.enum(['text_field', 'image_slot', 'collection_item']),
+  id: uuid,
+});
+
 // ============================================
 // PERMISSIONS SCHEMAS
 // ============================================
@@ -305,6 +511,46 @@ export const updatePermissionsSchema = z.object({
   can_delete_collection_items: z.boolean().optional(),
   can_reorder_collection_items: z.boolean().optional(),
   can_publish: z.boolean().optional(),
+  can_request_publish: z.boolean().optional(),
+});
+
+// ============================================
+// WEBHOOK SCHEMAS
+// ============================================
+
+// Webhook receivers must be public HTTPS hosts (http://localhost in development)
+const webhookUrl = z
+  .string()
+  .url('Invalid URL format')
+  .max(500)
+  .superRefine((value, ctx) => {
+    const message = getWebhookUrlError(value);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
+const webhookEvents = z
+  .array(z.enum(WEBHOOK_EVENT_NAMES as [string, ...string[]]))
+  .max(WEBHOOK_EVENT_NAMES.length);
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrl,
+  description: z.string().max(255).optional().nullable(),
+  events: webhookEvents.optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: webhookUrl.optional(),
+  description: z.string().max(255).optional().nullable(),
+  events: webhookEvents.optional(),
+  is_active: z.boolean().optional(),
+});
+
+export const webhookDeliveryFilterSchema = z.object({
+  endpoint_id: uuid.optional(),
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
 });
 
 // ============================================
@@ -313,6 +559,68 @@ export const updatePermissionsSchema = z.object({
 
 export const publishSchema = z.object({
   notes: z.string().max(1000).optional(),
+  scheduled_at: z
+    .string()
+    .datetime({ offset: true, message: 'Invalid schedule date' })
+    .refine((value) => new Date(value).getTime() > Date.now(), 'Scheduled time must be in the future')
+    .optional(),
+});
+
+export const publishRequestSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+export const reviewPublishRequestSchema = z.object({
+  comment: z.string().max(1000).optional(),
+});
+
+export const publishRequestFilterSchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+});
+
+export const publishVersionSchema = z.object({
+  version: z.coerce.number().int().min(1, 'Invalid version number'),
+});
+
+export const publishDiffSchema = z.object({
+  from: z.coerce.number().int().min(1, 'Invalid version number').optional(),
+  to: z
+    .union([z.literal('draft'), z.coerce.number().int().min(1, 'Invalid version number')])
+    .optional()
+    .default('draft'),
+});
+
+// ============================================
+// PUBLIC API SCHEMAS
+// ============================================
+
+// Comma-separated list, e.g. "text.hero_headline,collections.menu_items"
+const commaList = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .max(2000)
+    .transform((val) => val.split(',').map((part) => part.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(pattern, message)).max(100))
+    .optional();
+
+// Item field names, optionally scoped to a collection ("menu_items.price")
+const publicFields = commaList(/^([a-z][a-z0-9_]*\.)?[a-z][a-z0-9_]*$/, 'Invalid field name');
+
+export const publicContentQuerySchema = z.object({
+  include: commaList(
+    /^(site|business|text|collections|images)(\.[a-z][a-z0-9_]*)?$/,
+    'Invalid include path'
+  ),
+  fields: publicFields,
+  // Reference fields to replace with the referenced items
+  expand: publicFields,
+});
+
+export const publicCollectionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+  fields: publicFields,
+  expand: publicFields,
 });
 
 // ============================================
@@ -350,7 +658,7 @@ export const securityLogFilterSchema = z.object({
  * Validate input against a schema, throwing ValidationError on failure
  */
 export function validateInput<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   data: unknown
 ): T {
   const result = schema.safeParse(data);
@@ -362,7 +670,7 @@ export function validateInput<T>(
       ? `${firstError.path.join('.')}: ${firstError.message}`.replace(/^:\s*/, '')
       : 'Invalid input';
 
-    throw new Error(message);
+    throw new ValidationError(message);
   }
 
   return result.data;
@@ -0,0 +1,417 @@
+// Image storage
+// Validates uploads and manages files in the public 'images' bucket
+
+import sharp from 'sharp';
+import { getAdminClient } from '@/lib/supabase/admin';
+import { getPublishedImageUrls } from '@/lib/db/activity';
+import { ValidationError } from '@/lib/utils/errors';
+import type {
+  Image,
+  ImageCrop,
+  ImagePlaceholder,
+  ImageVariant,
+  ImageVariantFormat,
+} from '@/lib/types/database';
+
+const BUCKET = 'images';
+
+// Allowed MIME types and their extensions
+const ALLOWED_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/png': ['png'],
+  'image/webp': ['webp'],
+  'image/gif': ['gif'],
+};
+
+export const DEFAULT_MAX_FILE_SIZE_KB = 2048;
+
+// Widths responsive variants are generated at; the largest never exceeds the original
+export const VARIANT_WIDTHS = [320, 640, 1280, 1920];
+const VARIANT_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+// GIFs may be animated, so they get no variants and are served at their own size
+const RESIZABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+// Longest side of the blurred placeholder shown while an image loads
+const PLACEHOLDER_SIZE = 16;
+
+// How far an upload's aspect ratio may be from the slot's recommended size
+const ASPECT_RATIO_TOLERANCE = 0.05;
+
+// ============================================
+// UPLOADS
+// ============================================
+
+/**
+ * Validate an uploaded image's type, size and extension
+ * Returns the file extension to store it under
+ */
+export function validateImageFile(
+  file: File,
+  maxFileSizeKb: number = DEFAULT_MAX_FILE_SIZE_KB
+): string {
+  // Validate file type
+  if (!ALLOWED_TYPES[file.type]) {
+    throw new ValidationError('Invalid file type. Allowed: JPEG, PNG, WebP, GIF');
+  }
+
+  // Validate file size
+  if (file.size > maxFileSizeKb * 1024) {
+    throw new ValidationError(`File too large. Maximum size: ${maxFileSizeKb}KB`);
+  }
+
+  // Validate extension matches MIME type
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (!ALLOWED_TYPES[file.type]?.includes(extension)) {
+    throw new ValidationError('File extension does not match file type');
+  }
+
+  return extension;
+}
+
+/**
+ * Detect an image's real type from its leading bytes
+ */
+function sniffImageType(data: Buffer): string | null {
+  if (data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1'))) return 'image/gif';
+  if (
+    data.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    data.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+}
+
+export interface ReadImage {
+  data: Buffer;
+  type: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Check that an upload really is the type it claims and read its pixel size
+ * EXIF, GPS and other metadata are stripped by re-encoding, with the EXIF
+ * rotation applied first. GIFs are re-encoded with every frame, which drops
+ * their comment and application (e.g. XMP) blocks.
+ */
+export async function readImage(input: Buffer, declaredType: string): Promise<ReadImage> {
+  if (sniffImageType(input) !== declaredType) {
+    throw new ValidationError('File contents do not match its type');
+  }
+
+  try {
+    // Output keeps the input's format; force: false only sets its quality
+    const data = RESIZABLE_TYPES.has(declaredType)
+      ? await sharp(input)
+          .rotate()
+          .jpeg({ quality: 90, force: false })
+          .webp({ quality: 90, force: false })
+          .toBuffer()
+      : await sharp(input, { animated: true }).gif().toBuffer();
+    return await readStoredImage(data);
+  } catch {
+    throw new ValidationError('The file could not be read as an image');
+  }
+}
+
+/**
+ * Read the type and pixel size of a file that was stored by readImage
+ * Leaves the bytes as they are, so rendering from them doesn't encode the
+ * image another time. Animated images report the size of one frame.
+ */
+export async function readStoredImage(data: Buffer): Promise<ReadImage> {
+  const type = sniffImageType(data);
+  if (!type) {
+    throw new Error('Stored file is not a supported image');
+  }
+
+  const { width, height, pageHeight } = await sharp(data).metadata();
+  return { data, type, width: width ?? 0, height: pageHeight ?? height ?? 0 };
+}
+
+/**
+ * Check an upload's pixel size against its image slot
+ * Below the minimum size or off the recommended aspect ratio is rejected on
+ * slots that enforce their dimensions and a warning otherwise; smaller than
+ * the recommended size is always just a warning. Returns the warnings.
+ */
+export function checkImageDimensions(
+  slot: Pick<
+    Image,
+    'recommended_width' | 'recommended_height' | 'min_width' | 'min_height' | 'enforce_dimensions'
+  >,
+  width: number,
+  height: number
+): string[] {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const size = `${width}x${height}`;
+
+  if ((slot.min_width && width < slot.min_width) || (slot.min_height && height < slot.min_height)) {
+    const minimum =
+      slot.min_width && slot.min_height
+        ? `${slot.min_width}x${slot.min_height}`
+        : slot.min_width
+          ? `${slot.min_width}px wide`
+          : `${slot.min_height}px tall`;
+    problems.push(`Image is ${size}, smaller than the minimum of ${minimum}`);
+  }
+
+  if (slot.recommended_width && slot.recommended_height) {
+    const recommended = `${slot.recommended_width}x${slot.recommended_height}`;
+    const expectedRatio = slot.recommended_width / slot.recommended_height;
+
+    if (Math.abs(width / height / expectedRatio - 1) > ASPECT_RATIO_TOLERANCE) {
+      problems.push(`Image is ${size}, a different shape than ${recommended} - it may be cropped`);
+    }
+
+    if (width < slot.recommended_width || height < slot.recommended_height) {
+      warnings.push(`Image is ${size}, smaller than the recommended ${recommended} - it may look blurry`);
+    }
+  }
+
+  if (slot.enforce_dimensions && problems.length > 0) {
+    throw new ValidationError(problems.join('. '));
+  }
+
+  return [...problems, ...warnings];
+}
+
+/**
+ * Upload a validated image into a folder under a generated filename
+ * Returns the public URL
+ */
+export async function uploadImage(
+  folder: string,
+  image: Pick<ReadImage, 'data' | 'type'>,
+  extension: string,
+  namePrefix?: string
+): Promise<string> {
+  // Generate safe filename
+  const timestamp = Date.now();
+  const random = crypto.randomUUID().slice(0, 8);
+  const filename = [namePrefix, timestamp, random].filter(Boolean).join('-');
+
+  const supabase = getAdminClient();
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(`${folder}/${filename}.${extension}`, image.data, {
+      contentType: image.type,
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError);
+    throw new Error('Failed to upload image');
+  }
+
+  const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(uploadData.path);
+
+  return urlData.publicUrl;
+}
+
+// ============================================
+// RESPONSIVE VARIANTS
+// ============================================
+
+export interface RenderedVariant {
+  width: number;
+  format: ImageVariantFormat;
+  data: Buffer;
+}
+
+/**
+ * Pixel area of an image a crop covers, or the whole image without one
+ */
+export function cropRegion(
+  width: number,
+  height: number,
+  crop: ImageCrop | null | undefined
+): { left: number; top: number; width: number; height: number } {
+  if (!crop) {
+    return { left: 0, top: 0, width, height };
+  }
+
+  const left = Math.min(Math.round(crop.x * width), width - 1);
+  const top = Math.min(Math.round(crop.y * height), height - 1);
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(Math.round(crop.width * width), width - left)),
+    height: Math.max(1, Math.min(Math.round(crop.height * height), height - top)),
+  };
+}
+
+/**
+ * Render the resized AVIF and WebP variants of an image read by readImage,
+ * from the cropped area if there's a crop
+ */
+export async function renderImageVariants(
+  image: ReadImage,
+  crop: ImageCrop | null = null
+): Promise<RenderedVariant[]> {
+  if (!RESIZABLE_TYPES.has(image.type) || image.width === 0) {
+    return [];
+  }
+
+  const region = cropRegion(image.width, image.height, crop);
+  const largest = Math.min(region.width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]!);
+  const widths = [...new Set([...VARIANT_WIDTHS.filter((w) => w < largest), largest])];
+
+  const variants: RenderedVariant[] = [];
+  for (const width of widths) {
+    for (const format of VARIANT_FORMATS) {
+      const pipeline = sharp(image.data);
+      if (crop) pipeline.extract(region);
+
+      const data = await pipeline
+        .resize({ width, withoutEnlargement: true })
+        .toFormat(format)
+        .toBuffer();
+      variants.push({ width, format, data });
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Store rendered variants next to the original upload, as `<name>-<width>w.<format>`
+ * A tag (`<name>-<tag>-<width>w.<format>`) keeps re-rendered variants from
+ * reusing URLs that caches may still hold
+ */
+export async function uploadImageVariants(
+  originalUrl: string,
+  variants: RenderedVariant[],
+  tag?: string
+): Promise<ImageVariant[]> {
+  const originalPath = imageStoragePath(originalUrl);
+  if (!originalPath || variants.length === 0) return [];
+
+  const basePath = [originalPath.replace(/\.[^./]+$/, ''), tag].filter(Boolean).join('-');
+  const bucket = getAdminClient().storage.from(BUCKET);
+  const stored: ImageVariant[] = [];
+
+  for (const variant of variants) {
+    const path = `${basePath}-${variant.width}w.${variant.format}`;
+    const { error } = await bucket.upload(path, variant.data, {
+      contentType: `image/${variant.format}`,
+      upsert: true,
+    });
+
+    if (error) {
+      console.error('Upload error:', error);
+      throw new Error('Failed to upload image variants');
+    }
+
+    stored.push({
+      url: bucket.getPublicUrl(path).data.publicUrl,
+      width: variant.width,
+      format: variant.format,
+    });
+  }
+
+  return stored;
+}
+
+/**
+ * Download an upload from the bucket as stored, e.g. to render new variants of it
+ */
+export async function downloadImage(url: string): Promise<ReadImage> {
+  const path = imageStoragePath(url);
+  const { data, error } = path
+    ? await getAdminClient().storage.from(BUCKET).download(path)
+    : { data: null, error: new Error('Not a stored image') };
+
+  if (error || !data) {
+    console.error('Download error:', error);
+    throw new Error('Failed to download image');
+  }
+
+  return readStoredImage(Buffer.from(await data.arrayBuffer()));
+}
+
+/**
+ * Storage paths of an upload and its variants (of a slot or library asset)
+ */
+export function imageSlotFiles(image: Pick<Image, 'url' | 'variants'>): string[] {
+  return [image.url, ...(image.variants || []).map((variant) => variant.url)]
+    .map(imageStoragePath)
+    .filter((path): path is string => path !== null);
+}
+
+// ============================================
+// PLACEHOLDERS
+// ============================================
+
+/**
+ * Render the placeholder of an image read by readImage: a base64 WebP of at
+ * most 16px across, meant to be shown blurred, and its dominant color
+ * Both are of the cropped area if there's a crop. GIFs use their first frame.
+ */
+export async function renderImagePlaceholder(
+  image: ReadImage,
+  crop: ImageCrop | null = null
+): Promise<ImagePlaceholder | null> {
+  if (image.width === 0) {
+    return null;
+  }
+
+  const pipeline = sharp(image.data);
+  if (crop) pipeline.extract(cropRegion(image.width, image.height, crop));
+
+  const data = await pipeline
+    .resize({ width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE, fit: 'inside' })
+    .webp({ quality: 50 })
+    .toBuffer();
+  const { dominant } = await sharp(data).stats();
+  const hex = (value: number) => value.toString(16).padStart(2, '0');
+
+  return {
+    lqip: `data:image/webp;base64,${data.toString('base64')}`,
+    color: `#${hex(dominant.r)}${hex(dominant.g)}${hex(dominant.b)}`,
+  };
+}
+
+// ============================================
+// CLEANUP
+// ============================================
+
+/**
+ * Storage path of a public image URL, or null for URLs outside the bucket
+ */
+export function imageStoragePath(url: string | null | undefined): string | null {
+  const marker = `/object/public/${BUCKET}/`;
+  const index = url?.indexOf(marker) ?? -1;
+  return url && index !== -1 ? decodeURIComponent(url.slice(index + marker.length)) : null;
+}
+
+/**
+ * Remove a site's files from storage - the only way files are ever removed
+ * Files a publish snapshot points at are kept, as they belong to that
+ * published version (see lib/content/public.ts). Failures are logged and
+ * ignored, and nothing is removed if the snapshots can't be checked - a stray
+ * file is better than a failed request or a broken live site.
+ */
+export async function removeImages(siteId: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  try {
+    const published = new Set(
+      (await getPublishedImageUrls(siteId)).map(({ url }) => imageStoragePath(url))
+    );
+    const removable = paths.filter((path) => !published.has(path));
+    if (removable.length === 0) return;
+
+    const { error } = await getAdminClient().storage.from(BUCKET).remove(removable);
+    if (error) console.error('Failed to remove images:', error);
+  } catch (error) {
+    console.error('Failed to remove images:', error);
+  }
+}
@@ -4,6 +4,11 @@ import type {
   Site,
   Client,
   CollectionFieldSchema,
+  VisibilityWindow,
+  ImageVariantFormat,
+  ImageFocalPoint,
+  ImageCrop,
+  ImagePlaceholder,
 } from './database';
 
 // ============================================
@@ -77,6 +82,7 @@ export interface CreateSiteRequest {
   replit_url?: string | null;
   custom_domain?: string | null;
   client_id?: string | null;
+  timezone?: string;
 }
 
 export interface UpdateSiteRequest {
@@ -86,6 +92,7 @@ export interface UpdateSiteRequest {
   custom_domain?: string | null;
   client_id?: string | null;
   status?: 'draft' | 'published' | 'archived';
+  timezone?: string;
 }
 
 export interface SiteWithClient extends Site {
@@ -159,6 +166,9 @@ export interface CreateImageSlotRequest {
   description?: string | null;
   recommended_width?: number | null;
   recommended_height?: number | null;
+  min_width?: number | null;
+  min_height?: number | null;
+  enforce_dimensions?: boolean;
   max_file_size_kb?: number;
   sort_order?: number;
 }
@@ -170,10 +180,26 @@ export interface UpdateImageSlotRequest {
   alt_text?: string | null;
   recommended_width?: number | null;
   recommended_height?: number | null;
+  min_width?: number | null;
+  min_height?: number | null;
+  enforce_dimensions?: boolean;
   max_file_size_kb?: number;
   sort_order?: number;
 }
 
+// Client edits to an uploaded image
+export interface UpdateImageRequest {
+  media_id?: string; // switch to an asset from the media library
+  alt_text?: string | null;
+  focal_point?: ImageFocalPoint | null;
+  crop?: ImageCrop | null;
+}
+
+// Media library
+export interface UpdateMediaAssetRequest {
+  alt_text?: string | null;
+}
+
 // Permissions
 export interface UpdatePermissionsRequest {
   can_edit_business_info?: boolean;
@@ -184,6 +210,22 @@ export interface UpdatePermissionsRequest {
   can_delete_collection_items?: boolean;
   can_reorder_collection_items?: boolean;
   can_publish?: boolean;
+  can_request_publish?: boolean;
+}
+
+// Webhooks
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  description?: string | null;
+  events?: string[];
+  is_active?: boolean;
+}
+
+export interface UpdateWebhookEndpointRequest {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  is_active?: boolean;
 }
 
 // ============================================
@@ -211,12 +253,18 @@ export interface CreateCollectionItemRequest {
   data: Record<string, unknown>;
   sort_order?: number;
   is_visible?: boolean;
+  visible_from?: string | null;
+  visible_until?: string | null;
+  visibility_window?: VisibilityWindow | null;
 }
 
 export interface UpdateCollectionItemRequest {
   data?: Record<string, unknown>;
   sort_order?: number;
   is_visible?: boolean;
+  visible_from?: string | null;
+  visible_until?: string | null;
+  visibility_window?: VisibilityWindow | null;
 }
 
 export interface ReorderCollectionItemsRequest {
@@ -225,6 +273,7 @@ export interface ReorderCollectionItemsRequest {
 
 export interface PublishRequest {
   notes?: string;
+  scheduled_at?: string;
 }
 
 // ============================================
@@ -253,9 +302,52 @@ export interface PublicSiteContent {
   } | null;
   text: Record<string, string>;
   collections: Record<string, Array<{ id: string } & Record<string, unknown>>>;
-  images: Record<string, { url: string | null; alt: string | null }>;
+  images: Record<string, PublicSiteImage>;
+}
+
+// Site image in the public payload
+// srcset holds "<url> <width>w" candidates per format, null for uploads without variants.
+// Size, srcset, focal point and placeholder are of the cropped image; url and crop of the original.
+// placeholder is null for uploads from before placeholders existed.
+export interface PublicSiteImage {
+  url: string | null;
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+  srcset: Record<ImageVariantFormat, string> | null;
+  focal_point: ImageFocalPoint | null;
+  crop: ImageCrop | null;
+  placeholder: ImagePlaceholder | null;
+}
+
+// Image field value in the public payload
+export interface PublicImageValue {
+  url: string;
+  alt: string | null;
+}
+
+// Price field value in the public payload
+export interface PublicPriceValue {
+  amount: number; // minor units, e.g. cents
+  currency: string;
+  formatted: string; // e.g. "$12.50"
 }
 
+export interface PublicTextContent {
+  key: string;
+  value: string;
+}
+
+export interface PublicCollectionContent {
+  key: string;
+  items: PublicSiteContent['collections'][string];
+  total: number;
+  limit: number | null;
+  offset: number;
+}
+
+export type PublicImageContent = { key: string } & PublicSiteContent['images'][string];
+
 // ============================================
 // ACTIVITY & LOGS TYPES
 // ============================================
@@ -41,6 +41,8 @@ export interface Site {
   client_id: string | null;
   created_by: string | null;
   status: 'draft' | 'published' | 'archived';
+  // IANA timezone for item visibility schedules, e.g. "Europe/Berlin"
+  timezone: string;
   api_key: string;
   api_key_created_at: string;
   published_at: string | null;
@@ -76,6 +78,7 @@ export interface TextContent {
   max_length: number | null;
   placeholder: string | null;
   sort_order: number;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -97,12 +100,80 @@ export interface Collection {
 }
 
 export interface CollectionFieldSchema {
-  type: 'text' | 'textarea' | 'number' | 'select' | 'image' | 'boolean';
+  type:
+    | 'text'
+    | 'textarea'
+    | 'number'
+    | 'select'
+    | 'image'
+    | 'boolean'
+    | 'date'
+    | 'datetime'
+    | 'url'
+    | 'email'
+    | 'phone'
+    | 'price'
+    | 'color'
+    | 'rich_text'
+    | 'multi_select'
+    | 'list'
+    | 'group'
+    | 'reference';
   label: string;
   required?: boolean;
   max_length?: number;
   options?: string[];
   placeholder?: string;
+  // ISO 4217 code for price fields (defaults to USD)
+  currency?: string;
+  // Type of each entry in a list field (defaults to text)
+  item_type?: CollectionListItemType;
+  // Sub-schema of a group field
+  fields?: Record<string, CollectionFieldSchema>;
+  // Group fields hold an array of entries instead of a single object
+  repeatable?: boolean;
+  // Entry limits for multi_select, list, repeatable group and multiple reference fields
+  min_items?: number;
+  max_items?: number;
+  // Reference fields: key of the referenced collection on the same site
+  collection?: string;
+  // Reference fields hold an array of item ids instead of a single id
+  multiple?: boolean;
+  // What deleting a referenced item does: fail, or delete the referencing items too
+  on_delete?: 'block' | 'cascade';
+  // Upload limit for image fields (defaults to 2048)
+  max_file_size_kb?: number;
+}
+
+// Field types a list field can repeat
+export type CollectionListItemType =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'color'
+  | 'image';
+
+// Stored value of an image field
+export interface ImageFieldValue {
+  url: string;
+  alt?: string;
+}
+
+// Stored value of a price field
+export interface PriceValue {
+  amount: number; // minor units, e.g. cents
+  currency: string;
+}
+
+// Recurring weekly window an item is visible in, in the site's timezone
+// days: 0 = Sunday ... 6 = Saturday; start/end: "HH:MM", end before start runs past midnight
+export interface VisibilityWindow {
+  days: number[];
+  start: string;
+  end: string;
 }
 
 export interface CollectionItem {
@@ -111,10 +182,49 @@ export interface CollectionItem {
   data: Record<string, unknown>;
   sort_order: number;
   is_visible: boolean;
+  visible_from: string | null;
+  visible_until: string | null;
+  visibility_window: VisibilityWindow | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// A collection item in the trash, with the collection it belongs to
+export interface DeletedCollectionItem extends CollectionItem {
+  collection_key: string;
+  collection_label: string;
+}
+
+export type ImageVariantFormat = 'avif' | 'webp';
+
+// Resized copy of an uploaded image, stored next to the original
+export interface ImageVariant {
+  url: string;
+  width: number;
+  format: ImageVariantFormat;
+}
+
+// Point of an image to keep in view, as fractions of its width and height
+export interface ImageFocalPoint {
+  x: number;
+  y: number;
+}
+
+// Area of an image to show, as fractions of its width and height
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Stand-in shown while an image loads
+export interface ImagePlaceholder {
+  lqip: string; // data URL of a tiny WebP, shown blurred
+  color: string; // dominant color, e.g. "#a0522d"
+}
+
 export interface Image {
   id: string;
   site_id: string;
@@ -123,14 +233,57 @@ export interface Image {
   description: string | null;
   url: string | null;
   alt_text: string | null;
+  width: number | null; // pixel size of the upload
+  height: number | null;
+  variants: ImageVariant[];
+  focal_point: ImageFocalPoint | null;
+  crop: ImageCrop | null; // applied to the variants, not the original
+  placeholder: ImagePlaceholder | null; // of the cropped area
   recommended_width: number | null;
   recommended_height: number | null;
+  min_width: number | null;
+  min_height: number | null;
+  enforce_dimensions: boolean; // reject uploads that are too small or the wrong shape
   max_file_size_kb: number;
   sort_order: number;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// An uploaded image in a site's media library
+export interface MediaAsset {
+  id: string;
+  site_id: string;
+  url: string;
+  filename: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  variants: ImageVariant[];
+  placeholder: ImagePlaceholder | null;
+  alt_text: string | null; // suggested when the asset is picked
+  uploaded_by: string | null;
+  uploader_type: UserType | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MediaUsageType = 'image_slot' | 'business_logo' | 'collection_item' | 'published_site';
+
+// Something that points at a media asset's URL
+export interface MediaUsage {
+  type: MediaUsageType;
+  label: string;
+  in_trash: boolean;
+}
+
+// A media asset with everything that uses it
+export interface MediaAssetWithUsage extends MediaAsset {
+  usage: MediaUsage[];
+}
+
 export interface SitePermissions {
   id: string;
   site_id: string;
@@ -142,6 +295,7 @@ export interface SitePermissions {
   can_delete_collection_items: boolean;
   can_reorder_collection_items: boolean;
   can_publish: boolean;
+  can_request_publish: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -179,11 +333,118 @@ export interface PublishHistory {
   published_by: string | null;
   publisher_type: 'client' | 'admin' | null;
   version_number: number;
-  content_snapshot: Record<string, unknown>;
+  content_snapshot: ContentSnapshot;
   notes: string | null;
   created_at: string;
 }
 
+// Frozen copy of a site's content, stored on each publish_history row
+export interface ContentSnapshot {
+  business_info: BusinessInfo | null;
+  text_content: TextContent[];
+  collections: Array<Collection & { items: CollectionItem[] }>;
+  images: Image[];
+  snapshot_at: string;
+}
+
+export type ScheduledPublishStatus = 'pending' | 'processing' | 'published' | 'cancelled' | 'failed';
+
+export interface ScheduledPublish {
+  id: string;
+  site_id: string;
+  scheduled_by: string;
+  scheduler_type: 'client' | 'admin';
+  scheduled_at: string;
+  notes: string | null;
+  status: ScheduledPublishStatus;
+  claimed_until: string | null; // lease of a 'processing' run
+  publish_history_id: string | null;
+  error_message: string | null;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PublishApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PublishApprovalRequest {
+  id: string;
+  site_id: string;
+  requested_by: string;
+  notes: string | null;
+  status: PublishApprovalStatus;
+  reviewed_by: string | null;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  publish_history_id: string | null;
+  content_snapshot: ContentSnapshot | null; // the draft as submitted
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  site_id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[]; // Empty means all events
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  site_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  replay_of: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CollectionFieldType = CollectionFieldSchema['type'];
+
+// One detected difference between two item schemas
+export type CollectionSchemaChange =
+  | { type: 'add_field'; field: string; required: boolean }
+  | { type: 'remove_field'; field: string }
+  | { type: 'rename_field'; from: string; to: string }
+  | { type: 'change_type'; field: string; from: CollectionFieldType; to: CollectionFieldType }
+  | { type: 'make_required'; field: string }
+  | { type: 'restrict_options'; field: string; removed: string[] }
+  | { type: 'shorten_max_length'; field: string; max_length: number }
+  | { type: 'change_group_fields'; field: string };
+
+export type CollectionSchemaMigrationStatus = 'applied' | 'undone';
+
+export interface CollectionSchemaMigration {
+  id: string;
+  collection_id: string;
+  site_id: string;
+  performed_by: string | null;
+  old_schema: Record<string, CollectionFieldSchema>;
+  new_schema: Record<string, CollectionFieldSchema>;
+  changes: CollectionSchemaChange[];
+  items: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
+  affected_items: number;
+  status: CollectionSchemaMigrationStatus;
+  undone_by: string | null;
+  undone_at: string | null;
+  created_at: string;
+}
+
 export interface RefreshToken {
   id: string;
   user_id: string;
@@ -0,0 +1,77 @@
+// CSV reading and writing (RFC 4180)
+// Quoted fields may contain commas, quotes ("") and line breaks
+//
+// SECURITY: Spreadsheets run cells starting with =, +, -, @, tab or CR as
+// formulas, so those are written with a leading ' and read back without it.
+// Values that already start with ' before one of those characters get
+// another, so every value round-trips unchanged.
+
+// A cell a spreadsheet would treat as a formula, after any escaping quotes
+const FORMULA_CELL = /^'*[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles a UTF-8 BOM, CRLF line endings and a missing final newline.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  // Drop the quote added on export
+  const pushCell = () => {
+    row.push(FORMULA_CELL.test(cell) && cell.startsWith("'") ? cell.slice(1) : cell);
+    cell = '';
+  };
+
+  const endRow = () => {
+    pushCell();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      pushCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+// Neutralise formulas, then quote a cell if it contains a delimiter, quote or line break
+function formatCell(value: string): string {
+  const cell = FORMULA_CELL.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Format rows of cells as CSV text with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -34,7 +34,10 @@ export class NotFoundError extends ApiError {
 }
 
 export class ValidationError extends ApiError {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public fieldErrors?: Record<string, string>
+  ) {
     super(400, message);
     this.name = 'ValidationError';
   }
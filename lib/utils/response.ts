@@ -2,12 +2,13 @@
 // SECURITY: Never expose internal error details in production
 
 import { NextResponse } from 'next/server';
-import { isApiError, InternalError } from './errors';
+import { isApiError, InternalError, ValidationError } from './errors';
 
 export interface ApiResponseData<T = unknown> {
   data?: T;
   error?: string;
   message?: string;
+  fields?: Record<string, string>;
 }
 
 // Success response
@@ -27,6 +28,21 @@ export function messageResponse(
   return NextResponse.json({ message }, { status });
 }
 
+// File download response (exports)
+export function downloadResponse(
+  body: string,
+  filename: string,
+  contentType: string
+): NextResponse {
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': `${contentType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
 // Error response
 export function errorResponse(
   error: unknown,
@@ -58,8 +74,11 @@ export function errorResponse(
       headers['Retry-After'] = '60';
     }
 
+    // Per-field messages let forms highlight the invalid inputs
+    const fields = error instanceof ValidationError ? error.fieldErrors : undefined;
+
     return NextResponse.json(
-      { error: error.userMessage },
+      { error: error.userMessage, ...(fields && { fields }) },
       { status: error.statusCode, headers }
     );
   }
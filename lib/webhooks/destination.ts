@@ -0,0 +1,128 @@
+// Webhook destination checks
+// SECURITY: Deliveries are server-side requests to admin-supplied URLs, so
+// they may only reach public HTTPS hosts - never loopback, private or
+// link-local addresses (cloud metadata, internal services). Outside
+// production, http://localhost is allowed for testing receivers locally.
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+
+  if (version === 4) {
+    const [a = 0, b = 0] = address.split('.').map(Number);
+    return (
+      a === 0 || // "this" network
+      a === 10 || // private
+      a === 127 || // loopback
+      (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local, cloud metadata
+      (a === 172 && b >= 16 && b <= 31) || // private
+      (a === 192 && b === 168) || // private
+      (a === 198 && (b === 18 || b === 19)) || // benchmarking
+      a >= 224 // multicast and reserved
+    );
+  }
+
+  if (version === 6) {
+    const normalized = address.toLowerCase();
+
+    // IPv4-mapped addresses (::ffff:10.0.0.1, which URLs write as ::ffff:a00:1)
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) {
+      return isPrivateAddress(mapped[1]!);
+    }
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1]!, 16), parseInt(mappedHex[2]!, 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return (
+      normalized === '::' ||
+      normalized === '::1' ||
+      /^f[cd]/.test(normalized) || // unique local
+      /^fe[89ab]/.test(normalized) || // link-local
+      normalized.startsWith('ff') // multicast
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Whether a URL is the local development receiver
+ */
+function isLocalDevelopmentUrl(url: URL): boolean {
+  return url.hostname === 'localhost' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Check a webhook URL as entered
+ * Returns why it can't be used, or null if it can. Hostnames are checked
+ * again when delivering, once they resolve.
+ */
+export function getWebhookUrlError(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid URL format';
+  }
+
+  if (isLocalDevelopmentUrl(url)) {
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? null
+      : 'Webhook URL must use HTTPS';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use HTTPS';
+  }
+
+  // IPv6 hosts are bracketed in URLs
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+  if (
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    hostname.endsWith('.internal') ||
+    isPrivateAddress(hostname)
+  ) {
+    return 'Webhook URL must point at a public host';
+  }
+
+  return null;
+}
+
+/**
+ * Check a webhook URL right before delivering to it
+ * Throws if the URL is no longer allowed or its host resolves to a private
+ * address
+ */
+export async function assertDeliverableWebhookUrl(value: string): Promise<void> {
+  const urlError = getWebhookUrlError(value);
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const url = new URL(value);
+  if (isLocalDevelopmentUrl(url)) {
+    return;
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true });
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error('Webhook URL resolves to a private address');
+  }
+}
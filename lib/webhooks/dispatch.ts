@@ -0,0 +1,217 @@
+// Webhook dispatch
+// Queues signed deliveries for subscribed endpoints and retries failures with backoff
+
+import { randomUUID } from 'crypto';
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/types/database';
+import {
+  getSubscribedWebhookEndpoints,
+  getWebhookEndpoints,
+  createWebhookDeliveries,
+  claimDueWebhookDeliveries,
+  updateWebhookDelivery,
+} from '@/lib/db/webhooks';
+import { signWebhookPayload, WEBHOOK_HEADERS } from './signature';
+import { assertDeliverableWebhookUrl } from './destination';
+import type { WebhookEvent } from './events';
+
+// Retry policy
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 30; // seconds, doubled after each failed attempt
+const DELIVERY_TIMEOUT = 10 * 1000; // 10 seconds
+const CLAIM_LEASE = 5 * 60; // 5 minutes in seconds
+
+// Stored response bodies are truncated to keep the log small
+const MAX_RESPONSE_BODY = 1000;
+
+/**
+ * Seconds to wait before the next attempt
+ */
+function getRetryDelay(attemptCount: number): number {
+  return BASE_RETRY_DELAY * 2 ** (attemptCount - 1);
+}
+
+/**
+ * Send one delivery and record the outcome
+ */
+export async function deliverWebhook(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attemptCount = delivery.attempt_count + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    // Endpoints saved before the destination rules, or hosts whose DNS changed
+    await assertDeliverableWebhookUrl(endpoint.url);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SiteManager-Webhooks/1.0',
+        [WEBHOOK_HEADERS.id]: delivery.id,
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          endpoint.secret,
+          delivery.id,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+    if (!response.ok) {
+      errorMessage = `Receiver responded with ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Delivery failed';
+  }
+
+  const now = new Date();
+  const succeeded = errorMessage === null;
+  const exhausted = !succeeded && attemptCount >= MAX_ATTEMPTS;
+
+  return updateWebhookDelivery(delivery.id, {
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    attempt_count: attemptCount,
+    last_attempt_at: now.toISOString(),
+    next_attempt_at: new Date(
+      now.getTime() + (succeeded || exhausted ? 0 : getRetryDelay(attemptCount) * 1000)
+    ).toISOString(),
+    response_status: responseStatus,
+    response_body: responseBody,
+    error_message: errorMessage,
+  });
+}
+
+/**
+ * Queue an event for every subscribed endpoint of a site and start delivering it
+ * Never throws - webhook failures shouldn't break the request that caused them
+ */
+export async function triggerWebhookEvent(
+  siteId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await getSubscribedWebhookEndpoints(siteId, event);
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = {
+      id: randomUUID(),
+      event,
+      site_id: siteId,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    // Leased while the first attempt below is in flight; the queue runner
+    // picks them up if this process stops before it finishes
+    const deliveries = await createWebhookDeliveries(
+      endpoints.map((endpoint) => ({
+        endpoint_id: endpoint.id,
+        site_id: siteId,
+        event,
+        payload,
+        next_attempt_at: new Date(Date.now() + CLAIM_LEASE * 1000).toISOString(),
+      }))
+    );
+
+    const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+
+    // Deliver in the background so slow receivers don't hold up the request
+    void Promise.allSettled(
+      deliveries.map((delivery) => deliverWebhook(delivery, endpointsById.get(delivery.endpoint_id)!))
+    );
+  } catch (error) {
+    console.error('Failed to trigger webhook:', event, error);
+  }
+}
+
+/**
+ * Queue a copy of a past delivery and send it now
+ * The copy gets a new delivery ID so receivers that dedupe by ID accept it
+ */
+export async function replayWebhookDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint
+): Promise<WebhookDelivery> {
+  const [replay] = await createWebhookDeliveries([
+    {
+      endpoint_id: endpoint.id,
+      site_id: delivery.site_id,
+      event: delivery.event,
+      payload: delivery.payload,
+      next_attempt_at: new Date(Date.now() + CLAIM_LEASE * 1000).toISOString(),
+      replay_of: delivery.id,
+    },
+  ]);
+
+  return deliverWebhook(replay!, endpoint);
+}
+
+export interface WebhookQueueRunResult {
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Retry every pending delivery that is due
+ */
+export async function processWebhookQueue(
+  now: Date = new Date()
+): Promise<WebhookQueueRunResult> {
+  const due = await claimDueWebhookDeliveries(CLAIM_LEASE, now);
+  const result: WebhookQueueRunResult = { succeeded: 0, retrying: 0, failed: 0 };
+
+  // Load endpoints once per site
+  const endpointsBySite = new Map<string, Map<string, WebhookEndpoint>>();
+
+  for (const delivery of due) {
+    if (!endpointsBySite.has(delivery.site_id)) {
+      const endpoints = await getWebhookEndpoints(delivery.site_id);
+      endpointsBySite.set(
+        delivery.site_id,
+        new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]))
+      );
+    }
+
+    const endpoint = endpointsBySite.get(delivery.site_id)!.get(delivery.endpoint_id);
+
+    // Endpoint was disabled since the delivery was queued
+    if (!endpoint || !endpoint.is_active) {
+      await updateWebhookDelivery(delivery.id, {
+        status: 'failed',
+        error_message: 'Webhook endpoint is disabled',
+      });
+      result.failed++;
+      continue;
+    }
+
+    const updated = await deliverWebhook(delivery, endpoint);
+    if (updated.status === 'succeeded') {
+      result.succeeded++;
+    } else if (updated.status === 'failed') {
+      result.failed++;
+    } else {
+      result.retrying++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,18 @@
+// Webhook event catalog
+// Shared by the API and the admin UI - keep free of server-only imports
+
+export const WEBHOOK_EVENTS = {
+  'site.published': 'A new version of the site was published',
+  'collection_item.created': 'A collection item was added',
+  'collection_item.updated': 'A collection item was edited',
+  'collection_item.deleted': 'A collection item was deleted',
+  'collection.reordered': 'Collection items were reordered',
+  'text_content.updated': 'A text field was edited',
+  'business_info.updated': 'Business info was edited',
+  'image.updated': 'An image was uploaded or replaced',
+  'api_key.regenerated': "The site's API key was regenerated",
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_EVENT_NAMES = Object.keys(WEBHOOK_EVENTS) as WebhookEvent[];
@@ -0,0 +1,36 @@
+// Webhook payload signing
+// SECURITY: Receivers verify these headers to authenticate deliveries
+
+import { createHmac, randomBytes } from 'crypto';
+
+export const WEBHOOK_HEADERS = {
+  id: 'x-webhook-id',
+  event: 'x-webhook-event',
+  timestamp: 'x-webhook-timestamp',
+  signature: 'x-webhook-signature',
+} as const;
+
+/**
+ * Generate a new endpoint signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a delivery
+ * The signed string binds the delivery ID and timestamp to the body so a
+ * captured request can't be replayed with a fresh timestamp
+ */
+export function signWebhookPayload(
+  secret: string,
+  deliveryId: string,
+  timestamp: number,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${deliveryId}.${timestamp}.${body}`)
+    .digest('hex');
+
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,64 @@
+// Image placeholder backfill
+// Renders the blurred placeholder and dominant color of media library assets
+// and image slot uploads made before placeholders existed, then exits.
+// Slots get theirs from their cropped area.
+// Run with: npm run images:placeholders
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import type { ImageCrop } from '@/lib/types/database';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after the env is loaded - the db modules create their client on import
+  const { getImagesWithoutPlaceholder, updateImagePlaceholder } = await import('@/lib/db/content');
+  const { getMediaAssetsWithoutPlaceholder, updateMediaAssetPlaceholder } = await import(
+    '@/lib/db/media'
+  );
+  const { readImage, renderImagePlaceholder } = await import('@/lib/storage/images');
+
+  const render = async (url: string, crop: ImageCrop | null) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with ${response.status}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const image = await readImage(Buffer.from(await response.arrayBuffer()), contentType);
+    return renderImagePlaceholder(image, crop);
+  };
+
+  const assets = await getMediaAssetsWithoutPlaceholder();
+  const images = await getImagesWithoutPlaceholder();
+  let failed = 0;
+
+  for (const asset of assets) {
+    try {
+      const placeholder = await render(asset.url, null);
+      if (placeholder) await updateMediaAssetPlaceholder(asset.id, placeholder);
+    } catch (error) {
+      failed++;
+      console.error(`Media asset ${asset.id} failed:`, error);
+    }
+  }
+
+  for (const image of images) {
+    try {
+      const placeholder = await render(image.url!, image.crop);
+      if (placeholder) await updateImagePlaceholder(image.id, placeholder);
+    } catch (error) {
+      failed++;
+      console.error(`Image ${image.image_key} (${image.id}) failed:`, error);
+    }
+  }
+
+  const total = assets.length + images.length;
+  console.log(`Processed ${total - failed} of ${total} images`);
+}
+
+main().catch((error) => {
+  console.error('Placeholder backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+// Responsive variant backfill
+// Records the pixel size of image slot uploads made before variants existed
+// and generates their AVIF and WebP variants, then exits
+// Run with: npm run images:variants
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after the env is loaded - the db modules create their client on import
+  const { getUnprocessedImages, updateImageVariants } = await import('@/lib/db/content');
+  const { readImage, renderImageVariants, uploadImageVariants } = await import(
+    '@/lib/storage/images'
+  );
+
+  const images = await getUnprocessedImages();
+  let failed = 0;
+
+  for (const image of images) {
+    try {
+      const response = await fetch(image.url!);
+      if (!response.ok) {
+        throw new Error(`Download failed with ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const read = await readImage(Buffer.from(await response.arrayBuffer()), contentType);
+      const variants = await uploadImageVariants(image.url!, await renderImageVariants(read));
+
+      await updateImageVariants(image.id, { width: read.width, height: read.height, variants });
+    } catch (error) {
+      failed++;
+      console.error(`Image ${image.image_key} (${image.id}) failed:`, error);
+    }
+  }
+
+  console.log(`Processed ${images.length - failed} of ${images.length} images`);
+}
+
+main().catch((error) => {
+  console.error('Variant backfill failed:', error);
+  process.exit(1);
+});
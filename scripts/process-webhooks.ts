@@ -0,0 +1,22 @@
+// Webhook queue runner
+// Retries every webhook delivery that is due, then exits
+// Run with: npm run webhooks:process (e.g. every minute from cron)
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after the env is loaded - the db modules create their client on import
+  const { processWebhookQueue } = await import('@/lib/webhooks/dispatch');
+
+  const { succeeded, retrying, failed } = await processWebhookQueue();
+  console.log(`Webhook deliveries: ${succeeded} succeeded, ${retrying} retrying, ${failed} failed`);
+}
+
+main().catch((error) => {
+  console.error('Webhook queue run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,26 @@
+// Scheduled publish runner
+// Publishes every scheduled publish that is due, then exits
+// Run with: npm run publish:scheduled (e.g. every minute from cron)
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after the env is loaded - the db modules create their client on import
+  const { runDueScheduledPublishes } = await import('@/lib/content/publish');
+
+  const { published, failed } = await runDueScheduledPublishes();
+  console.log(`Scheduled publishes: ${published} published, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('Scheduled publish run failed:', error);
+  process.exit(1);
+});
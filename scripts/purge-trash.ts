@@ -0,0 +1,27 @@
+// Trash retention runner
+// Permanently removes everything that has been in the trash longer than
+// TRASH_RETENTION_DAYS (default 30), then exits. Uploaded images stay in the
+// media library; only the slots' crop variants are deleted.
+// Run with: npm run trash:purge (e.g. daily from cron)
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  // Imported after the env is loaded - the db modules create their client on import
+  const { purgeTrash, TRASH_RETENTION_DAYS } = await import('@/lib/content/trash');
+
+  const purged = await purgeTrash();
+  console.log(
+    `Trash older than ${TRASH_RETENTION_DAYS} days: ${purged.text_fields} text fields, ` +
+      `${purged.image_slots} image slots, ${purged.collection_items} collection items removed`
+  );
+}
+
+main().catch((error) => {
+  console.error('Trash purge failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,201 @@
+// Webhook signature check
+// Signs deliveries the way the portal does and sends them through the
+// receiver in server/portal.ts, checking that valid ones are handled once and
+// forged, stale or replayed ones are not. Needs no database or network.
+// Run with: npm run webhooks:verify
+
+import { randomUUID } from 'crypto';
+import { signWebhookPayload, generateWebhookSecret, WEBHOOK_HEADERS } from '@/lib/webhooks/signature';
+import { createWebhookHandler, type WebhookPayload } from '../server/portal';
+
+interface Delivery {
+  id: string;
+  timestamp: number;
+  body: string;
+  signature: string;
+}
+
+const secret = generateWebhookSecret();
+let failures = 0;
+
+/**
+ * A signed delivery, as deliverWebhook sends it
+ */
+function createDelivery(
+  options: { id?: string; timestamp?: number; signWith?: string } = {}
+): Delivery {
+  const id = options.id ?? randomUUID();
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event: 'collection_item.updated',
+    site_id: randomUUID(),
+    created_at: new Date().toISOString(),
+    data: { item_id: randomUUID() },
+  };
+  const body = JSON.stringify(payload);
+
+  return {
+    id,
+    timestamp,
+    body,
+    signature: signWebhookPayload(options.signWith ?? secret, id, timestamp, body),
+  };
+}
+
+function toRequest(delivery: Delivery, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/webhooks/portal', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_HEADERS.id]: delivery.id,
+      [WEBHOOK_HEADERS.event]: 'collection_item.updated',
+      [WEBHOOK_HEADERS.timestamp]: String(delivery.timestamp),
+      [WEBHOOK_HEADERS.signature]: delivery.signature,
+      ...headers,
+    },
+    body: delivery.body,
+  });
+}
+
+async function check(name: string, run: () => Promise<boolean>): Promise<void> {
+  try {
+    if (await run()) {
+      console.log(`  ✓ ${name}`);
+      return;
+    }
+    console.log(`  ✗ ${name}`);
+  } catch (error) {
+    console.log(`  ✗ ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+  failures++;
+}
+
+async function main() {
+  const handled: string[] = [];
+  const webhooks = createWebhookHandler({
+    secret,
+    onEvent: (payload) => {
+      handled.push(payload.id);
+    },
+  });
+
+  console.log('Webhook receiver (handleRequest)');
+
+  const valid = createDelivery();
+
+  await check('accepts a signed delivery and handles it', async () => {
+    const response = await webhooks.handleRequest(toRequest(valid));
+    return response.status === 200 && handled.length === 1;
+  });
+
+  await check('acknowledges a replayed delivery without handling it again', async () => {
+    const response = await webhooks.handleRequest(toRequest(valid));
+    const body = await response.json();
+    return response.status === 200 && body.duplicate === true && handled.length === 1;
+  });
+
+  await check('rejects a delivery signed with another secret', async () => {
+    const forged = createDelivery({ signWith: generateWebhookSecret() });
+    const response = await webhooks.handleRequest(toRequest(forged));
+    return response.status === 401 && handled.length === 1;
+  });
+
+  await check('rejects a delivery whose body was changed', async () => {
+    const tampered = { ...createDelivery(), body: createDelivery().body };
+    const response = await webhooks.handleRequest(toRequest(tampered));
+    return response.status === 401 && handled.length === 1;
+  });
+
+  await check('rejects a captured signature sent with a fresh timestamp', async () => {
+    const captured = createDelivery({ timestamp: Math.floor(Date.now() / 1000) - 60 });
+    const response = await webhooks.handleRequest(
+      toRequest({ ...captured, timestamp: Math.floor(Date.now() / 1000) })
+    );
+    return response.status === 401 && handled.length === 1;
+  });
+
+  await check('rejects a delivery outside the timestamp tolerance', async () => {
+    const stale = createDelivery({ timestamp: Math.floor(Date.now() / 1000) - 10 * 60 });
+    const response = await webhooks.handleRequest(toRequest(stale));
+    return response.status === 400 && handled.length === 1;
+  });
+
+  await check('rejects a delivery without a signature', async () => {
+    const response = await webhooks.handleRequest(
+      toRequest(createDelivery(), { [WEBHOOK_HEADERS.signature]: '' })
+    );
+    return response.status === 400 && handled.length === 1;
+  });
+
+  await check('handles concurrent copies of a delivery once', async () => {
+    const slowHandled: string[] = [];
+    const slow = createWebhookHandler({
+      secret,
+      onEvent: async (payload) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        slowHandled.push(payload.id);
+      },
+    });
+    const delivery = createDelivery();
+    const responses = await Promise.all([
+      slow.handleRequest(toRequest(delivery)),
+      slow.handleRequest(toRequest(delivery)),
+    ]);
+    return responses.every((response) => response.status === 200) && slowHandled.length === 1;
+  });
+
+  await check('handles a retry of a delivery whose handler failed', async () => {
+    let attempts = 0;
+    const flaky = createWebhookHandler({
+      secret,
+      onEvent: () => {
+        attempts++;
+        if (attempts === 1) {
+          throw new Error('Receiver unavailable');
+        }
+      },
+    });
+    const delivery = createDelivery();
+    const first = await flaky.handleRequest(toRequest(delivery));
+    const retry = await flaky.handleRequest(toRequest(delivery));
+    const body = await retry.json();
+    return first.status === 500 && retry.status === 200 && !body.duplicate && attempts === 2;
+  });
+
+  console.log('Webhook receiver (handle)');
+
+  await check('accepts a signed raw body from an Express-style request', async () => {
+    const delivery = createDelivery();
+    let status = 0;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json() {
+        return res;
+      },
+    };
+    await webhooks.handle(
+      {
+        headers: Object.fromEntries(toRequest(delivery).headers),
+        body: new TextEncoder().encode(delivery.body),
+      },
+      res
+    );
+    return status === 200 && handled.length === 2;
+  });
+
+  if (failures > 0) {
+    console.error(`${failures} webhook check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('All webhook checks passed');
+}
+
+main().catch((error) => {
+  console.error('Webhook check failed:', error);
+  process.exit(1);
+});
@@ -68,6 +68,7 @@ function getConfig() {
 // Simple in-memory cache
 interface CacheEntry {
   data: SiteContent;
+  etag: string | null;
   timestamp: number;
 }
 
@@ -76,7 +77,8 @@ const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 /**
  * Fetches site content from the portal API.
- * Includes simple in-memory caching with TTL.
+ * Includes simple in-memory caching with TTL. Once an entry expires it is
+ * revalidated with If-None-Match, and reused if the portal answers 304.
  *
  * @param options.bypassCache - Skip cache and fetch fresh content
  * @returns Promise<SiteContent>
@@ -99,23 +101,31 @@ export async function fetchPortalContentServer(
   const cacheKey = `${apiUrl}:${siteSlug}`;
 
   // Check cache first (unless bypassing)
-  if (!options.bypassCache) {
-    const cached = cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return cached.data;
-    }
+  const cached = options.bypassCache ? undefined : cache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.data;
+  }
+
+  const headers: Record<string, string> = {
+    'x-api-key': apiKey,
+  };
+
+  // Revalidate the expired entry instead of downloading it again
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
   }
 
   // Fetch from API
   const response = await fetch(
     `${apiUrl}/api/public/sites/${siteSlug}/content`,
-    {
-      headers: {
-        'x-api-key': apiKey,
-      },
-    }
+    { headers }
   );
 
+  if (cached && response.status === 304) {
+    cached.timestamp = Date.now();
+    return cached.data;
+  }
+
   if (!response.ok) {
     if (response.status === 401) {
       throw new Error('Invalid API key');
@@ -129,7 +139,11 @@ export async function fetchPortalContentServer(
   const data: SiteContent = await response.json();
 
   // Update cache
-  cache.set(cacheKey, { data, timestamp: Date.now() });
+  cache.set(cacheKey, {
+    data,
+    etag: response.headers.get('etag'),
+    timestamp: Date.now(),
+  });
 
   return data;
 }
@@ -247,3 +261,227 @@ export function createPortalRouter() {
     },
   };
 }
+
+// Webhook headers sent by the portal
+const WEBHOOK_HEADERS = {
+  id: 'x-webhook-id',
+  event: 'x-webhook-event',
+  timestamp: 'x-webhook-timestamp',
+  signature: 'x-webhook-signature',
+} as const;
+
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  site_id: string;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookHandlerOptions {
+  /** Signing secret shown on the webhook in the portal (whsec_...) */
+  secret: string;
+  /** Maximum age of a delivery in seconds (default 5 minutes) */
+  tolerance?: number;
+  /** Fetch fresh content after clearing the cache on site.published */
+  prefetch?: boolean;
+  /** Called for every verified event, after the cache has been cleared */
+  onEvent?: (payload: WebhookPayload) => void | Promise<void>;
+}
+
+interface WebhookResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Hex HMAC-SHA256 using Web Crypto so it runs on Node and edge runtimes
+ */
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Creates handlers that receive portal webhooks.
+ * Verifies the signature and timestamp, ignores replayed deliveries, and
+ * clears the content cache when the site is published.
+ *
+ * The signature covers the raw request body, so it must reach the handler
+ * unparsed (e.g. express.raw() rather than express.json()).
+ *
+ * @example
+ * // Express
+ * import { createWebhookHandler } from './portal';
+ *
+ * const webhooks = createWebhookHandler({
+ *   secret: process.env.PORTAL_WEBHOOK_SECRET!,
+ *   prefetch: true,
+ * });
+ *
+ * app.post(
+ *   '/webhooks/portal',
+ *   express.raw({ type: 'application/json' }),
+ *   webhooks.handle
+ * );
+ *
+ * @example
+ * // Fetch API (edge runtimes, Next.js route handlers)
+ * export const POST = webhooks.handleRequest;
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions) {
+  const { secret, tolerance = 5 * 60, prefetch = false, onEvent } = options;
+
+  if (!secret) {
+    throw new Error('Missing webhook secret');
+  }
+
+  // Delivery IDs already processed, kept for as long as their signature is valid
+  const processed: Map<string, number> = new Map();
+
+  function forgetExpired(now: number): void {
+    for (const [id, expiresAt] of processed) {
+      if (expiresAt <= now) {
+        processed.delete(id);
+      }
+    }
+  }
+
+  async function verifyAndHandle(
+    getHeader: (name: string) => string | null,
+    rawBody: string
+  ): Promise<WebhookResult> {
+    const id = getHeader(WEBHOOK_HEADERS.id);
+    const timestamp = getHeader(WEBHOOK_HEADERS.timestamp);
+    const signature = getHeader(WEBHOOK_HEADERS.signature);
+
+    if (!id || !timestamp || !signature) {
+      return { status: 400, body: { error: 'Missing webhook headers' } };
+    }
+
+    // Reject stale or future-dated deliveries
+    const sentAt = Number(timestamp);
+    const now = Date.now();
+    if (!Number.isFinite(sentAt) || Math.abs(now / 1000 - sentAt) > tolerance) {
+      return { status: 400, body: { error: 'Webhook timestamp outside tolerance' } };
+    }
+
+    const expected = `sha256=${await hmacHex(secret, `${id}.${timestamp}.${rawBody}`)}`;
+    if (!safeEqual(expected, signature)) {
+      return { status: 401, body: { error: 'Invalid webhook signature' } };
+    }
+
+    // Acknowledge replays without acting on them again so the portal stops retrying
+    forgetExpired(now);
+    if (processed.has(id)) {
+      return { status: 200, body: { received: true, duplicate: true } };
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return { status: 400, body: { error: 'Invalid webhook payload' } };
+    }
+
+    // Claimed before handling so a concurrent retry of the same delivery is
+    // treated as a replay, and released if handling fails so the retry runs it
+    processed.set(id, now + tolerance * 1000);
+
+    try {
+      if (payload.event === 'site.published') {
+        clearPortalCache();
+
+        if (prefetch) {
+          try {
+            await fetchPortalContentServer();
+          } catch (error) {
+            // The next request fetches fresh content anyway
+            console.error('Failed to prefetch portal content:', error);
+          }
+        }
+      }
+
+      if (onEvent) {
+        await onEvent(payload);
+      }
+    } catch (error) {
+      processed.delete(id);
+      throw error;
+    }
+
+    return { status: 200, body: { received: true } };
+  }
+
+  return {
+    // Handler for (req, res) frameworks such as Express
+    handle: async (req: any, res: any) => {
+      try {
+        const body = req.rawBody ?? req.body;
+        let rawBody: string;
+
+        if (typeof body === 'string') {
+          rawBody = body;
+        } else if (body instanceof Uint8Array) {
+          rawBody = new TextDecoder().decode(body);
+        } else {
+          res.status(400).json({
+            error: 'Webhook body must be unparsed - use express.raw() for this route',
+          });
+          return;
+        }
+
+        const result = await verifyAndHandle((name) => {
+          const value = req.headers[name];
+          return (Array.isArray(value) ? value[0] : value) ?? null;
+        }, rawBody);
+
+        res.status(result.status).json(result.body);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        res.status(500).json({ error: message });
+      }
+    },
+
+    // Handler for Fetch API runtimes (Request -> Response)
+    handleRequest: async (request: Request): Promise<Response> => {
+      try {
+        const result = await verifyAndHandle(
+          (name) => request.headers.get(name),
+          await request.text()
+        );
+        return Response.json(result.body, { status: result.status });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return Response.json({ error: message }, { status: 500 });
+      }
+    },
+  };
+}
@@ -0,0 +1,51 @@
+-- Scheduled Publishing
+-- Run after 006_triggers.sql
+
+-- ============================================
+-- SCHEDULED PUBLISHES TABLE
+-- Publishes queued to run at a future time
+-- ============================================
+CREATE TABLE scheduled_publishes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  scheduled_by UUID NOT NULL,
+  scheduler_type VARCHAR(20) NOT NULL CHECK (scheduler_type IN ('client', 'admin')),
+  scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'published', 'cancelled', 'failed')),
+  publish_history_id UUID REFERENCES publish_history(id) ON DELETE SET NULL,
+  error_message TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_scheduled_publishes_site_id ON scheduled_publishes(site_id);
+CREATE INDEX idx_scheduled_publishes_due ON scheduled_publishes(scheduled_at) WHERE status = 'pending';
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE scheduled_publishes ENABLE ROW LEVEL SECURITY;
+
+-- Admins have full access
+CREATE POLICY "Admins full access to scheduled_publishes" ON scheduled_publishes
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Clients can view their scheduled publishes
+CREATE POLICY "Clients can view own scheduled publishes" ON scheduled_publishes
+  FOR SELECT TO authenticated
+  USING (client_has_site_access(site_id));
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE TRIGGER trigger_scheduled_publishes_updated_at
+  BEFORE UPDATE ON scheduled_publishes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,58 @@
+-- Publish Approval Workflow
+-- Run after 007_scheduled_publishes.sql
+
+-- ============================================
+-- SITE PERMISSIONS
+-- Lets clients without can_publish ask an admin to publish for them
+-- ============================================
+ALTER TABLE site_permissions ADD COLUMN can_request_publish BOOLEAN DEFAULT false;
+
+-- ============================================
+-- PUBLISH REQUESTS TABLE
+-- Client requests awaiting admin approval
+-- ============================================
+CREATE TABLE publish_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  notes TEXT,
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  review_comment TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  publish_history_id UUID REFERENCES publish_history(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_publish_requests_site_id ON publish_requests(site_id, created_at DESC);
+CREATE INDEX idx_publish_requests_status ON publish_requests(status);
+-- Only one open request per site
+CREATE UNIQUE INDEX idx_publish_requests_pending ON publish_requests(site_id) WHERE status = 'pending';
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE publish_requests ENABLE ROW LEVEL SECURITY;
+
+-- Admins have full access
+CREATE POLICY "Admins full access to publish_requests" ON publish_requests
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Clients can view their publish requests
+CREATE POLICY "Clients can view own publish requests" ON publish_requests
+  FOR SELECT TO authenticated
+  USING (client_has_site_access(site_id));
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE TRIGGER trigger_publish_requests_updated_at
+  BEFORE UPDATE ON publish_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
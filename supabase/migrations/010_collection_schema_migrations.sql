@@ -0,0 +1,173 @@
+-- Collection Schema Migrations
+-- Run after 009_webhooks.sql
+
+-- ============================================
+-- COLLECTION SCHEMA MIGRATIONS TABLE
+-- Record of item_schema changes and the item data they rewrote
+-- ============================================
+CREATE TABLE collection_schema_migrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  collection_id UUID NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  performed_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  old_schema JSONB NOT NULL,
+  new_schema JSONB NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  -- Every item's data before and after: [{ id, before, after }]
+  items JSONB NOT NULL DEFAULT '[]',
+  affected_items INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'applied' CHECK (status IN ('applied', 'undone')),
+  undone_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_collection_schema_migrations_collection ON collection_schema_migrations(collection_id, created_at DESC);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE collection_schema_migrations ENABLE ROW LEVEL SECURITY;
+
+-- Admins have full access
+CREATE POLICY "Admins full access to collection_schema_migrations" ON collection_schema_migrations
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- ============================================
+-- APPLY A SCHEMA MIGRATION
+-- Rewrites item data and the schema in one transaction. Fails with
+-- 'schema_migration_conflict' if the schema or any item changed since the
+-- migration was planned.
+-- ============================================
+CREATE OR REPLACE FUNCTION apply_collection_schema_migration(
+  p_collection_id UUID,
+  p_old_schema JSONB,
+  p_new_schema JSONB,
+  p_changes JSONB,
+  p_items JSONB,
+  p_performed_by UUID
+)
+RETURNS collection_schema_migrations AS $$
+DECLARE
+  v_collection collections;
+  v_item JSONB;
+  v_affected INTEGER := 0;
+  v_migration collection_schema_migrations;
+BEGIN
+  SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_not_found';
+  END IF;
+
+  IF v_collection.item_schema <> p_old_schema THEN
+    RAISE EXCEPTION 'schema_migration_conflict';
+  END IF;
+
+  -- Items added since the plan was made would be left unmigrated
+  IF (SELECT COUNT(*) FROM collection_items WHERE collection_id = p_collection_id)
+     <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'schema_migration_conflict';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    PERFORM 1 FROM collection_items
+    WHERE id = (v_item->>'id')::UUID
+      AND collection_id = p_collection_id
+      AND data = v_item->'before'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'schema_migration_conflict';
+    END IF;
+
+    IF v_item->'before' <> v_item->'after' THEN
+      UPDATE collection_items SET data = v_item->'after' WHERE id = (v_item->>'id')::UUID;
+      v_affected := v_affected + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE collections SET item_schema = p_new_schema WHERE id = p_collection_id;
+
+  INSERT INTO collection_schema_migrations (
+    collection_id, site_id, performed_by, old_schema, new_schema, changes, items, affected_items
+  )
+  VALUES (
+    p_collection_id, v_collection.site_id, p_performed_by, p_old_schema, p_new_schema,
+    p_changes, p_items, v_affected
+  )
+  RETURNING * INTO v_migration;
+
+  RETURN v_migration;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- UNDO A SCHEMA MIGRATION
+-- Restores the old schema and item data in one transaction. Only the latest
+-- migration can be undone, and only while its items are as it left them.
+-- ============================================
+CREATE OR REPLACE FUNCTION undo_collection_schema_migration(
+  p_migration_id UUID,
+  p_undone_by UUID
+)
+RETURNS collection_schema_migrations AS $$
+DECLARE
+  v_migration collection_schema_migrations;
+  v_item JSONB;
+BEGIN
+  SELECT * INTO v_migration FROM collection_schema_migrations WHERE id = p_migration_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'schema_migration_not_found';
+  END IF;
+
+  IF v_migration.status <> 'applied' THEN
+    RAISE EXCEPTION 'schema_migration_conflict';
+  END IF;
+
+  PERFORM 1 FROM collections
+  WHERE id = v_migration.collection_id AND item_schema = v_migration.new_schema
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'schema_migration_conflict';
+  END IF;
+
+  -- Items created under the new schema can't be converted back
+  IF EXISTS (
+    SELECT 1 FROM collection_items ci
+    WHERE ci.collection_id = v_migration.collection_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(v_migration.items) AS item
+        WHERE (item->>'id')::UUID = ci.id
+      )
+  ) THEN
+    RAISE EXCEPTION 'schema_migration_conflict';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(v_migration.items) LOOP
+    UPDATE collection_items SET data = v_item->'before'
+    WHERE id = (v_item->>'id')::UUID AND data = v_item->'after';
+
+    -- Deleted items stay deleted; edited items block the undo
+    IF NOT FOUND AND EXISTS (SELECT 1 FROM collection_items WHERE id = (v_item->>'id')::UUID) THEN
+      RAISE EXCEPTION 'schema_migration_conflict';
+    END IF;
+  END LOOP;
+
+  UPDATE collections SET item_schema = v_migration.old_schema WHERE id = v_migration.collection_id;
+
+  UPDATE collection_schema_migrations
+  SET status = 'undone', undone_by = p_undone_by, undone_at = NOW()
+  WHERE id = p_migration_id
+  RETURNING * INTO v_migration;
+
+  RETURN v_migration;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,69 @@
+-- Collection Reference Fields
+-- Run after 010_collection_schema_migrations.sql
+--
+-- Reference fields store item ids in collection_items.data, either as a string
+-- ("category": "<id>") or an array of strings ("tags": ["<id>", ...]). The
+-- field's on_delete setting in the referencing collection's item_schema decides
+-- whether deleting a referenced item is blocked or deletes the referencing items.
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Containment lookups for items referencing a given id
+CREATE INDEX idx_collection_items_data ON collection_items USING GIN (data jsonb_path_ops);
+
+-- ============================================
+-- DELETE A COLLECTION ITEM
+-- Applies on_delete for every reference to the item in one transaction.
+-- Fails with 'reference_conflict' if a blocking reference exists, otherwise
+-- returns the ids of all deleted items, the requested one first.
+-- ============================================
+CREATE OR REPLACE FUNCTION delete_collection_item(p_item_id UUID)
+RETURNS UUID[] AS $$
+DECLARE
+  v_collection collections;
+  v_field RECORD;
+  v_referencing_id UUID;
+  v_deleted UUID[] := ARRAY[p_item_id];
+BEGIN
+  SELECT c.* INTO v_collection
+  FROM collections c
+  JOIN collection_items ci ON ci.collection_id = c.id
+  WHERE ci.id = p_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  -- Delete first so reference cycles don't revisit this item
+  DELETE FROM collection_items WHERE id = p_item_id;
+
+  FOR v_field IN
+    SELECT c.id AS collection_id, f.key, COALESCE(f.value->>'on_delete', 'block') AS on_delete
+    FROM collections c, jsonb_each(c.item_schema) AS f
+    WHERE c.site_id = v_collection.site_id
+      AND f.value->>'type' = 'reference'
+      AND f.value->>'collection' = v_collection.collection_key
+  LOOP
+    FOR v_referencing_id IN
+      SELECT id FROM collection_items
+      WHERE collection_id = v_field.collection_id
+        AND (
+          data @> jsonb_build_object(v_field.key, p_item_id::TEXT)
+          OR data @> jsonb_build_object(v_field.key, jsonb_build_array(p_item_id::TEXT))
+        )
+    LOOP
+      IF v_field.on_delete <> 'cascade' THEN
+        RAISE EXCEPTION 'reference_conflict';
+      END IF;
+
+      -- Items removed earlier in the cascade no longer match
+      IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_referencing_id) THEN
+        v_deleted := v_deleted || delete_collection_item(v_referencing_id);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
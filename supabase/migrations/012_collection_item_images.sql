@@ -0,0 +1,83 @@
+-- Collection Item Images
+-- Run after 011_collection_references.sql
+--
+-- Image fields now store { "url": "...", "alt": "..." } objects, with uploads in
+-- the images bucket under <site_id>/collections/<collection_key>/<item_id>/.
+
+-- ============================================
+-- CONVERT EXISTING IMAGE VALUES
+-- Plain URL strings in top-level image fields become { url } objects
+-- ============================================
+UPDATE collection_items ci
+SET data = ci.data || images.converted
+FROM (
+  SELECT ci2.id, jsonb_object_agg(f.key, jsonb_build_object('url', ci2.data->>f.key)) AS converted
+  FROM collection_items ci2
+  JOIN collections c ON c.id = ci2.collection_id
+  CROSS JOIN jsonb_each(c.item_schema) AS f
+  WHERE f.value->>'type' = 'image'
+    AND jsonb_typeof(ci2.data->f.key) = 'string'
+  GROUP BY ci2.id
+) AS images
+WHERE ci.id = images.id;
+
+-- ============================================
+-- DELETE A COLLECTION ITEM
+-- Same rules as before, but returns [{ id, collection_key }] for every deleted
+-- item so their uploads can be removed from storage.
+-- ============================================
+DROP FUNCTION delete_collection_item(UUID);
+
+CREATE FUNCTION delete_collection_item(p_item_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_collection collections;
+  v_field RECORD;
+  v_referencing_id UUID;
+  v_deleted JSONB;
+BEGIN
+  SELECT c.* INTO v_collection
+  FROM collections c
+  JOIN collection_items ci ON ci.collection_id = c.id
+  WHERE ci.id = p_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  v_deleted := jsonb_build_array(
+    jsonb_build_object('id', p_item_id, 'collection_key', v_collection.collection_key)
+  );
+
+  -- Delete first so reference cycles don't revisit this item
+  DELETE FROM collection_items WHERE id = p_item_id;
+
+  FOR v_field IN
+    SELECT c.id AS collection_id, f.key, COALESCE(f.value->>'on_delete', 'block') AS on_delete
+    FROM collections c, jsonb_each(c.item_schema) AS f
+    WHERE c.site_id = v_collection.site_id
+      AND f.value->>'type' = 'reference'
+      AND f.value->>'collection' = v_collection.collection_key
+  LOOP
+    FOR v_referencing_id IN
+      SELECT id FROM collection_items
+      WHERE collection_id = v_field.collection_id
+        AND (
+          data @> jsonb_build_object(v_field.key, p_item_id::TEXT)
+          OR data @> jsonb_build_object(v_field.key, jsonb_build_array(p_item_id::TEXT))
+        )
+    LOOP
+      IF v_field.on_delete <> 'cascade' THEN
+        RAISE EXCEPTION 'reference_conflict';
+      END IF;
+
+      -- Items removed earlier in the cascade no longer match
+      IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_referencing_id) THEN
+        v_deleted := v_deleted || delete_collection_item(v_referencing_id);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
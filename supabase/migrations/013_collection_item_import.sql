@@ -0,0 +1,48 @@
+-- Collection Item Import
+-- Run after 012_collection_item_images.sql
+
+-- ============================================
+-- IMPORT COLLECTION ITEMS
+-- Inserts validated items after the existing ones in one transaction.
+-- Fails with 'collection_full' if they would take the collection past max_items.
+-- p_items: [{ data, is_visible }]
+-- ============================================
+CREATE OR REPLACE FUNCTION import_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_collection collections;
+  v_count INTEGER;
+  v_next_order INTEGER;
+BEGIN
+  -- Lock the collection so concurrent imports can't both pass the capacity check
+  SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_not_found';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(MAX(sort_order), -1) + 1
+  INTO v_count, v_next_order
+  FROM collection_items
+  WHERE collection_id = p_collection_id;
+
+  IF v_collection.max_items IS NOT NULL
+     AND v_count + jsonb_array_length(p_items) > v_collection.max_items THEN
+    RAISE EXCEPTION 'collection_full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO collection_items (collection_id, data, sort_order, is_visible)
+  SELECT
+    p_collection_id,
+    item.value->'data',
+    v_next_order + (item.ordinality - 1)::INTEGER,
+    COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item
+  ORDER BY item.ordinality
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
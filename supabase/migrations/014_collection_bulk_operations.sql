@@ -0,0 +1,112 @@
+-- Collection Bulk Operations
+-- Run after 013_collection_item_import.sql
+
+-- ============================================
+-- UPDATE MANY COLLECTION ITEMS
+-- Applies validated changes to items of one collection in one transaction.
+-- Fails with 'collection_item_not_found' if any item isn't in the collection.
+-- p_items: [{ id, data?, is_visible? }] - omitted keys are left unchanged
+-- ============================================
+CREATE OR REPLACE FUNCTION bulk_update_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_item JSONB;
+  v_updated collection_items;
+BEGIN
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    UPDATE collection_items
+    SET
+      data = COALESCE(v_item->'data', data),
+      is_visible = COALESCE((v_item->>'is_visible')::BOOLEAN, is_visible)
+    WHERE id = (v_item->>'id')::UUID
+      AND collection_id = p_collection_id
+    RETURNING * INTO v_updated;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'collection_item_not_found';
+    END IF;
+
+    RETURN NEXT v_updated;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- DELETE MANY COLLECTION ITEMS
+-- Deletes each item with delete_collection_item's reference rules, all or
+-- nothing. Returns [{ id, collection_key }] for every deleted item.
+-- ============================================
+CREATE OR REPLACE FUNCTION delete_collection_items(
+  p_collection_id UUID,
+  p_item_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item_id UUID;
+  v_deleted JSONB := '[]'::JSONB;
+BEGIN
+  IF (SELECT COUNT(*) FROM collection_items WHERE id = ANY(p_item_ids) AND collection_id = p_collection_id)
+     <> cardinality(p_item_ids) THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  FOREACH v_item_id IN ARRAY p_item_ids LOOP
+    -- Items already removed by an earlier item's cascade are skipped
+    IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_item_id) THEN
+      v_deleted := v_deleted || delete_collection_item(v_item_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- IMPORT COLLECTION ITEMS
+-- As before, but items may bring their own id (duplicates are given theirs
+-- up front so their uploads can be copied before the insert)
+-- p_items: [{ id?, data, is_visible }]
+-- ============================================
+CREATE OR REPLACE FUNCTION import_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_collection collections;
+  v_count INTEGER;
+  v_next_order INTEGER;
+BEGIN
+  -- Lock the collection so concurrent imports can't both pass the capacity check
+  SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_not_found';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(MAX(sort_order), -1) + 1
+  INTO v_count, v_next_order
+  FROM collection_items
+  WHERE collection_id = p_collection_id;
+
+  IF v_collection.max_items IS NOT NULL
+     AND v_count + jsonb_array_length(p_items) > v_collection.max_items THEN
+    RAISE EXCEPTION 'collection_full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO collection_items (id, collection_id, data, sort_order, is_visible)
+  SELECT
+    COALESCE((item.value->>'id')::UUID, uuid_generate_v4()),
+    p_collection_id,
+    item.value->'data',
+    v_next_order + (item.ordinality - 1)::INTEGER,
+    COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item
+  ORDER BY item.ordinality
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
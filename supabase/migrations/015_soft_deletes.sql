@@ -0,0 +1,264 @@
+-- Soft Deletes
+-- Run after 014_collection_bulk_operations.sql
+--
+-- Deleting a text field, image slot or collection item sets deleted_at instead
+-- of removing the row. Deleted rows are hidden from every read and stay in the
+-- trash, uploads included, until they're restored or the retention job
+-- (npm run trash:purge) removes them for good. Keys stay taken while a text
+-- field or image slot is in the trash.
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+ALTER TABLE text_content ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE images ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE collection_items ADD COLUMN deleted_at TIMESTAMPTZ;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Trash listings and the retention job only look at deleted rows
+CREATE INDEX idx_text_content_deleted_at ON text_content(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_images_deleted_at ON images(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_collection_items_deleted_at ON collection_items(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ============================================
+-- CHECK COLLECTION ITEM LIMITS
+-- Items in the trash don't count towards max_items
+-- ============================================
+CREATE OR REPLACE FUNCTION check_collection_item_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_count INTEGER;
+  max_allowed INTEGER;
+BEGIN
+  SELECT max_items INTO max_allowed
+  FROM collections
+  WHERE id = NEW.collection_id;
+
+  IF max_allowed IS NOT NULL THEN
+    SELECT COUNT(*) INTO current_count
+    FROM collection_items
+    WHERE collection_id = NEW.collection_id
+      AND deleted_at IS NULL;
+
+    IF current_count >= max_allowed THEN
+      RAISE EXCEPTION 'Collection item limit reached (max: %)', max_allowed;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- DELETE A COLLECTION ITEM
+-- As before, but moves the item and any cascaded items to the trash.
+-- Items already in the trash don't block or cascade.
+-- ============================================
+CREATE OR REPLACE FUNCTION delete_collection_item(p_item_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_collection collections;
+  v_field RECORD;
+  v_referencing_id UUID;
+  v_deleted JSONB;
+BEGIN
+  SELECT c.* INTO v_collection
+  FROM collections c
+  JOIN collection_items ci ON ci.collection_id = c.id
+  WHERE ci.id = p_item_id
+    AND ci.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  v_deleted := jsonb_build_array(
+    jsonb_build_object('id', p_item_id, 'collection_key', v_collection.collection_key)
+  );
+
+  -- Delete first so reference cycles don't revisit this item
+  UPDATE collection_items SET deleted_at = NOW() WHERE id = p_item_id;
+
+  FOR v_field IN
+    SELECT c.id AS collection_id, f.key, COALESCE(f.value->>'on_delete', 'block') AS on_delete
+    FROM collections c, jsonb_each(c.item_schema) AS f
+    WHERE c.site_id = v_collection.site_id
+      AND f.value->>'type' = 'reference'
+      AND f.value->>'collection' = v_collection.collection_key
+  LOOP
+    FOR v_referencing_id IN
+      SELECT id FROM collection_items
+      WHERE collection_id = v_field.collection_id
+        AND deleted_at IS NULL
+        AND (
+          data @> jsonb_build_object(v_field.key, p_item_id::TEXT)
+          OR data @> jsonb_build_object(v_field.key, jsonb_build_array(p_item_id::TEXT))
+        )
+    LOOP
+      IF v_field.on_delete <> 'cascade' THEN
+        RAISE EXCEPTION 'reference_conflict';
+      END IF;
+
+      -- Items removed earlier in the cascade no longer match
+      IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_referencing_id AND deleted_at IS NULL) THEN
+        v_deleted := v_deleted || delete_collection_item(v_referencing_id);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- DELETE MANY COLLECTION ITEMS
+-- As before, ignoring items already in the trash
+-- ============================================
+CREATE OR REPLACE FUNCTION delete_collection_items(
+  p_collection_id UUID,
+  p_item_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item_id UUID;
+  v_deleted JSONB := '[]'::JSONB;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM collection_items
+    WHERE id = ANY(p_item_ids) AND collection_id = p_collection_id AND deleted_at IS NULL
+  ) <> cardinality(p_item_ids) THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  FOREACH v_item_id IN ARRAY p_item_ids LOOP
+    -- Items already removed by an earlier item's cascade are skipped
+    IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_item_id AND deleted_at IS NULL) THEN
+      v_deleted := v_deleted || delete_collection_item(v_item_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- UPDATE MANY COLLECTION ITEMS
+-- As before; items in the trash count as not found
+-- ============================================
+CREATE OR REPLACE FUNCTION bulk_update_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_item JSONB;
+  v_updated collection_items;
+BEGIN
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    UPDATE collection_items
+    SET
+      data = COALESCE(v_item->'data', data),
+      is_visible = COALESCE((v_item->>'is_visible')::BOOLEAN, is_visible)
+    WHERE id = (v_item->>'id')::UUID
+      AND collection_id = p_collection_id
+      AND deleted_at IS NULL
+    RETURNING * INTO v_updated;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'collection_item_not_found';
+    END IF;
+
+    RETURN NEXT v_updated;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- IMPORT COLLECTION ITEMS
+-- As before; items in the trash don't count towards max_items
+-- ============================================
+CREATE OR REPLACE FUNCTION import_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_collection collections;
+  v_count INTEGER;
+  v_next_order INTEGER;
+BEGIN
+  -- Lock the collection so concurrent imports can't both pass the capacity check
+  SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_not_found';
+  END IF;
+
+  SELECT COUNT(*) FILTER (WHERE deleted_at IS NULL), COALESCE(MAX(sort_order), -1) + 1
+  INTO v_count, v_next_order
+  FROM collection_items
+  WHERE collection_id = p_collection_id;
+
+  IF v_collection.max_items IS NOT NULL
+     AND v_count + jsonb_array_length(p_items) > v_collection.max_items THEN
+    RAISE EXCEPTION 'collection_full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO collection_items (id, collection_id, data, sort_order, is_visible)
+  SELECT
+    COALESCE((item.value->>'id')::UUID, uuid_generate_v4()),
+    p_collection_id,
+    item.value->'data',
+    v_next_order + (item.ordinality - 1)::INTEGER,
+    COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item
+  ORDER BY item.ordinality
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- RESTORE A COLLECTION ITEM
+-- Takes an item out of the trash at the end of its collection.
+-- Fails with 'collection_full' if the collection has no room for it.
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_collection_item(p_item_id UUID)
+RETURNS collection_items AS $$
+DECLARE
+  v_collection collections;
+  v_item collection_items;
+BEGIN
+  SELECT c.* INTO v_collection
+  FROM collections c
+  JOIN collection_items ci ON ci.collection_id = c.id
+  WHERE ci.id = p_item_id
+    AND ci.deleted_at IS NOT NULL
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_item_not_found';
+  END IF;
+
+  IF v_collection.max_items IS NOT NULL AND (
+    SELECT COUNT(*) FROM collection_items
+    WHERE collection_id = v_collection.id AND deleted_at IS NULL
+  ) >= v_collection.max_items THEN
+    RAISE EXCEPTION 'collection_full';
+  END IF;
+
+  UPDATE collection_items
+  SET
+    deleted_at = NULL,
+    sort_order = (
+      SELECT COALESCE(MAX(sort_order), -1) + 1 FROM collection_items
+      WHERE collection_id = v_collection.id AND deleted_at IS NULL
+    )
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,71 @@
+-- Collection Item Visibility Scheduling
+-- Run after 015_soft_deletes.sql
+--
+-- Besides the is_visible toggle, an item can be limited to a date range and a
+-- recurring weekly window ({ "days": [1,2,3,4,5], "start": "11:00", "end": "14:00" },
+-- days 0 = Sunday). Windows are evaluated in the site's timezone when the
+-- public API is called, so published snapshots don't need republishing.
+
+-- ============================================
+-- COLUMNS
+-- ============================================
+ALTER TABLE sites ADD COLUMN timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE collection_items
+  ADD COLUMN visible_from TIMESTAMPTZ,
+  ADD COLUMN visible_until TIMESTAMPTZ,
+  ADD COLUMN visibility_window JSONB,
+  ADD CONSTRAINT collection_items_visible_range CHECK (
+    visible_from IS NULL OR visible_until IS NULL OR visible_until > visible_from
+  );
+
+-- ============================================
+-- IMPORT COLLECTION ITEMS
+-- As before, but items may bring a schedule (duplicates keep theirs)
+-- p_items: [{ id?, data, is_visible, visible_from?, visible_until?, visibility_window? }]
+-- ============================================
+CREATE OR REPLACE FUNCTION import_collection_items(
+  p_collection_id UUID,
+  p_items JSONB
+)
+RETURNS SETOF collection_items AS $$
+DECLARE
+  v_collection collections;
+  v_count INTEGER;
+  v_next_order INTEGER;
+BEGIN
+  -- Lock the collection so concurrent imports can't both pass the capacity check
+  SELECT * INTO v_collection FROM collections WHERE id = p_collection_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'collection_not_found';
+  END IF;
+
+  SELECT COUNT(*) FILTER (WHERE deleted_at IS NULL), COALESCE(MAX(sort_order), -1) + 1
+  INTO v_count, v_next_order
+  FROM collection_items
+  WHERE collection_id = p_collection_id;
+
+  IF v_collection.max_items IS NOT NULL
+     AND v_count + jsonb_array_length(p_items) > v_collection.max_items THEN
+    RAISE EXCEPTION 'collection_full';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO collection_items (
+    id, collection_id, data, sort_order, is_visible, visible_from, visible_until, visibility_window
+  )
+  SELECT
+    COALESCE((item.value->>'id')::UUID, uuid_generate_v4()),
+    p_collection_id,
+    item.value->'data',
+    v_next_order + (item.ordinality - 1)::INTEGER,
+    COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE),
+    (item.value->>'visible_from')::TIMESTAMPTZ,
+    (item.value->>'visible_until')::TIMESTAMPTZ,
+    NULLIF(item.value->'visibility_window', 'null'::JSONB)
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item
+  ORDER BY item.ordinality
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
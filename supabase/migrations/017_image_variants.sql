@@ -0,0 +1,12 @@
+-- Responsive Image Variants
+-- Run after 016_collection_item_scheduling.sql
+--
+-- Uploads to image slots are stored with resized AVIF and WebP copies
+-- ([{ "url": "...", "width": 640, "format": "webp" }, ...]) and the original's
+-- pixel size, so sites can serve srcset instead of the full-size file.
+-- Existing uploads are backfilled with: npm run images:variants
+
+ALTER TABLE images
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER,
+  ADD COLUMN variants JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,11 @@
+-- Image Upload Checks
+-- Run after 017_image_variants.sql
+--
+-- Image slots can set a minimum pixel size. Uploads below it, or off the
+-- aspect ratio of the recommended size, are rejected when the slot enforces
+-- its dimensions and accepted with a warning otherwise.
+
+ALTER TABLE images
+  ADD COLUMN min_width INTEGER CHECK (min_width > 0),
+  ADD COLUMN min_height INTEGER CHECK (min_height > 0),
+  ADD COLUMN enforce_dimensions BOOLEAN NOT NULL DEFAULT FALSE;
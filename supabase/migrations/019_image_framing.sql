@@ -0,0 +1,11 @@
+-- Image Framing
+-- Run after 018_image_upload_checks.sql
+--
+-- Clients can pick the point of an image that must stay in view
+-- ({ "x": 0.5, "y": 0.3 }) and crop it ({ "x", "y", "width", "height" }),
+-- all as fractions of the uploaded image. The responsive variants are
+-- rendered from the cropped area; the original upload is kept as it is.
+
+ALTER TABLE images
+  ADD COLUMN focal_point JSONB,
+  ADD COLUMN crop JSONB;
@@ -0,0 +1,92 @@
+-- Media Library
+-- Run after 019_image_framing.sql
+--
+-- Every uploaded image becomes an asset in its site's library, and image
+-- slots and collection image fields point at an asset's URL. Replacing an
+-- image no longer deletes the old file - it stays in the library until it's
+-- deleted there, which is refused while anything still uses it. What uses an
+-- asset is worked out from the content pointing at its URL, so it can't drift.
+
+-- ============================================
+-- MEDIA ASSETS TABLE
+-- ============================================
+CREATE TABLE media_assets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  filename VARCHAR(255),
+  content_type VARCHAR(50),
+  size_bytes INTEGER,
+  width INTEGER,
+  height INTEGER,
+  variants JSONB NOT NULL DEFAULT '[]',
+  alt_text TEXT,
+  uploaded_by UUID,
+  uploader_type VARCHAR(20) CHECK (uploader_type IN ('client', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(site_id, url)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX idx_media_assets_site_id ON media_assets(site_id, created_at DESC);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+ALTER TABLE media_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins full access to media_assets" ON media_assets
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Clients can view own site media_assets" ON media_assets
+  FOR SELECT TO authenticated
+  USING (client_has_site_access(site_id));
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+CREATE TRIGGER trigger_media_assets_updated_at
+  BEFORE UPDATE ON media_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- BACKFILL
+-- Existing uploads (slot images, the business logo and collection item
+-- images, trash included) join the library where they were stored
+-- ============================================
+INSERT INTO media_assets (site_id, url, filename, width, height, variants, alt_text, created_at)
+SELECT DISTINCT ON (site_id, url)
+  site_id,
+  url,
+  regexp_replace(url, '^.*/', ''),
+  width,
+  height,
+  -- A cropped slot's variants belong to the slot, not the upload
+  CASE WHEN crop IS NULL THEN variants ELSE '[]' END,
+  alt_text,
+  updated_at
+FROM images
+WHERE url LIKE '%/object/public/images/%'
+ORDER BY site_id, url, crop IS NULL DESC, updated_at DESC
+ON CONFLICT (site_id, url) DO NOTHING;
+
+INSERT INTO media_assets (site_id, url, filename)
+SELECT site_id, logo_url, regexp_replace(logo_url, '^.*/', '')
+FROM business_info
+WHERE logo_url LIKE '%/object/public/images/%'
+ON CONFLICT (site_id, url) DO NOTHING;
+
+INSERT INTO media_assets (site_id, url, filename)
+SELECT DISTINCT c.site_id, value #>> '{}', regexp_replace(value #>> '{}', '^.*/', '')
+FROM collection_items i
+JOIN collections c ON c.id = i.collection_id
+CROSS JOIN LATERAL jsonb_path_query(i.data, 'lax $.**') AS value
+WHERE jsonb_typeof(value) = 'string'
+  AND value #>> '{}' LIKE '%/object/public/images/%'
+ON CONFLICT (site_id, url) DO NOTHING;
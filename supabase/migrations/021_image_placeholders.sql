@@ -0,0 +1,11 @@
+-- Image Placeholders
+-- Run after 020_media_library.sql
+--
+-- A tiny blurred preview and the dominant color of each upload
+-- ({ "lqip": "data:image/webp;base64,...", "color": "#a0522d" }), shown by
+-- sites while the image loads. A slot's placeholder follows its crop.
+-- Existing uploads get theirs from: npm run images:placeholders
+
+ALTER TABLE images ADD COLUMN placeholder JSONB;
+
+ALTER TABLE media_assets ADD COLUMN placeholder JSONB;
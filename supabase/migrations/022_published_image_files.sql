@@ -0,0 +1,24 @@
+-- Published Image Files
+-- Run after 021_image_placeholders.sql
+--
+-- Sites are served from publish_history snapshots, so a stored file a
+-- snapshot points at belongs to that published version for as long as the
+-- version exists - the live site and any rollback to it still need it. Draft
+-- edits may stop pointing at a file, but only files no snapshot references
+-- are ever removed from storage.
+
+-- ============================================
+-- PUBLISHED IMAGE URLS
+-- Every bucket URL inside a site's publish snapshots, with the versions
+-- pointing at it
+-- ============================================
+CREATE OR REPLACE FUNCTION published_image_urls(p_site_id UUID)
+RETURNS TABLE(url TEXT, version_number INTEGER) AS $$
+  SELECT DISTINCT value #>> '{}', h.version_number
+  FROM publish_history h
+  CROSS JOIN LATERAL jsonb_path_query(h.content_snapshot, 'lax $.**') AS value
+  WHERE h.site_id = p_site_id
+    AND jsonb_typeof(value) = 'string'
+    AND value #>> '{}' LIKE '%/object/public/images/%'
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;
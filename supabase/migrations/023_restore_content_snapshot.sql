@@ -0,0 +1,188 @@
+-- Restore Content Snapshot
+-- Run after 022_published_image_files.sql
+--
+-- Rolling back to a publish version rewrites the draft in one transaction, so
+-- a failure leaves the draft as it was. Items the version doesn't have go to
+-- the trash with the usual reference rules instead of being deleted.
+
+-- ============================================
+-- RESTORE A CONTENT SNAPSHOT
+-- Writes a snapshot's values into the draft tables. Fields, slots and
+-- collections removed since the snapshot was taken are skipped rather than
+-- recreated. For each collection, the snapshot's items are restored (from the
+-- trash, or re-created if they were purged) and every other item is moved to
+-- the trash.
+-- Item data must already be validated against the collection's current
+-- item_schema, which is passed back to catch concurrent schema changes.
+-- Fails with 'restore_conflict' if a schema changed, 'collection_full' if a
+-- collection's max_items is below its snapshot item count and
+-- 'reference_conflict' if a blocking reference points at an item being
+-- trashed. The collection's label is in the error detail.
+-- p_snapshot: { business_info, text_content: [{ content_key, content }],
+--   images: [{ image_key, url, alt_text, ... }],
+--   collections: [{ collection_key, item_schema, items: [{ id, data, sort_order,
+--   is_visible, visible_from, visible_until, visibility_window }] }] }
+-- ============================================
+CREATE OR REPLACE FUNCTION restore_content_snapshot(
+  p_site_id UUID,
+  p_snapshot JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_business JSONB := p_snapshot->'business_info';
+  v_snapshot_collection JSONB;
+  v_collection collections;
+  v_item_ids UUID[];
+  v_trashed UUID[] := '{}';
+  v_item_id UUID;
+  v_field RECORD;
+  v_referencing_id UUID;
+BEGIN
+  -- Business info
+  IF v_business IS NOT NULL AND jsonb_typeof(v_business) = 'object' THEN
+    UPDATE business_info
+    SET
+      business_name = v_business->>'business_name',
+      phone = v_business->>'phone',
+      email = v_business->>'email',
+      address_street = v_business->>'address_street',
+      address_city = v_business->>'address_city',
+      address_state = v_business->>'address_state',
+      address_zip = v_business->>'address_zip',
+      address_country = v_business->>'address_country',
+      hours = COALESCE(v_business->'hours', '{}'),
+      social_links = COALESCE(v_business->'social_links', '{}'),
+      logo_url = v_business->>'logo_url'
+    WHERE site_id = p_site_id;
+  END IF;
+
+  -- Text content
+  UPDATE text_content t
+  SET content = field.value->>'content'
+  FROM jsonb_array_elements(COALESCE(p_snapshot->'text_content', '[]')) AS field
+  WHERE t.site_id = p_site_id
+    AND t.content_key = field.value->>'content_key'
+    AND t.deleted_at IS NULL;
+
+  -- Images
+  UPDATE images i
+  SET
+    url = image.value->>'url',
+    alt_text = image.value->>'alt_text',
+    width = (image.value->>'width')::INTEGER,
+    height = (image.value->>'height')::INTEGER,
+    variants = COALESCE(NULLIF(image.value->'variants', 'null'), '[]'),
+    focal_point = NULLIF(image.value->'focal_point', 'null'),
+    crop = NULLIF(image.value->'crop', 'null'),
+    placeholder = NULLIF(image.value->'placeholder', 'null')
+  FROM jsonb_array_elements(COALESCE(p_snapshot->'images', '[]')) AS image
+  WHERE i.site_id = p_site_id
+    AND i.image_key = image.value->>'image_key'
+    AND i.deleted_at IS NULL;
+
+  -- Collection items
+  FOR v_snapshot_collection IN
+    SELECT * FROM jsonb_array_elements(COALESCE(p_snapshot->'collections', '[]'))
+  LOOP
+    SELECT * INTO v_collection
+    FROM collections
+    WHERE site_id = p_site_id
+      AND collection_key = v_snapshot_collection->>'collection_key'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF v_collection.item_schema <> v_snapshot_collection->'item_schema' THEN
+      RAISE EXCEPTION 'restore_conflict' USING DETAIL = v_collection.label;
+    END IF;
+
+    IF v_collection.max_items IS NOT NULL
+       AND jsonb_array_length(v_snapshot_collection->'items') > v_collection.max_items THEN
+      RAISE EXCEPTION 'collection_full' USING DETAIL = v_collection.label;
+    END IF;
+
+    SELECT COALESCE(array_agg((item->>'id')::UUID), '{}')
+    INTO v_item_ids
+    FROM jsonb_array_elements(v_snapshot_collection->'items') AS item;
+
+    -- Everything else goes to the trash first, so the restored items fit
+    WITH trashed AS (
+      UPDATE collection_items
+      SET deleted_at = NOW()
+      WHERE collection_id = v_collection.id
+        AND deleted_at IS NULL
+        AND id <> ALL(v_item_ids)
+      RETURNING id
+    )
+    SELECT v_trashed || COALESCE(array_agg(id), '{}') INTO v_trashed FROM trashed;
+
+    -- Items still in the collection, live or in the trash, are updated
+    UPDATE collection_items ci
+    SET
+      data = item.value->'data',
+      sort_order = (item.value->>'sort_order')::INTEGER,
+      is_visible = COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE),
+      visible_from = (item.value->>'visible_from')::TIMESTAMPTZ,
+      visible_until = (item.value->>'visible_until')::TIMESTAMPTZ,
+      visibility_window = NULLIF(item.value->'visibility_window', 'null'),
+      deleted_at = NULL
+    FROM jsonb_array_elements(v_snapshot_collection->'items') AS item
+    WHERE ci.id = (item.value->>'id')::UUID
+      AND ci.collection_id = v_collection.id;
+
+    -- Purged items are re-created with their old ids
+    INSERT INTO collection_items (
+      id, collection_id, data, sort_order, is_visible, visible_from, visible_until, visibility_window
+    )
+    SELECT
+      (item.value->>'id')::UUID,
+      v_collection.id,
+      item.value->'data',
+      (item.value->>'sort_order')::INTEGER,
+      COALESCE((item.value->>'is_visible')::BOOLEAN, TRUE),
+      (item.value->>'visible_from')::TIMESTAMPTZ,
+      (item.value->>'visible_until')::TIMESTAMPTZ,
+      NULLIF(item.value->'visibility_window', 'null')
+    FROM jsonb_array_elements(v_snapshot_collection->'items') AS item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM collection_items WHERE id = (item.value->>'id')::UUID
+    );
+  END LOOP;
+
+  -- References to trashed items follow delete_collection_item's rules, now
+  -- that the restored items no longer point at them
+  FOREACH v_item_id IN ARRAY v_trashed LOOP
+    FOR v_field IN
+      SELECT c.id AS collection_id, c.label, f.key, COALESCE(f.value->>'on_delete', 'block') AS on_delete
+      FROM collections c
+      JOIN collections target ON target.site_id = c.site_id
+      JOIN collection_items ti ON ti.collection_id = target.id AND ti.id = v_item_id
+      CROSS JOIN LATERAL jsonb_each(c.item_schema) AS f
+      WHERE c.site_id = p_site_id
+        AND f.value->>'type' = 'reference'
+        AND f.value->>'collection' = target.collection_key
+    LOOP
+      FOR v_referencing_id IN
+        SELECT id FROM collection_items
+        WHERE collection_id = v_field.collection_id
+          AND deleted_at IS NULL
+          AND (
+            data @> jsonb_build_object(v_field.key, v_item_id::TEXT)
+            OR data @> jsonb_build_object(v_field.key, jsonb_build_array(v_item_id::TEXT))
+          )
+      LOOP
+        IF v_field.on_delete <> 'cascade' THEN
+          RAISE EXCEPTION 'reference_conflict' USING DETAIL = v_field.label;
+        END IF;
+
+        -- Items removed earlier in the cascade no longer match
+        IF EXISTS (SELECT 1 FROM collection_items WHERE id = v_referencing_id AND deleted_at IS NULL) THEN
+          PERFORM delete_collection_item(v_referencing_id);
+        END IF;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,14 @@
+-- Scheduled Publish Lease
+-- Run after 023_restore_content_snapshot.sql
+--
+-- Claiming a scheduled publish leases it to the runner until claimed_until,
+-- like webhook deliveries. If the runner dies before recording the outcome,
+-- the next run after the lease has expired claims the schedule again instead
+-- of leaving it in 'processing' for good.
+
+ALTER TABLE scheduled_publishes ADD COLUMN claimed_until TIMESTAMPTZ;
+
+-- Schedules stuck in 'processing' from before the lease existed are retried
+UPDATE scheduled_publishes SET claimed_until = NOW() WHERE status = 'processing';
+
+CREATE INDEX idx_scheduled_publishes_claimed ON scheduled_publishes(claimed_until) WHERE status = 'processing';
@@ -0,0 +1,34 @@
+-- Publish Request Snapshots
+-- Run after 024_scheduled_publish_lease.sql
+--
+-- A publish request keeps a snapshot of the draft as it was submitted, and
+-- approving it publishes that snapshot - edits made after submitting wait for
+-- the next publish. Requests from before this have no snapshot and publish
+-- the draft at approval time as before.
+
+ALTER TABLE publish_requests ADD COLUMN content_snapshot JSONB;
+
+-- ============================================
+-- PUBLISHED IMAGE URLS
+-- As before, plus the snapshots of requests awaiting approval, whose files
+-- are about to be published (with a NULL version_number)
+-- ============================================
+CREATE OR REPLACE FUNCTION published_image_urls(p_site_id UUID)
+RETURNS TABLE(url TEXT, version_number INTEGER) AS $$
+  SELECT DISTINCT value #>> '{}', snapshots.version_number
+  FROM (
+    SELECT h.content_snapshot, h.version_number
+    FROM publish_history h
+    WHERE h.site_id = p_site_id
+    UNION ALL
+    SELECT r.content_snapshot, NULL
+    FROM publish_requests r
+    WHERE r.site_id = p_site_id
+      AND r.status = 'pending'
+      AND r.content_snapshot IS NOT NULL
+  ) AS snapshots
+  CROSS JOIN LATERAL jsonb_path_query(snapshots.content_snapshot, 'lax $.**') AS value
+  WHERE jsonb_typeof(value) = 'string'
+    AND value #>> '{}' LIKE '%/object/public/images/%'
+  ORDER BY 1, 2;
+$$ LANGUAGE sql STABLE;